@@ -0,0 +1,21 @@
+import Link from "next/link";
+
+import AuditLogViewer from "@/components/AuditLogViewer";
+import { ADMIN_ROUTE } from "@/lib/routes";
+
+export default function AdminAuditPage() {
+  return (
+    <div className="min-h-screen flex flex-col gap-4 items-center py-10 px-4 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-5xl flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Audit Log</h1>
+        <Link
+          href={ADMIN_ROUTE}
+          className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          Back to user management
+        </Link>
+      </div>
+      <AuditLogViewer />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+
+import { requireRole } from "@/lib/authorization";
+
+// The proxy already requires a session here; this also hides the admin area
+// from signed-in users without the admin claim.
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const { user } = await requireRole("admin");
+
+  if (!user) {
+    notFound();
+  }
+
+  return children;
+}
@@ -0,0 +1,29 @@
+import Link from "next/link";
+
+import AdminUsers from "@/components/AdminUsers";
+import { ADMIN_AUDIT_ROUTE, DEFAULT_AUTHENTICATED_ROUTE } from "@/lib/routes";
+
+export default function AdminPage() {
+  return (
+    <div className="min-h-screen flex flex-col gap-4 items-center py-10 px-4 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-4xl flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">User Management</h1>
+        <div className="flex gap-4">
+          <Link
+            href={ADMIN_AUDIT_ROUTE}
+            className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            Audit log
+          </Link>
+          <Link
+            href={DEFAULT_AUTHENTICATED_ROUTE}
+            className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </div>
+      <AdminUsers />
+    </div>
+  );
+}
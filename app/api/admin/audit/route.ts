@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { adminErrorResponse } from '@/lib/admin';
+import { parseAuditFilter, queryAuditLog, toAuditCsv } from '@/lib/audit-log';
+import { requireRole } from '@/lib/authorization';
+
+// Supports ?user=, ?type=, ?from= and ?to= (YYYY-MM-DD). Add ?format=csv to
+// download the same events as a spreadsheet.
+export async function GET(request: NextRequest) {
+  const { response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const events = await queryAuditLog(parseAuditFilter(searchParams));
+
+    if (searchParams.get('format') === 'csv') {
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+      return new NextResponse(toAuditCsv(events), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ events });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
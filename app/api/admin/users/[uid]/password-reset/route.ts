@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { adminErrorResponse } from '@/lib/admin';
+import { forcePasswordReset } from '@/lib/admin-users';
+import { recordAdminAction } from '@/lib/audit-log';
+import { requireRole } from '@/lib/authorization';
+import { getRequestLocale } from '@/lib/request-locale';
+import { LOGIN_ROUTE } from '@/lib/routes';
+
+// Has Firebase email the owner a reset link, then clears the password and
+// signs the user out everywhere. The link never passes through here.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  const { user, response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { uid } = await params;
+
+  try {
+    const updated = await forcePasswordReset(uid, {
+      continueUrl: new URL(LOGIN_ROUTE, request.nextUrl.origin).toString(),
+      locale: await getRequestLocale(),
+    });
+    await recordAdminAction({
+      headers: request.headers,
+      adminUid: user.uid,
+      uid,
+      email: updated.email,
+      action: 'force_password_reset',
+    });
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
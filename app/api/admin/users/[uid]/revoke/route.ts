@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { adminErrorResponse } from '@/lib/admin';
+import { revokeUserSessions } from '@/lib/admin-users';
+import { recordAdminAction } from '@/lib/audit-log';
+import { requireRole } from '@/lib/authorization';
+
+// Signs the user out of every device once their current ID token expires
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  const { user, response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { uid } = await params;
+
+  try {
+    const updated = await revokeUserSessions(uid);
+    await recordAdminAction({
+      headers: request.headers,
+      adminUid: user.uid,
+      uid,
+      email: updated.email,
+      action: 'revoke_sessions',
+    });
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
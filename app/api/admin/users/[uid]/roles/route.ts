@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { adminErrorResponse } from '@/lib/admin';
+import { assertNotSelf, setUserRoles } from '@/lib/admin-users';
+import { recordAdminAction } from '@/lib/audit-log';
+import { requireRole } from '@/lib/authorization';
+import { isRole } from '@/lib/roles';
+
+// Accepts { roles: Role[] } and replaces the user's roles with it
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ uid: string }> }
+) {
+  const { user, response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { uid } = await params;
+  const body = await request.json().catch(() => null);
+  const roles: unknown = body?.roles;
+
+  if (!Array.isArray(roles) || !roles.every(isRole)) {
+    return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+  }
+
+  try {
+    if (!roles.includes('admin')) {
+      assertNotSelf(user.uid, uid, 'remove the admin role from');
+    }
+    const updated = await setUserRoles(uid, roles);
+    await recordAdminAction({
+      headers: request.headers,
+      adminUid: user.uid,
+      uid,
+      email: updated.email,
+      action: 'set_roles',
+      details: { roles: roles.join(',') },
+    });
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { adminErrorResponse } from '@/lib/admin';
+import { assertNotSelf, deleteUser, getAdminUser, setUserDisabled } from '@/lib/admin-users';
+import { recordAdminAction } from '@/lib/audit-log';
+import { requireRole } from '@/lib/authorization';
+
+interface UserRouteContext {
+  params: Promise<{ uid: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: UserRouteContext) {
+  const { response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { uid } = await params;
+
+  try {
+    return NextResponse.json({ user: await getAdminUser(uid) });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
+
+// Accepts { disabled: boolean } to disable or re-enable the account
+export async function PATCH(request: NextRequest, { params }: UserRouteContext) {
+  const { user, response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { uid } = await params;
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.disabled !== 'boolean') {
+    return NextResponse.json({ error: 'Missing disabled flag' }, { status: 400 });
+  }
+
+  try {
+    if (body.disabled) {
+      assertNotSelf(user.uid, uid, 'disable');
+    }
+    const updated = await setUserDisabled(uid, body.disabled);
+    await recordAdminAction({
+      headers: request.headers,
+      adminUid: user.uid,
+      uid,
+      email: updated.email,
+      action: body.disabled ? 'disable' : 'enable',
+    });
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: UserRouteContext) {
+  const { user, response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { uid } = await params;
+
+  try {
+    assertNotSelf(user.uid, uid, 'delete');
+    await deleteUser(uid);
+    await recordAdminAction({ headers: request.headers, adminUid: user.uid, uid, action: 'delete' });
+    return NextResponse.json({ status: 'success' });
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
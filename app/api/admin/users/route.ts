@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { adminErrorResponse } from '@/lib/admin';
+import { listAdminUsers, parsePageSize, searchAdminUsers } from '@/lib/admin-users';
+import { requireRole } from '@/lib/authorization';
+
+export async function GET(request: NextRequest) {
+  const { response } = await requireRole('admin');
+  if (response) {
+    return response;
+  }
+
+  const { searchParams } = request.nextUrl;
+  const query = searchParams.get('q')?.trim();
+
+  try {
+    const page = query
+      ? await searchAdminUsers(query)
+      : await listAdminUsers(
+          searchParams.get('pageToken') ?? undefined,
+          parsePageSize(searchParams.get('pageSize'))
+        );
+    return NextResponse.json(page);
+  } catch (error) {
+    return adminErrorResponse(error);
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { type AuditEventType, isAuditEventType } from '@/lib/audit-events';
+import { recordAuditEvent } from '@/lib/audit-log';
+import { firebaseAdmin } from '@/lib/firebase-admin';
+import { SlidingWindowRateLimiter } from '@/lib/rate-limit';
+import { getClientIp, getUserAgent } from '@/lib/request-info';
+
+// Events a browser may report. Admin actions are only recorded by the admin
+// route handlers themselves.
+const CLIENT_EVENT_TYPES: AuditEventType[] = [
+  'sign_up',
+  'sign_in',
+  'sign_in_failed',
+  'sign_out',
+  'password_reset_requested',
+  'password_reset_completed',
+];
+
+// Nobody is signed in yet when these happen, so they come without an ID token
+const ANONYMOUS_EVENT_TYPES: AuditEventType[] = [
+  'sign_in_failed',
+  'password_reset_requested',
+  'password_reset_completed',
+];
+
+// Keeps anonymous callers from flooding the log
+const anonymousLimiter = new SlidingWindowRateLimiter({
+  name: 'audit:ip',
+  limit: 60,
+  windowMs: 15 * 60 * 1000,
+  lockoutMs: 15 * 60 * 1000,
+});
+
+const MAX_DETAILS = 10;
+const MAX_VALUE_LENGTH = 200;
+
+const clip = (value: unknown) =>
+  typeof value === 'string' && value ? value.slice(0, MAX_VALUE_LENGTH) : null;
+
+function sanitizeDetails(value: unknown): Record<string, string> {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      .slice(0, MAX_DETAILS)
+      .map(([key, detail]) => [key.slice(0, 50), detail.slice(0, MAX_VALUE_LENGTH)])
+  );
+}
+
+// Records an auth event reported by the browser. With an
+// `Authorization: Bearer <ID token>` header the user comes from the verified
+// token; without one only anonymous event types are accepted, and the email
+// in the body is kept as the address the visitor typed. Nothing proves an
+// anonymous report happened, so it is stored as unverified.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const type = body?.type;
+
+  if (!isAuditEventType(type) || !CLIENT_EVENT_TYPES.includes(type)) {
+    return NextResponse.json({ error: 'Unknown event type' }, { status: 400 });
+  }
+
+  const ip = getClientIp(request.headers);
+  const idToken = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  let uid: string | null = null;
+  let email = clip(body.email);
+
+  if (idToken) {
+    try {
+      const decoded = await firebaseAdmin.verifyIdToken(idToken);
+      uid = decoded.uid;
+      email = decoded.email ?? null;
+    } catch {
+      return NextResponse.json({ error: 'Invalid ID token' }, { status: 401 });
+    }
+  } else {
+    if (!ANONYMOUS_EVENT_TYPES.includes(type)) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    const limit = await anonymousLimiter.hit(ip ?? 'unknown');
+    if (!limit.allowed) {
+      return NextResponse.json({ error: 'Too many events' }, { status: 429 });
+    }
+  }
+
+  await recordAuditEvent({
+    type,
+    uid,
+    email,
+    provider: clip(body.provider),
+    details: sanitizeDetails(body.details),
+    ip,
+    userAgent: getUserAgent(request.headers),
+    verified: uid !== null,
+  });
+
+  return NextResponse.json({ status: 'success' }, { status: 201 });
+}
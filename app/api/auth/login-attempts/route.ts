@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { recordLoginAttempt } from '@/lib/login-attempts';
+import { getClientIp } from '@/lib/request-info';
+import { validateEmail } from '@/lib/validation';
+
+// Login asks here before every password sign-in. A 429 carries the number of
+// seconds until the lockout ends, both in the body and in Retry-After.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const email = typeof body?.email === 'string' ? body.email : '';
+
+  if (validateEmail(email)) {
+    return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+  }
+
+  const retryAfterMs = await recordLoginAttempt(email, getClientIp(request.headers));
+
+  if (retryAfterMs > 0) {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    return NextResponse.json(
+      { error: 'Too many sign-in attempts', retryAfter },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  return NextResponse.json({ status: 'success' });
+}
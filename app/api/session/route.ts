@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { clearLoginAttempts, isFreshPasswordSignIn } from '@/lib/login-attempts';
+import { getDefaultRememberMe } from '@/lib/remember-me';
+import { getClientIp, getUserAgent } from '@/lib/request-info';
+import {
+  createSessionCookie,
+  getCurrentSessionId,
+  getSessionCookieOptions,
+  getSessionId,
+  getSessionUser,
+  revokeSession,
+  SESSION_COOKIE_NAME,
+  sessionCookieOptions,
+  SignInRevokedError,
+} from '@/lib/session';
+
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ user: null }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    user: { uid: user.uid, email: user.email ?? null },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const idToken = typeof body?.idToken === 'string' ? body.idToken : '';
+  const remember = typeof body?.remember === 'boolean' ? body.remember : getDefaultRememberMe();
+
+  if (!idToken) {
+    return NextResponse.json({ error: 'Missing ID token' }, { status: 400 });
+  }
+
+  try {
+    // A browser re-issues its cookie after profile changes; keep one entry per browser
+    const previousSessionId = await getCurrentSessionId();
+    const ip = getClientIp(request.headers);
+    const { sessionCookie, user } = await createSessionCookie(idToken, {
+      userAgent: getUserAgent(request.headers),
+      ip,
+      remember,
+    });
+    if (previousSessionId && previousSessionId !== getSessionId(sessionCookie)) {
+      await revokeSession(previousSessionId);
+    }
+    // Mistyped passwords before this successful sign-in no longer count
+    if (user.email && isFreshPasswordSignIn(user)) {
+      await clearLoginAttempts(user.email, ip);
+    }
+    const response = NextResponse.json({ status: 'success' });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, getSessionCookieOptions(remember));
+    return response;
+  } catch (error) {
+    if (error instanceof SignInRevokedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    return NextResponse.json({ error: 'Invalid ID token' }, { status: 401 });
+  }
+}
+
+export async function DELETE() {
+  // Also drops it from the session list; the cookie is deleted below anyway
+  const sessionId = await getCurrentSessionId();
+  if (sessionId) {
+    await revokeSession(sessionId);
+  }
+
+  const response = NextResponse.json({ status: 'success' });
+  response.cookies.set(SESSION_COOKIE_NAME, '', { ...sessionCookieOptions, maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import {
+  getCurrentSessionId,
+  getSessionUser,
+  revokeSession,
+  SESSION_COOKIE_NAME,
+  sessionCookieOptions,
+} from '@/lib/session';
+import { findUserSession } from '@/lib/user-sessions';
+
+// Ends one of the user's sessions, e.g. on a lost phone
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const session = await findUserSession(user.uid, id);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+  }
+
+  // The device's Firebase client is still signed in; keep it from getting a new cookie
+  await revokeSession(session.id, { signOutDevice: true });
+
+  const response = NextResponse.json({ status: 'success' });
+  if (session.id === (await getCurrentSessionId())) {
+    response.cookies.set(SESSION_COOKIE_NAME, '', { ...sessionCookieOptions, maxAge: 0 });
+  }
+  return response;
+}
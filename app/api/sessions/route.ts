@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+
+import {
+  getCurrentSessionId,
+  getSessionUser,
+  revokeAllSessions,
+  SESSION_COOKIE_NAME,
+  sessionCookieOptions,
+} from '@/lib/session';
+import { listUserSessions } from '@/lib/user-sessions';
+
+export async function GET() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    sessions: await listUserSessions(user.uid, await getCurrentSessionId()),
+  });
+}
+
+// Signs the user out everywhere, this browser included
+export async function DELETE() {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  await revokeAllSessions(user.uid);
+
+  const response = NextResponse.json({ status: 'success' });
+  response.cookies.set(SESSION_COOKIE_NAME, '', { ...sessionCookieOptions, maxAge: 0 });
+  return response;
+}
@@ -1,40 +1,90 @@
 'use client';
 
-import { onAuthStateChanged, signOut } from 'firebase/auth';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 
-import { auth } from '@/lib/firebase';
+import ActiveSessions from '@/components/ActiveSessions';
+import { useAuth } from '@/components/AuthProvider';
+import ConnectedAccounts from '@/components/ConnectedAccounts';
+import IdleTimeout from '@/components/IdleTimeout';
+import { useLocale } from '@/components/LocaleProvider';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import MfaSettings from '@/components/MfaSettings';
+import RequireRole from '@/components/RequireRole';
+import { getIdleTimeoutMs, IDLE_WARNING_MS } from '@/hooks/useIdleTimer';
+import { logAuditEvent } from '@/lib/audit-client';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+import { requiresEmailVerification } from '@/lib/email-verification';
+import {
+  ADMIN_ROUTE,
+  IDLE_SIGN_OUT_REASON,
+  LOGIN_ROUTE,
+  PROFILE_ROUTE,
+  SIGN_OUT_REASON_PARAM,
+  VERIFY_EMAIL_ROUTE,
+} from '@/lib/routes';
+import { clearServerSession } from '@/lib/session-client';
 
 export default function DashboardPage() {
   const router = useRouter();
+  const { user, loading, claims, signOut } = useAuth();
+  const { t } = useLocale();
   const [isSigningOut, setIsSigningOut] = useState(false);
   const [signOutMessage, setSignOutMessage] = useState('');
+  const idleTimeoutMs = getIdleTimeoutMs();
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, (user) => {
-      if (!user && !isSigningOut) {
-        router.replace('/login');
-      }
-    });
-
-    return unsubscribe;
-  }, [isSigningOut, router]);
+    if (!loading && !user && !isSigningOut) {
+      // The cookie goes first, or the proxy sends /login straight back here
+      clearServerSession()
+        .then(() => router.replace(LOGIN_ROUTE))
+        .catch(() => setSignOutMessage(t('dashboard.signOutFailed')));
+    } else if (user && requiresEmailVerification(claims)) {
+      router.replace(VERIFY_EMAIL_ROUTE);
+    }
+  }, [loading, user, claims, isSigningOut, router, t]);
 
-  const handleSignOut = async () => {
+  // `idle` is set when the inactivity timer ran out; the login page then
+  // tells the user why they were signed out
+  const handleSignOut = async (idle = false) => {
     setIsSigningOut(true);
-    setSignOutMessage('Signed out successfully!');
+    setSignOutMessage(t(idle ? 'dashboard.signedOutIdle' : 'dashboard.signedOut'));
 
     try {
-      await signOut(auth);
+      // Logged first, while the ID token still identifies the user
+      await logAuditEvent(
+        { type: 'sign_out', details: idle ? { reason: IDLE_SIGN_OUT_REASON } : undefined },
+        user
+      );
+      await signOut();
       await new Promise((resolve) => setTimeout(resolve, 1000));
-      router.replace('/login');
-    } catch {
+      router.replace(
+        idle ? `${LOGIN_ROUTE}?${SIGN_OUT_REASON_PARAM}=${IDLE_SIGN_OUT_REASON}` : LOGIN_ROUTE
+      );
+    } catch (error) {
       setIsSigningOut(false);
-      setSignOutMessage('Sign out failed. Please try again.');
+      setSignOutMessage(getAuthErrorDisplay(error, t('dashboard.signOutFailed'), t).message);
     }
   };
 
+  // Every session was revoked on the server; sign this browser's client out too
+  const handleSignedOutEverywhere = async () => {
+    setIsSigningOut(true);
+    setSignOutMessage(t('dashboard.signedOutEverywhere'));
+
+    try {
+      await logAuditEvent({ type: 'sign_out', details: { scope: 'everywhere' } }, user);
+      await signOut();
+    } catch (error) {
+      setIsSigningOut(false);
+      setSignOutMessage('');
+      throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    router.replace(LOGIN_ROUTE);
+  };
+
   return (
     <div className="min-h-screen flex flex-col gap-4 items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
       {signOutMessage && (
@@ -50,17 +100,47 @@ export default function DashboardPage() {
           data-testid="signout-buffer"
           className="p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
         >
-          Buffering... Redirecting to login
+          {t('dashboard.redirecting')}
         </div>
       )}
+      {user && (
+        <Link
+          href={PROFILE_ROUTE}
+          data-testid="profile-link"
+          className="text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          {t('dashboard.profileLink')}
+        </Link>
+      )}
+      <RequireRole role="admin">
+        <Link
+          href={ADMIN_ROUTE}
+          data-testid="admin-link"
+          className="text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          {t('dashboard.adminLink')}
+        </Link>
+      </RequireRole>
+      {user && <ConnectedAccounts user={user} />}
+      {user && <MfaSettings user={user} />}
+      {user && <ActiveSessions onSignedOutEverywhere={handleSignedOutEverywhere} />}
+      {user && !isSigningOut && idleTimeoutMs !== null && (
+        <IdleTimeout
+          timeoutMs={idleTimeoutMs}
+          warningMs={IDLE_WARNING_MS}
+          onIdle={() => handleSignOut(true)}
+          onSignOut={() => handleSignOut()}
+        />
+      )}
       <button
         type="button"
-        onClick={handleSignOut}
+        onClick={() => handleSignOut()}
         disabled={isSigningOut}
         className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
       >
-        {isSigningOut ? 'Signing out...' : 'Sign Out'}
+        {t(isSigningOut ? 'dashboard.signingOut' : 'dashboard.signOut')}
       </button>
+      <LocaleSwitcher />
     </div>
   );
 }
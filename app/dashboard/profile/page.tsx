@@ -0,0 +1,44 @@
+'use client';
+
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+
+import { useAuth } from '@/components/AuthProvider';
+import ProfileSettings from '@/components/ProfileSettings';
+import { requiresEmailVerification } from '@/lib/email-verification';
+import { DEFAULT_AUTHENTICATED_ROUTE, LOGIN_ROUTE, VERIFY_EMAIL_ROUTE } from '@/lib/routes';
+import { clearServerSession } from '@/lib/session-client';
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const { user, loading, claims } = useAuth();
+
+  useEffect(() => {
+    if (!loading && !user) {
+      // The cookie goes first, or the proxy sends /login straight back here.
+      // If that fails the page stays empty rather than bouncing.
+      clearServerSession()
+        .then(() => router.replace(LOGIN_ROUTE))
+        .catch(() => {});
+    } else if (user && requiresEmailVerification(claims)) {
+      router.replace(VERIFY_EMAIL_ROUTE);
+    }
+  }, [loading, user, claims, router]);
+
+  return (
+    <div className="min-h-screen flex flex-col gap-4 items-center justify-center py-10 bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900">Your Profile</h1>
+        <Link
+          href={DEFAULT_AUTHENTICATED_ROUTE}
+          data-testid="back-to-dashboard"
+          className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          Back to dashboard
+        </Link>
+      </div>
+      {user && <ProfileSettings user={user} />}
+    </div>
+  );
+}
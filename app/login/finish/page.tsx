@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+
+import FinishEmailLinkSignIn from "@/components/FinishEmailLinkSignIn";
+
+export default function FinishEmailLinkPage() {
+  return (
+    <Suspense>
+      <FinishEmailLinkSignIn />
+    </Suspense>
+  );
+}
@@ -1,5 +1,12 @@
+import { Suspense } from "react";
+
 import Login from "@/components/Login";
 
 export default function LoginPage() {
-  return <Login />;
+  // Login reads `returnTo` through useSearchParams, which needs a Suspense boundary
+  return (
+    <Suspense>
+      <Login />
+    </Suspense>
+  );
 }
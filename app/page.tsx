@@ -1,7 +1,10 @@
 import { redirect } from "next/navigation";
 
-export default function Home() {
-  // Redirect to login page
-  redirect("/login");
-}
+import { DEFAULT_AUTHENTICATED_ROUTE, LOGIN_ROUTE } from "@/lib/routes";
+import { getSessionUser } from "@/lib/session";
 
+export default async function Home() {
+  // Send signed-in users to the dashboard and everyone else to login
+  const user = await getSessionUser();
+  redirect(user ? DEFAULT_AUTHENTICATED_ROUTE : LOGIN_ROUTE);
+}
@@ -0,0 +1,11 @@
+import { Suspense } from "react";
+
+import ResetPassword from "@/components/ResetPassword";
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense>
+      <ResetPassword />
+    </Suspense>
+  );
+}
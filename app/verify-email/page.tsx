@@ -0,0 +1,5 @@
+import VerifyEmail from "@/components/VerifyEmail";
+
+export default function VerifyEmailPage() {
+  return <VerifyEmail />;
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { LogOut, MonitorSmartphone } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import { fetchSessions, revokeAllSessions, revokeSession } from '@/lib/session-client';
+import type { UserSession } from '@/lib/user-sessions';
+
+interface ActiveSessionsProps {
+  // Called once every session is revoked, to sign this browser out as well
+  onSignedOutEverywhere: () => Promise<void>;
+}
+
+const errorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export default function ActiveSessions({ onSignedOutEverywhere }: ActiveSessionsProps) {
+  const { locale, t } = useLocale();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [isConfirmingSignOut, setIsConfirmingSignOut] = useState(false);
+  const [isSigningOutEverywhere, setIsSigningOutEverywhere] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+
+    try {
+      setSessions(await fetchSessions());
+    } catch (loadError) {
+      setError(errorMessage(loadError, t('dashboard.sessions.error.load')));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (session: UserSession) => {
+    setMessage('');
+    setError('');
+    setBusySessionId(session.id);
+
+    try {
+      await revokeSession(session.id);
+      setSessions((prev) => prev.filter((item) => item.id !== session.id));
+      setMessage(t('dashboard.sessions.signedOutOf', { device: session.device }));
+    } catch (revokeError) {
+      setError(errorMessage(revokeError, t('dashboard.sessions.error.revoke')));
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!isConfirmingSignOut) {
+      setIsConfirmingSignOut(true);
+      return;
+    }
+
+    setMessage('');
+    setError('');
+    setIsSigningOutEverywhere(true);
+
+    try {
+      await revokeAllSessions();
+      await onSignedOutEverywhere();
+    } catch (signOutError) {
+      setIsSigningOutEverywhere(false);
+      setIsConfirmingSignOut(false);
+      setError(errorMessage(signOutError, t('dashboard.sessions.error.signOutEverywhere')));
+    }
+  };
+
+  const isBusy = busySessionId !== null || isSigningOutEverywhere;
+
+  return (
+    <section
+      data-testid="active-sessions"
+      className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4"
+    >
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <MonitorSmartphone className="size-5" aria-hidden="true" />
+        {t('dashboard.sessions.title')}
+      </h2>
+
+      {message && (
+        <div
+          data-testid="sessions-message"
+          className="p-3 bg-green-50 border border-green-200 text-green-800 rounded-lg text-sm"
+        >
+          {message}
+        </div>
+      )}
+      {error && (
+        <div
+          data-testid="sessions-error"
+          className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">{t('dashboard.sessions.loading')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100" data-testid="session-list">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-2 py-2"
+              data-testid={`session-${session.id}`}
+            >
+              <span className="text-gray-700" title={session.userAgent ?? undefined}>
+                {session.device}
+                {session.current && (
+                  <span className="ml-2 text-xs font-medium text-green-700">
+                    {t('dashboard.sessions.thisDevice')}
+                  </span>
+                )}
+                <span className="block text-xs text-gray-500">
+                  {t('dashboard.sessions.signedIn', {
+                    ip: session.ip ?? t('dashboard.sessions.unknownIp'),
+                    time: new Date(session.createdAt).toLocaleString(locale),
+                  })}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {t('dashboard.sessions.lastActive', {
+                    time: new Date(session.lastSeenAt).toLocaleString(locale),
+                  })}
+                </span>
+              </span>
+              {!session.current && (
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(session)}
+                  disabled={isBusy}
+                  data-testid={`revoke-session-${session.id}`}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:text-gray-400 font-medium"
+                >
+                  <LogOut className="size-3.5" aria-hidden="true" />
+                  {busySessionId === session.id
+                    ? t('dashboard.sessions.signingOut')
+                    : t('dashboard.sessions.signOut')}
+                </button>
+              )}
+            </li>
+          ))}
+          {sessions.length === 0 && (
+            <li className="py-2 text-sm text-gray-600">{t('dashboard.sessions.empty')}</li>
+          )}
+        </ul>
+      )}
+
+      <button
+        type="button"
+        onClick={handleSignOutEverywhere}
+        disabled={isBusy}
+        data-testid="signout-everywhere-button"
+        className="w-full border border-red-300 hover:bg-red-50 disabled:text-gray-400 text-red-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+      >
+        {isSigningOutEverywhere
+          ? t('dashboard.sessions.signingOutEverywhere')
+          : isConfirmingSignOut
+            ? t('dashboard.sessions.confirmSignOutEverywhere')
+            : t('dashboard.sessions.signOutEverywhere')}
+      </button>
+    </section>
+  );
+}
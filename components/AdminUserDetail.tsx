@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+
+import {
+  deleteUser,
+  forcePasswordReset,
+  revokeSessions,
+  setUserDisabled,
+  setUserRoles,
+} from '@/lib/admin-client';
+import type { AdminUser } from '@/lib/admin-users';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+import { type Role, ROLES } from '@/lib/roles';
+
+interface AdminUserDetailProps {
+  user: AdminUser;
+  onUpdated: (user: AdminUser) => void;
+  onDeleted: (uid: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : 'Never';
+
+export default function AdminUserDetail({
+  user,
+  onUpdated,
+  onDeleted,
+  onClose,
+}: AdminUserDetailProps) {
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const runAction = async (action: string, run: () => Promise<string>) => {
+    setMessage('');
+    setError('');
+    setBusyAction(action);
+
+    try {
+      setMessage(await run());
+    } catch (actionError) {
+      setError(getAuthErrorDisplay(actionError, 'Something went wrong. Please try again.').message);
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleToggleDisabled = () =>
+    runAction('disable', async () => {
+      onUpdated(await setUserDisabled(user.uid, !user.disabled));
+      return user.disabled ? 'Account enabled.' : 'Account disabled and signed out.';
+    });
+
+  const handleToggleRole = (role: Role) => {
+    const roles = user.roles.includes(role)
+      ? user.roles.filter((granted) => granted !== role)
+      : [...user.roles, role];
+
+    return runAction('roles', async () => {
+      onUpdated(await setUserRoles(user.uid, roles));
+      return 'Roles updated. They apply the next time the user signs in or refreshes.';
+    });
+  };
+
+  const handleRevoke = () =>
+    runAction('revoke', async () => {
+      onUpdated(await revokeSessions(user.uid));
+      return 'Signed out of every device.';
+    });
+
+  const handleForceReset = () =>
+    runAction('reset', async () => {
+      // The server has Firebase email the link straight to the owner, so
+      // nobody else sees it
+      const updated = await forcePasswordReset(user.uid);
+      onUpdated(updated);
+      return `Password cleared. We emailed ${updated.email} a link to choose a new one.`;
+    });
+
+  const handleDelete = () =>
+    runAction('delete', async () => {
+      await deleteUser(user.uid);
+      onDeleted(user.uid);
+      return 'Account deleted.';
+    });
+
+  const details: [string, string][] = [
+    ['User ID', user.uid],
+    ['Email', user.email ? `${user.email}${user.emailVerified ? ' (verified)' : ''}` : '—'],
+    ['Phone', user.phoneNumber ?? '—'],
+    ['Sign-in methods', user.providerIds.join(', ') || '—'],
+    ['Two-step verification', user.mfaFactorCount > 0 ? 'On' : 'Off'],
+    ['Created', formatDate(user.createdAt)],
+    ['Last sign-in', formatDate(user.lastSignInAt)],
+    ['Last active', formatDate(user.lastActiveAt)],
+    ['Sessions valid after', formatDate(user.tokensValidAfter)],
+    ['Custom claims', JSON.stringify(user.customClaims)],
+  ];
+
+  return (
+    <section
+      data-testid="admin-user-detail"
+      className="w-full bg-white rounded-lg shadow-xl p-6 space-y-4"
+    >
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            {user.displayName ?? user.email ?? user.phoneNumber ?? user.uid}
+          </h2>
+          <p
+            data-testid="admin-user-status"
+            className={`text-sm font-medium ${user.disabled ? 'text-red-600' : 'text-green-700'}`}
+          >
+            {user.disabled ? 'Disabled' : 'Active'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          data-testid="admin-user-close"
+          className="text-sm text-gray-600 hover:text-gray-800 font-medium"
+        >
+          Close
+        </button>
+      </div>
+
+      {message && (
+        <div
+          data-testid="admin-user-message"
+          className="p-3 bg-green-50 border border-green-200 text-green-800 rounded-lg text-sm"
+        >
+          {message}
+        </div>
+      )}
+      {error && (
+        <div
+          data-testid="admin-user-error"
+          className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+        {details.map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="text-gray-900 break-all">{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <fieldset className="space-y-1" data-testid="admin-user-roles">
+        <legend className="text-sm font-medium text-gray-700 mb-1">Roles</legend>
+        {ROLES.map((role) => (
+          <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={user.roles.includes(role)}
+              onChange={() => handleToggleRole(role)}
+              disabled={busyAction !== null}
+              data-testid={`admin-role-${role}`}
+              className="size-4 accent-indigo-600"
+            />
+            {role}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={handleToggleDisabled}
+          disabled={busyAction !== null}
+          data-testid="admin-toggle-disabled"
+          className="border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 text-gray-700 font-semibold py-2 px-3 rounded-lg text-sm transition duration-200"
+        >
+          {user.disabled ? 'Enable account' : 'Disable account'}
+        </button>
+        <button
+          type="button"
+          onClick={handleRevoke}
+          disabled={busyAction !== null}
+          data-testid="admin-revoke-sessions"
+          className="border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 text-gray-700 font-semibold py-2 px-3 rounded-lg text-sm transition duration-200"
+        >
+          Sign out everywhere
+        </button>
+        {user.providerIds.includes('password') && !user.roles.includes('admin') && (
+          <button
+            type="button"
+            onClick={handleForceReset}
+            disabled={busyAction !== null}
+            data-testid="admin-force-reset"
+            className="border border-gray-300 hover:bg-gray-50 disabled:text-gray-400 text-gray-700 font-semibold py-2 px-3 rounded-lg text-sm transition duration-200"
+          >
+            Force password reset
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={isConfirmingDelete ? handleDelete : () => setIsConfirmingDelete(true)}
+          disabled={busyAction !== null}
+          data-testid="admin-delete-user"
+          className="bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white font-semibold py-2 px-3 rounded-lg text-sm transition duration-200"
+        >
+          {busyAction === 'delete'
+            ? 'Deleting...'
+            : isConfirmingDelete
+              ? 'Click again to delete'
+              : 'Delete account'}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+import AdminUserDetail from '@/components/AdminUserDetail';
+import { fetchUsers } from '@/lib/admin-client';
+import type { AdminUser } from '@/lib/admin-users';
+
+export default function AdminUsers() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [query, setQuery] = useState('');
+  const [activeQuery, setActiveQuery] = useState('');
+  // Tokens of the pages before the current one, so "Previous" can go back
+  const [previousTokens, setPreviousTokens] = useState<(string | null)[]>([]);
+  const [pageToken, setPageToken] = useState<string | null>(null);
+  const [nextPageToken, setNextPageToken] = useState<string | null>(null);
+  const [selectedUid, setSelectedUid] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(async (search: string, token: string | null) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const page = await fetchUsers({ query: search, pageToken: token });
+      setUsers(page.users);
+      setNextPageToken(page.nextPageToken);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load users.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPage(activeQuery, pageToken);
+  }, [loadPage, activeQuery, pageToken]);
+
+  const handleSearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setSelectedUid(null);
+    setPreviousTokens([]);
+    setPageToken(null);
+    setActiveQuery(query.trim());
+  };
+
+  const handleNextPage = () => {
+    setPreviousTokens((prev) => [...prev, pageToken]);
+    setPageToken(nextPageToken);
+  };
+
+  const handlePreviousPage = () => {
+    setPageToken(previousTokens[previousTokens.length - 1] ?? null);
+    setPreviousTokens((prev) => prev.slice(0, -1));
+  };
+
+  const handleUpdated = (updated: AdminUser) =>
+    setUsers((prev) => prev.map((user) => (user.uid === updated.uid ? updated : user)));
+
+  const handleDeleted = (uid: string) => {
+    setUsers((prev) => prev.filter((user) => user.uid !== uid));
+    setSelectedUid(null);
+  };
+
+  const selectedUser = users.find((user) => user.uid === selectedUid);
+
+  return (
+    <div className="w-full max-w-4xl space-y-4">
+      <form onSubmit={handleSearch} className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Find by email, phone number or user ID"
+          aria-label="Search users"
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition"
+          data-testid="admin-search-input"
+        />
+        <button
+          type="submit"
+          data-testid="admin-search-button"
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+        >
+          Search
+        </button>
+      </form>
+
+      {error && (
+        <div
+          data-testid="admin-users-error"
+          className="p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+        >
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-xl overflow-x-auto">
+        <table className="w-full text-sm text-left" data-testid="admin-users-table">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 font-medium">User</th>
+              <th className="px-4 py-2 font-medium">Sign-in methods</th>
+              <th className="px-4 py-2 font-medium">Status</th>
+              <th className="px-4 py-2 font-medium">Last sign-in</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {users.map((user) => (
+              <tr
+                key={user.uid}
+                onClick={() => setSelectedUid(user.uid)}
+                data-testid={`admin-user-row-${user.uid}`}
+                className={`cursor-pointer hover:bg-indigo-50 ${
+                  user.uid === selectedUid ? 'bg-indigo-50' : ''
+                }`}
+              >
+                <td className="px-4 py-2">
+                  <div className="font-medium text-gray-900">
+                    {user.email ?? user.phoneNumber ?? user.uid}
+                  </div>
+                  {user.displayName && <div className="text-gray-500">{user.displayName}</div>}
+                </td>
+                <td className="px-4 py-2 text-gray-700">{user.providerIds.join(', ') || '—'}</td>
+                <td className="px-4 py-2">
+                  {user.disabled ? (
+                    <span className="text-red-600 font-medium">Disabled</span>
+                  ) : (
+                    <span className="text-green-700 font-medium">Active</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-700">
+                  {user.lastSignInAt ? new Date(user.lastSignInAt).toLocaleDateString() : 'Never'}
+                </td>
+              </tr>
+            ))}
+            {!isLoading && users.length === 0 && (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-gray-500">
+                  {activeQuery ? `No user matches "${activeQuery}".` : 'No users yet.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={handlePreviousPage}
+          disabled={isLoading || previousTokens.length === 0}
+          data-testid="admin-previous-page"
+          className="text-sm text-indigo-600 hover:text-indigo-700 disabled:text-gray-400 font-medium"
+        >
+          Previous
+        </button>
+        {isLoading && <span className="text-sm text-gray-500">Loading...</span>}
+        <button
+          type="button"
+          onClick={handleNextPage}
+          disabled={isLoading || !nextPageToken}
+          data-testid="admin-next-page"
+          className="text-sm text-indigo-600 hover:text-indigo-700 disabled:text-gray-400 font-medium"
+        >
+          Next
+        </button>
+      </div>
+
+      {selectedUser && (
+        <AdminUserDetail
+          key={selectedUser.uid}
+          user={selectedUser}
+          onUpdated={handleUpdated}
+          onDeleted={handleDeleted}
+          onClose={() => setSelectedUid(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { Download } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+import { fetchAuditLog, getAuditCsvUrl } from '@/lib/audit-client';
+import {
+  AUDIT_EVENT_LABELS,
+  AUDIT_EVENT_TYPES,
+  type AuditEvent,
+  type AuditLogFilter,
+  isAuditEventType,
+} from '@/lib/audit-events';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition';
+
+const formatDetails = (details: Record<string, string>) =>
+  Object.entries(details)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+
+export default function AuditLogViewer() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [filter, setFilter] = useState<AuditLogFilter>({});
+  const [activeFilter, setActiveFilter] = useState<AuditLogFilter>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadEvents = useCallback(async (nextFilter: AuditLogFilter) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setEvents(await fetchAuditLog(nextFilter));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Could not load the audit log.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEvents(activeFilter);
+  }, [loadEvents, activeFilter]);
+
+  const updateFilter = (changes: AuditLogFilter) => setFilter((prev) => ({ ...prev, ...changes }));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setActiveFilter({ ...filter, user: filter.user?.trim() || undefined });
+  };
+
+  return (
+    <div className="w-full max-w-5xl space-y-4">
+      <form
+        onSubmit={handleSubmit}
+        className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end bg-white rounded-lg shadow-xl p-4"
+      >
+        <label className="col-span-2 md:col-span-1 text-sm font-medium text-gray-700">
+          User
+          <input
+            type="search"
+            value={filter.user ?? ''}
+            onChange={(e) => updateFilter({ user: e.target.value })}
+            placeholder="Email or user ID"
+            className={inputClassName}
+            data-testid="audit-user-input"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Event
+          <select
+            value={filter.type ?? ''}
+            onChange={(e) =>
+              updateFilter({ type: isAuditEventType(e.target.value) ? e.target.value : undefined })
+            }
+            className={inputClassName}
+            data-testid="audit-type-select"
+          >
+            <option value="">All events</option>
+            {AUDIT_EVENT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {AUDIT_EVENT_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          From
+          <input
+            type="date"
+            value={filter.from ?? ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            className={inputClassName}
+            data-testid="audit-from-input"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          To
+          <input
+            type="date"
+            value={filter.to ?? ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            className={inputClassName}
+            data-testid="audit-to-input"
+          />
+        </label>
+        <button
+          type="submit"
+          data-testid="audit-filter-button"
+          className="bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+        >
+          Filter
+        </button>
+      </form>
+
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-gray-600">
+          {isLoading ? 'Loading...' : `${events.length} events, newest first (dates in UTC)`}
+        </span>
+        <a
+          href={getAuditCsvUrl(activeFilter)}
+          download
+          data-testid="audit-export-link"
+          className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+        >
+          <Download className="size-4" aria-hidden="true" />
+          Export CSV
+        </a>
+      </div>
+
+      {error && (
+        <div
+          data-testid="audit-error"
+          className="p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+        >
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-xl overflow-x-auto">
+        <table className="w-full text-sm text-left" data-testid="audit-table">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-2 font-medium">Time</th>
+              <th className="px-4 py-2 font-medium">Event</th>
+              <th className="px-4 py-2 font-medium">User</th>
+              <th className="px-4 py-2 font-medium">Method</th>
+              <th className="px-4 py-2 font-medium">Details</th>
+              <th className="px-4 py-2 font-medium">IP</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {events.map((event) => (
+              <tr key={event.id} data-testid={`audit-event-${event.id}`}>
+                <td className="px-4 py-2 text-gray-700 whitespace-nowrap">
+                  {new Date(event.createdAt).toLocaleString()}
+                </td>
+                <td className="px-4 py-2 font-medium text-gray-900">
+                  {AUDIT_EVENT_LABELS[event.type]}
+                </td>
+                <td className="px-4 py-2 text-gray-700">
+                  {event.email ?? event.uid ?? '—'}
+                  {event.actorUid && event.actorUid !== event.uid && (
+                    <span className="block text-xs text-gray-500">by {event.actorUid}</span>
+                  )}
+                  {/* Events logged before the flag existed have none */}
+                  {event.verified === false && (
+                    <span
+                      className="block text-xs text-amber-700"
+                      title="Reported without signing in; anyone could have sent it"
+                      data-testid={`audit-unverified-${event.id}`}
+                    >
+                      Unverified report
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-700">{event.provider ?? '—'}</td>
+                <td className="px-4 py-2 text-gray-700">{formatDetails(event.details) || '—'}</td>
+                <td className="px-4 py-2 text-gray-700">{event.ip ?? '—'}</td>
+              </tr>
+            ))}
+            {!isLoading && events.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-500">
+                  No events match this filter.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
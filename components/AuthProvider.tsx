@@ -0,0 +1,215 @@
+'use client';
+
+import {
+  browserLocalPersistence,
+  browserSessionPersistence,
+  createUserWithEmailAndPassword,
+  getRedirectResult,
+  type AuthProvider as FirebaseAuthProvider,
+  type ConfirmationResult,
+  type MultiFactorAssertion,
+  type MultiFactorResolver,
+  onIdTokenChanged,
+  type ParsedToken,
+  sendEmailVerification,
+  setPersistence,
+  signInWithEmailAndPassword,
+  signInWithEmailLink as firebaseSignInWithEmailLink,
+  signInWithPopup,
+  signInWithRedirect,
+  signOut as firebaseSignOut,
+  type User,
+  updateProfile,
+  type UserCredential,
+} from 'firebase/auth';
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+import { auth } from '@/lib/firebase';
+import { storeRememberMe } from '@/lib/remember-me';
+import { DEFAULT_AUTHENTICATED_ROUTE } from '@/lib/routes';
+import { clearServerSession, createServerSession } from '@/lib/session-client';
+
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean;
+  claims: ParsedToken | null;
+  setRememberMe: (remember: boolean) => Promise<void>;
+  signIn: (email: string, password: string) => Promise<UserCredential>;
+  signUp: (email: string, password: string, displayName?: string) => Promise<UserCredential>;
+  signInWithProvider: (provider: FirebaseAuthProvider) => Promise<UserCredential>;
+  signInWithProviderRedirect: (provider: FirebaseAuthProvider) => Promise<void>;
+  getProviderRedirectResult: () => Promise<UserCredential | null>;
+  signInWithEmailLink: (email: string, emailLink: string) => Promise<UserCredential>;
+  confirmPhoneSignIn: (confirmation: ConfirmationResult, code: string) => Promise<UserCredential>;
+  resolveMultiFactorSignIn: (
+    resolver: MultiFactorResolver,
+    assertion: MultiFactorAssertion
+  ) => Promise<UserCredential>;
+  signOut: () => Promise<void>;
+  refreshUser: () => Promise<User | null>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Signs the client back out when the server session cannot be created, so the
+// client SDK and the session cookie never disagree about who is signed in.
+async function withServerSession(credential: UserCredential): Promise<UserCredential> {
+  try {
+    await createServerSession(credential.user);
+  } catch (error) {
+    await firebaseSignOut(auth);
+    throw error;
+  }
+  return credential;
+}
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [claims, setClaims] = useState<ParsedToken | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // onIdTokenChanged also fires on sign-in and sign-out, and additionally
+    // whenever the token is refreshed with new custom claims.
+    const unsubscribe = onIdTokenChanged(auth, async (nextUser) => {
+      const tokenResult = nextUser ? await nextUser.getIdTokenResult() : null;
+      setUser(nextUser);
+      setClaims(tokenResult?.claims ?? null);
+      setLoading(false);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // Call before signing in. Firebase keeps a remembered user in localStorage
+  // and anyone else in sessionStorage, which is cleared with the tab.
+  const setRememberMe = useCallback(async (remember: boolean) => {
+    await setPersistence(auth, remember ? browserLocalPersistence : browserSessionPersistence);
+    storeRememberMe(remember);
+  }, []);
+
+  const signIn = useCallback(
+    async (email: string, password: string) =>
+      withServerSession(await signInWithEmailAndPassword(auth, email, password)),
+    []
+  );
+
+  const signUp = useCallback(async (email: string, password: string, displayName?: string) => {
+    const credential = await withServerSession(
+      await createUserWithEmailAndPassword(auth, email, password)
+    );
+    if (displayName) {
+      // The account exists by now, so a failure here must not fail the sign-up;
+      // the name can still be set from the profile page.
+      await updateProfile(credential.user, { displayName }).catch(() => undefined);
+    }
+    await sendEmailVerification(credential.user, {
+      url: `${window.location.origin}${DEFAULT_AUTHENTICATED_ROUTE}`,
+    });
+    return credential;
+  }, []);
+
+  const signInWithProvider = useCallback(
+    async (provider: FirebaseAuthProvider) =>
+      withServerSession(await signInWithPopup(auth, provider)),
+    []
+  );
+
+  // Leaves the app for the provider's page; the result is picked up with
+  // getProviderRedirectResult once the browser comes back
+  const signInWithProviderRedirect = useCallback(
+    (provider: FirebaseAuthProvider) => signInWithRedirect(auth, provider),
+    []
+  );
+
+  // Null when this page load is not the return from a redirect sign-in
+  const getProviderRedirectResult = useCallback(async () => {
+    const credential = await getRedirectResult(auth);
+    return credential && withServerSession(credential);
+  }, []);
+
+  const signInWithEmailLink = useCallback(
+    async (email: string, emailLink: string) =>
+      withServerSession(await firebaseSignInWithEmailLink(auth, email, emailLink)),
+    []
+  );
+
+  // Second half of signInWithPhoneNumber, once the user has the SMS code
+  const confirmPhoneSignIn = useCallback(
+    async (confirmation: ConfirmationResult, code: string) =>
+      withServerSession(await confirmation.confirm(code)),
+    []
+  );
+
+  // Finishes a sign-in that was interrupted by auth/multi-factor-auth-required
+  const resolveMultiFactorSignIn = useCallback(
+    async (resolver: MultiFactorResolver, assertion: MultiFactorAssertion) =>
+      withServerSession(await resolver.resolveSignIn(assertion)),
+    []
+  );
+
+  const signOut = useCallback(async () => {
+    await clearServerSession();
+    await firebaseSignOut(auth);
+  }, []);
+
+  // Reloads the profile (e.g. after the user verified their email elsewhere)
+  // and re-issues the session cookie from a fresh ID token so the server sees
+  // the same state.
+  const refreshUser = useCallback(async () => {
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      return null;
+    }
+
+    await currentUser.reload();
+    await currentUser.getIdToken(true);
+    await createServerSession(currentUser);
+    return currentUser;
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      user,
+      loading,
+      claims,
+      setRememberMe,
+      signIn,
+      signUp,
+      signInWithProvider,
+      signInWithProviderRedirect,
+      getProviderRedirectResult,
+      signInWithEmailLink,
+      confirmPhoneSignIn,
+      resolveMultiFactorSignIn,
+      signOut,
+      refreshUser,
+    }),
+    [
+      user,
+      loading,
+      claims,
+      setRememberMe,
+      signIn,
+      signUp,
+      signInWithProvider,
+      signInWithProviderRedirect,
+      getProviderRedirectResult,
+      signInWithEmailLink,
+      confirmPhoneSignIn,
+      resolveMultiFactorSignIn,
+      signOut,
+      refreshUser,
+    ]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
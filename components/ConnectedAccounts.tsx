@@ -0,0 +1,327 @@
+'use client';
+
+import {
+  type ConfirmationResult,
+  EmailAuthProvider,
+  linkWithCredential,
+  linkWithPhoneNumber,
+  linkWithPopup,
+  PhoneAuthProvider,
+  unlink,
+  type User,
+} from 'firebase/auth';
+import { Link2, Mail, Phone, Unlink } from 'lucide-react';
+import { useState } from 'react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
+import PhoneVerification from '@/components/PhoneVerification';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+import {
+  createAuthProvider,
+  findProviderConfig,
+  getEnabledProviders,
+  isPhoneSignInEnabled,
+  type OAuthProviderConfig,
+} from '@/lib/auth-providers';
+import { getValidationMessages } from '@/lib/i18n';
+import { validateNewPassword } from '@/lib/validation';
+
+const PASSWORD_PROVIDER_ID = EmailAuthProvider.PROVIDER_ID;
+const PHONE_PROVIDER_ID = PhoneAuthProvider.PROVIDER_ID;
+
+interface ConnectedAccountsProps {
+  user: User;
+}
+
+function getLinkedProviderIds(user: User): string[] {
+  return user.providerData.map((profile) => profile.providerId);
+}
+
+export default function ConnectedAccounts({ user }: ConnectedAccountsProps) {
+  const { t } = useLocale();
+  const [linkedIds, setLinkedIds] = useState(() => getLinkedProviderIds(user));
+  const [busyProviderId, setBusyProviderId] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isSettingPassword, setIsSettingPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [isAddingPhone, setIsAddingPhone] = useState(false);
+
+  // Enabled providers first, then anything linked that is no longer offered
+  const oauthProviders: OAuthProviderConfig[] = [
+    ...getEnabledProviders(),
+    ...linkedIds
+      .filter((id) => id !== PASSWORD_PROVIDER_ID)
+      .map((id) => findProviderConfig(id))
+      .filter((config): config is OAuthProviderConfig => Boolean(config)),
+  ].filter(
+    (config, index, all) => all.findIndex((other) => other.id === config.id) === index
+  );
+
+  // Firebase refuses to remove the last way to sign in
+  const canUnlink = linkedIds.length > 1;
+
+  const runAction = async (providerId: string, action: () => Promise<string>) => {
+    setMessage('');
+    setError('');
+    setBusyProviderId(providerId);
+
+    try {
+      setMessage(await action());
+      setLinkedIds(getLinkedProviderIds(user));
+    } catch (actionError) {
+      setError(getAuthErrorDisplay(actionError, t('dashboard.accounts.error'), t).message);
+    } finally {
+      setBusyProviderId(null);
+    }
+  };
+
+  const handleLink = (provider: OAuthProviderConfig) =>
+    runAction(provider.providerId, async () => {
+      await linkWithPopup(user, createAuthProvider(provider));
+      return t('dashboard.accounts.connected', { provider: provider.label });
+    });
+
+  const handleUnlink = (providerId: string, label: string) =>
+    runAction(providerId, async () => {
+      await unlink(user, providerId);
+      return t('dashboard.accounts.disconnected', { provider: label });
+    });
+
+  const handleSetPassword = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const validationError = validateNewPassword(
+      password,
+      user.email ?? undefined,
+      getValidationMessages(t)
+    );
+    if (validationError) {
+      setPasswordError(validationError);
+      return;
+    }
+
+    await runAction(PASSWORD_PROVIDER_ID, async () => {
+      await linkWithCredential(user, EmailAuthProvider.credential(user.email ?? '', password));
+      setPassword('');
+      setIsSettingPassword(false);
+      return t('dashboard.accounts.passwordAdded');
+    });
+  };
+
+  // Errors are shown by PhoneVerification so a mistyped code can be retried
+  const handleConfirmPhone = async (confirmation: ConfirmationResult, code: string) => {
+    setMessage('');
+    setError('');
+    await confirmation.confirm(code);
+    setLinkedIds(getLinkedProviderIds(user));
+    setIsAddingPhone(false);
+    setMessage(t('dashboard.accounts.phoneConnected'));
+  };
+
+  const isPasswordLinked = linkedIds.includes(PASSWORD_PROVIDER_ID);
+  const isPhoneLinked = linkedIds.includes(PHONE_PROVIDER_ID);
+
+  return (
+    <section
+      data-testid="connected-accounts"
+      className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4"
+    >
+      <h2 className="text-lg font-semibold text-gray-900">{t('dashboard.accounts.title')}</h2>
+
+      {message && (
+        <div
+          data-testid="connected-accounts-message"
+          className="p-3 bg-green-50 border border-green-200 text-green-800 rounded-lg text-sm"
+        >
+          {message}
+        </div>
+      )}
+      {error && (
+        <div
+          data-testid="connected-accounts-error"
+          className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {user.email && (
+          <li className="flex items-center justify-between py-2" data-testid="provider-password">
+            <span className="flex items-center gap-2 text-gray-700">
+              <Mail className="size-4" aria-hidden="true" />
+              {t('dashboard.accounts.password')}
+            </span>
+            {isPasswordLinked ? (
+              <button
+                type="button"
+                onClick={() =>
+                  handleUnlink(PASSWORD_PROVIDER_ID, t('dashboard.accounts.password'))
+                }
+                disabled={!canUnlink || busyProviderId !== null}
+                data-testid="unlink-password-button"
+                className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:text-gray-400 font-medium"
+              >
+                <Unlink className="size-3.5" aria-hidden="true" />
+                {t('dashboard.accounts.disconnect')}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsSettingPassword(true)}
+                disabled={busyProviderId !== null}
+                data-testid="link-password-button"
+                className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700 disabled:text-gray-400 font-medium"
+              >
+                <Link2 className="size-3.5" aria-hidden="true" />
+                {t('dashboard.accounts.setPassword')}
+              </button>
+            )}
+          </li>
+        )}
+
+        {(isPhoneLinked || isPhoneSignInEnabled()) && (
+          <li className="flex items-center justify-between py-2" data-testid="provider-phone">
+            <span className="flex items-center gap-2 text-gray-700">
+              <Phone className="size-4" aria-hidden="true" />
+              {isPhoneLinked && user.phoneNumber
+                ? user.phoneNumber
+                : t('dashboard.accounts.phone')}
+            </span>
+            {isPhoneLinked ? (
+              <button
+                type="button"
+                onClick={() => handleUnlink(PHONE_PROVIDER_ID, t('dashboard.accounts.phone'))}
+                disabled={!canUnlink || busyProviderId !== null}
+                data-testid="unlink-phone-button"
+                className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:text-gray-400 font-medium"
+              >
+                <Unlink className="size-3.5" aria-hidden="true" />
+                {busyProviderId === PHONE_PROVIDER_ID
+                  ? t('dashboard.accounts.disconnecting')
+                  : t('dashboard.accounts.disconnect')}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setIsAddingPhone(true)}
+                disabled={busyProviderId !== null}
+                data-testid="link-phone-button"
+                className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700 disabled:text-gray-400 font-medium"
+              >
+                <Link2 className="size-3.5" aria-hidden="true" />
+                {t('dashboard.accounts.addPhone')}
+              </button>
+            )}
+          </li>
+        )}
+
+        {oauthProviders.map((provider) => {
+          const Icon = provider.icon;
+          const isLinked = linkedIds.includes(provider.providerId);
+          return (
+            <li
+              key={provider.id}
+              className="flex items-center justify-between py-2"
+              data-testid={`provider-${provider.id}`}
+            >
+              <span className="flex items-center gap-2 text-gray-700">
+                <Icon className="size-4" aria-hidden="true" />
+                {provider.label}
+              </span>
+              {isLinked ? (
+                <button
+                  type="button"
+                  onClick={() => handleUnlink(provider.providerId, provider.label)}
+                  disabled={!canUnlink || busyProviderId !== null}
+                  data-testid={`unlink-${provider.id}-button`}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:text-gray-400 font-medium"
+                >
+                  <Unlink className="size-3.5" aria-hidden="true" />
+                  {busyProviderId === provider.providerId
+                    ? t('dashboard.accounts.disconnecting')
+                    : t('dashboard.accounts.disconnect')}
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleLink(provider)}
+                  disabled={busyProviderId !== null}
+                  data-testid={`link-${provider.id}-button`}
+                  className="flex items-center gap-1 text-sm text-indigo-600 hover:text-indigo-700 disabled:text-gray-400 font-medium"
+                >
+                  <Link2 className="size-3.5" aria-hidden="true" />
+                  {busyProviderId === provider.providerId
+                    ? t('dashboard.accounts.connecting')
+                    : t('dashboard.accounts.connect')}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {isAddingPhone && (
+        <PhoneVerification
+          sendCode={(phoneNumber, verifier) => linkWithPhoneNumber(user, phoneNumber, verifier)}
+          onConfirm={handleConfirmPhone}
+          onCancel={() => setIsAddingPhone(false)}
+        />
+      )}
+
+      {isSettingPassword && (
+        <form onSubmit={handleSetPassword} noValidate className="space-y-3">
+          <label htmlFor="new-password" className="block text-sm font-medium text-gray-700">
+            {t('dashboard.accounts.newPassword')}
+          </label>
+          <input
+            type="password"
+            id="new-password"
+            value={password}
+            onChange={(e) => {
+              setPassword(e.target.value);
+              setPasswordError('');
+            }}
+            placeholder="••••••••"
+            className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+              passwordError ? 'border-red-500' : 'border-gray-300'
+            }`}
+            data-testid="new-password-input"
+          />
+          {passwordError && (
+            <p className="text-sm text-red-600" data-testid="new-password-error">
+              {passwordError}
+            </p>
+          )}
+          <PasswordStrengthMeter password={password} email={user.email ?? undefined} />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={busyProviderId !== null}
+              data-testid="save-password-button"
+              className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              {busyProviderId === PASSWORD_PROVIDER_ID
+                ? t('dashboard.accounts.saving')
+                : t('dashboard.accounts.savePassword')}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setIsSettingPassword(false);
+                setPassword('');
+                setPasswordError('');
+              }}
+              className="flex-1 border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              {t('dashboard.accounts.cancel')}
+            </button>
+          </div>
+        </form>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { checkActionCode, isSignInWithEmailLink } from 'firebase/auth';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+
+import { useAuth } from '@/components/AuthProvider';
+import { logAuditEvent } from '@/lib/audit-client';
+import { getAuthErrorCode, getAuthErrorDisplay } from '@/lib/auth-errors';
+import { clearStoredEmailForSignIn, getStoredEmailForSignIn } from '@/lib/email-link';
+import { auth } from '@/lib/firebase';
+import { getStoredRememberMe } from '@/lib/remember-me';
+import { getSafeReturnTo, LOGIN_ROUTE, RETURN_TO_PARAM } from '@/lib/routes';
+import { validateEmail } from '@/lib/validation';
+
+type FinishStatus = 'checking' | 'needsEmail' | 'signingIn' | 'invalid' | 'done';
+
+export default function FinishEmailLinkSignIn() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get(RETURN_TO_PARAM));
+  const oobCode = searchParams.get('oobCode') ?? '';
+  const { setRememberMe, signInWithEmailLink } = useAuth();
+
+  const [status, setStatus] = useState<FinishStatus>('checking');
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [authError, setAuthError] = useState('');
+
+  const completeSignIn = useCallback(
+    async (address: string) => {
+      setAuthError('');
+      setStatus('signingIn');
+
+      try {
+        // The choice made on the login page when the link was sent
+        await setRememberMe(getStoredRememberMe());
+        const credential = await signInWithEmailLink(address, window.location.href);
+        void logAuditEvent({ type: 'sign_in', provider: 'emailLink' }, credential.user);
+        clearStoredEmailForSignIn();
+        setStatus('done');
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        router.replace(returnTo);
+      } catch (error) {
+        const code = getAuthErrorCode(error);
+        void logAuditEvent({
+          type: 'sign_in_failed',
+          provider: 'emailLink',
+          email: address,
+          details: { errorCode: code ?? 'unknown' },
+        });
+        if (code === 'auth/invalid-action-code' || code === 'auth/expired-action-code') {
+          setStatus('invalid');
+          return;
+        }
+        setAuthError(getAuthErrorDisplay(error, 'Sign in failed. Please try again.').message);
+        setStatus('needsEmail');
+      }
+    },
+    [returnTo, router, setRememberMe, signInWithEmailLink]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Checks the link without consuming it, since action codes are single use.
+    // A missing code is rejected here too.
+    checkActionCode(auth, oobCode)
+      .then(() => {
+        if (cancelled) {
+          return;
+        }
+        if (!isSignInWithEmailLink(auth, window.location.href)) {
+          setStatus('invalid');
+          return;
+        }
+        const storedEmail = getStoredEmailForSignIn();
+        if (storedEmail) {
+          completeSignIn(storedEmail);
+        } else {
+          // Opened on a different device or browser than the one that asked
+          setStatus('needsEmail');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setStatus('invalid');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [completeSignIn, oobCode]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const error = validateEmail(email);
+    if (error) {
+      setEmailError(error);
+      return;
+    }
+
+    await completeSignIn(email);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Finish Signing In</h1>
+            <p className="text-gray-600">
+              {status === 'needsEmail'
+                ? 'Confirm the email address the link was sent to'
+                : 'Completing your sign-in link'}
+            </p>
+          </div>
+
+          {(status === 'checking' || status === 'signingIn') && (
+            <div
+              data-testid="email-link-checking"
+              className="mb-4 p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
+            >
+              Signing you in...
+            </div>
+          )}
+
+          {status === 'invalid' && (
+            <div
+              data-testid="email-link-invalid"
+              className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+            >
+              This sign-in link is invalid or has expired. Request a new one from the login page.
+            </div>
+          )}
+
+          {status === 'done' && (
+            <>
+              <div
+                data-testid="success-message"
+                className="mb-4 p-4 bg-green-50 border border-green-200 text-green-800 rounded-lg"
+              >
+                Login successful!
+              </div>
+              <div
+                data-testid="redirect-buffer"
+                className="mb-4 p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
+              >
+                Buffering... Redirecting to dashboard
+              </div>
+            </>
+          )}
+
+          {authError && (
+            <div
+              data-testid="auth-error"
+              className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+            >
+              {authError}
+            </div>
+          )}
+
+          {status === 'needsEmail' && (
+            <form onSubmit={handleSubmit} noValidate className="space-y-5">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  name="email"
+                  value={email}
+                  onChange={(e) => {
+                    setEmail(e.target.value);
+                    setEmailError('');
+                  }}
+                  placeholder="you@example.com"
+                  className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+                    emailError ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  data-testid="email-input"
+                />
+                {emailError && (
+                  <p className="mt-1 text-sm text-red-600" data-testid="email-error">
+                    {emailError}
+                  </p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                data-testid="submit-button"
+                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+              >
+                Sign In
+              </button>
+            </form>
+          )}
+
+          {/* Footer */}
+          <div className="mt-6 text-center">
+            <Link
+              href={LOGIN_ROUTE}
+              className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useLocale } from '@/components/LocaleProvider';
+import { useIdleTimer } from '@/hooks/useIdleTimer';
+import { formatCountdown } from '@/hooks/useLoginThrottle';
+
+interface IdleTimeoutProps {
+  timeoutMs: number;
+  warningMs: number;
+  // Called once when the countdown runs out
+  onIdle: () => void;
+  onSignOut: () => void;
+}
+
+// Tracks inactivity while mounted and warns before signing the user out.
+// Unmount it to stop tracking, e.g. once signing out has started.
+export default function IdleTimeout({
+  timeoutMs,
+  warningMs,
+  onIdle,
+  onSignOut,
+}: IdleTimeoutProps) {
+  const { t } = useLocale();
+  const { secondsLeft, isWarning, reset } = useIdleTimer({ timeoutMs, warningMs, onIdle });
+
+  if (!isWarning) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        aria-describedby="idle-timeout-message"
+        data-testid="idle-warning-dialog"
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4"
+      >
+        <div>
+          <h2 id="idle-timeout-title" className="text-lg font-semibold text-gray-900">
+            {t('dashboard.idle.title')}
+          </h2>
+          <p id="idle-timeout-message" className="text-sm text-gray-600" aria-live="polite">
+            {t('dashboard.idle.message', { time: formatCountdown(secondsLeft) })}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={reset}
+          autoFocus
+          data-testid="stay-signed-in-button"
+          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+        >
+          {t('dashboard.idle.staySignedIn')}
+        </button>
+        <button
+          type="button"
+          onClick={onSignOut}
+          data-testid="idle-sign-out-button"
+          className="w-full text-sm text-gray-600 hover:text-gray-800 font-medium"
+        >
+          {t('dashboard.idle.signOut')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+
+import { auth } from '@/lib/firebase';
+import {
+  createTranslator,
+  type Locale,
+  LOCALE_COOKIE,
+  LOCALE_COOKIE_MAX_AGE,
+  type Translate,
+} from '@/lib/i18n';
+
+interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+// The initial locale comes from the server (cookie or Accept-Language), so
+// the first render already matches the page's `lang`.
+export function LocaleProvider({
+  initialLocale,
+  children,
+}: {
+  initialLocale: Locale;
+  children: React.ReactNode;
+}) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    // Verification, password reset and sign-in link emails follow this
+    auth.languageCode = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((nextLocale: Locale) => {
+    document.cookie = `${LOCALE_COOKIE}=${nextLocale}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+    setLocaleState(nextLocale);
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, setLocale, t: createTranslator(locale) }),
+    [locale, setLocale]
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { Languages } from 'lucide-react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import { isLocale, LOCALE_NAMES, LOCALES } from '@/lib/i18n';
+
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+      <Languages className="size-4" aria-hidden="true" />
+      <span className="sr-only">{t('locale.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) {
+            setLocale(e.target.value);
+          }
+        }}
+        data-testid="locale-select"
+        className="bg-transparent font-medium text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option} lang={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
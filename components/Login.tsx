@@ -1,127 +1,492 @@
 'use client';
 
+import type { FirebaseError } from 'firebase/app';
 import {
-  createUserWithEmailAndPassword,
-  GoogleAuthProvider,
-  signInWithEmailAndPassword,
-  signInWithPopup,
+  type AuthCredential,
+  type ConfirmationResult,
+  getMultiFactorResolver,
+  linkWithCredential,
+  type MultiFactorAssertion,
+  type MultiFactorError,
+  type MultiFactorResolver,
+  sendPasswordResetEmail,
+  signInWithPhoneNumber,
+  signOut as firebaseSignOut,
+  type User,
+  type UserCredential,
 } from 'firebase/auth';
-import { useRouter } from 'next/navigation';
-import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useEffectEvent, useState } from 'react';
 
+import { useAuth } from '@/components/AuthProvider';
+import { useLocale } from '@/components/LocaleProvider';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import MfaChallenge from '@/components/MfaChallenge';
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
+import PhoneVerification from '@/components/PhoneVerification';
+import { useForm } from '@/hooks/useForm';
+import { formatCountdown, useLoginThrottle } from '@/hooks/useLoginThrottle';
+import { logAuditEvent } from '@/lib/audit-client';
+import {
+  getAuthErrorCode,
+  getAuthErrorDisplay,
+  isPopupUnavailableError,
+  isWrongPasswordError,
+} from '@/lib/auth-errors';
+import { sendSignInLink } from '@/lib/email-link';
+import {
+  createAuthProvider,
+  credentialFromError,
+  getEnabledProviders,
+  isPhoneSignInEnabled,
+  type OAuthProviderConfig,
+} from '@/lib/auth-providers';
 import { auth } from '@/lib/firebase';
+import { getValidationMessages } from '@/lib/i18n';
+import { requestLoginAttempt } from '@/lib/login-attempts-client';
+import { getDefaultRememberMe } from '@/lib/remember-me';
+import {
+  isRedirectSignInForced,
+  rememberRedirectProvider,
+  takeRedirectProvider,
+} from '@/lib/provider-redirect';
+import {
+  getSafeReturnTo,
+  IDLE_SIGN_OUT_REASON,
+  LOGIN_ROUTE,
+  RETURN_TO_PARAM,
+  SIGN_OUT_REASON_PARAM,
+  VERIFY_EMAIL_ROUTE,
+} from '@/lib/routes';
+import { createServerSession, SessionRevokedError } from '@/lib/session-client';
+import {
+  type SignInValues,
+  type SignUpValues,
+  validateEmail,
+  validateSignIn,
+  validateSignUp,
+} from '@/lib/validation';
+
+type AuthMode = 'signIn' | 'signUp' | 'emailLink';
+
+type SignInMethod = 'email' | 'phone';
+
+const EMPTY_SIGN_IN: SignInValues = { email: '', password: '' };
+
+const EMPTY_SIGN_UP: SignUpValues = {
+  displayName: '',
+  email: '',
+  password: '',
+  confirmPassword: '',
+  acceptTerms: false,
+};
+
+const getInputClassName = (error: string | undefined) =>
+  `w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+    error ? 'border-red-500' : 'border-gray-300'
+  }`;
 
-interface LoginFormData {
-  email: string;
-  password: string;
+// A provider credential that could not sign in because the email already
+// belongs to an account using another method. It is linked to that account
+// once the user signs in with the existing method.
+interface PendingLink {
+  providerLabel: string;
+  email?: string;
+  credential: AuthCredential;
 }
 
 export default function Login() {
   const router = useRouter();
-  const [formData, setFormData] = useState<LoginFormData>({
-    email: '',
-    password: '',
-  });
-
-  const [errors, setErrors] = useState<Partial<LoginFormData>>({});
+  const { t } = useLocale();
+  const searchParams = useSearchParams();
+  const returnTo = getSafeReturnTo(searchParams.get(RETURN_TO_PARAM));
+  const signedOutIdle = searchParams.get(SIGN_OUT_REASON_PARAM) === IDLE_SIGN_OUT_REASON;
+  const {
+    user,
+    loading,
+    setRememberMe,
+    signIn,
+    signUp,
+    signInWithProvider,
+    signInWithProviderRedirect,
+    getProviderRedirectResult,
+    confirmPhoneSignIn,
+    resolveMultiFactorSignIn,
+  } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
-  const [isGoogleLoading, setIsGoogleLoading] = useState(false);
+  // Id of the OAuth provider being signed in with, by popup or redirect
+  const [loadingProviderId, setLoadingProviderId] = useState<string | null>(null);
+  const [isSendingReset, setIsSendingReset] = useState(false);
   const [isRedirecting, setIsRedirecting] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
   const [authError, setAuthError] = useState('');
-  const [authMode, setAuthMode] = useState<'signIn' | 'signUp'>('signIn');
+  const [authMode, setAuthMode] = useState<AuthMode>('signIn');
+  const [signInMethod, setSignInMethod] = useState<SignInMethod>('email');
+  const [pendingLink, setPendingLink] = useState<PendingLink | null>(null);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const [keepSignedIn, setKeepSignedIn] = useState(getDefaultRememberMe);
+  const throttle = useLoginThrottle();
+  const oauthProviders = getEnabledProviders();
+  const phoneEnabled = isPhoneSignInEnabled();
+  const isProviderLoading = loadingProviderId !== null;
+  // Only password sign-in is paced; sign-up and email links are not guessable
+  const isThrottled = authMode === 'signIn' && throttle.isBlocked;
+  const validationMessages = getValidationMessages(t);
+  // Sign-in and email-link mode share a form; sign-up has its own fields
+  const signInForm = useForm({
+    initialValues: EMPTY_SIGN_IN,
+    validate: (values) =>
+      validateSignIn(values, {
+        requirePassword: authMode !== 'emailLink',
+        messages: validationMessages,
+      }),
+    onSubmit: (values) => submitSignIn(values),
+  });
+  const signUpForm = useForm({
+    initialValues: EMPTY_SIGN_UP,
+    validate: (values) => validateSignUp(values, validationMessages),
+    onSubmit: (values) => submitSignUp(values),
+  });
+  const form = authMode === 'signUp' ? signUpForm : signInForm;
+  const isBusy = isLoading || signInForm.isSubmitting || signUpForm.isSubmitting;
 
-  const validateForm = (): boolean => {
-    const newErrors: Partial<LoginFormData> = {};
+  // Send users who are already signed in on to their target. The session
+  // cookie is refreshed first because it can expire before the client session.
+  useEffect(() => {
+    if (loading || !user || isBusy || isProviderLoading || isRedirecting || mfaResolver) {
+      return;
+    }
+
+    let cancelled = false;
+    createServerSession(user)
+      .then(() => {
+        if (!cancelled) {
+          router.replace(returnTo);
+        }
+      })
+      .catch((error) => {
+        // Stay on the login page so the user can sign in again. A device whose
+        // session was ended elsewhere is signed out, or it would keep trying.
+        if (!cancelled && error instanceof SessionRevokedError) {
+          setAuthError(t('login.sessionEnded'));
+          void firebaseSignOut(auth);
+        }
+      });
 
-    // Email validation
-    if (!formData.email) {
-      newErrors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email';
+    return () => {
+      cancelled = true;
+    };
+  }, [loading, user, isBusy, isProviderLoading, isRedirecting, mfaResolver, returnTo, router, t]);
+
+  // Shows a failed auth action under the field it concerns, or in the banner
+  const showAuthError = (error: unknown, fallback: string) => {
+    const { field, message } = getAuthErrorDisplay(error, fallback, t);
+    if (field === 'email' || field === 'password') {
+      form.setFieldError(field, message);
+    } else {
+      setAuthError(message);
     }
+  };
+
+  // Links the pending provider credential to the account the user just signed
+  // in to. A failed link does not undo the sign-in; the user can retry from
+  // the dashboard's connected accounts.
+  const linkPendingCredential = async (signedInUser: User): Promise<string> => {
+    if (!pendingLink) {
+      return t('login.success.signIn');
+    }
+
+    const provider = pendingLink.providerLabel;
+    try {
+      await linkWithCredential(signedInUser, pendingLink.credential);
+      return t('login.success.linked', { provider });
+    } catch (error) {
+      setAuthError(
+        getAuthErrorDisplay(error, t('login.error.linkFailed', { provider }), t).message
+      );
+      return t('login.success.signIn');
+    } finally {
+      setPendingLink(null);
+    }
+  };
 
-    // Password validation
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
+  // Hands sign-ins that need a second factor over to the code step
+  const startMfaChallenge = (error: unknown): boolean => {
+    if (getAuthErrorCode(error) !== 'auth/multi-factor-auth-required') {
+      return false;
     }
+    setMfaResolver(getMultiFactorResolver(auth, error as MultiFactorError));
+    return true;
+  };
+
+  const logSignInFailure = (provider: string, error: unknown, email?: string) =>
+    void logAuditEvent({
+      type: 'sign_in_failed',
+      provider,
+      email,
+      details: { errorCode: getAuthErrorCode(error) ?? 'unknown' },
+    });
 
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+  const submitSignIn = async ({ email, password }: SignInValues) => {
+    if (authMode === 'emailLink') {
+      try {
+        // Stored for the finish page, which applies it before signing in
+        await setRememberMe(keepSignedIn);
+        await sendSignInLink(email, returnTo);
+        setSuccessMessage(t('login.success.emailLinkSent', { email }));
+      } catch (error) {
+        showAuthError(error, t('login.error.emailLink'));
+      }
+      return;
+    }
+
+    try {
+      const waitSeconds = await requestLoginAttempt(email);
+      if (waitSeconds > 0) {
+        throttle.lockOut(waitSeconds);
+        return;
+      }
+      await setRememberMe(keepSignedIn);
+      const credential = await signIn(email, password);
+      throttle.reset();
+      void logAuditEvent({ type: 'sign_in', provider: 'password' }, credential.user);
+      setSuccessMessage(await linkPendingCredential(credential.user));
+      signInForm.reset();
+      setIsRedirecting(true);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      router.push(returnTo);
+    } catch (error) {
+      if (startMfaChallenge(error)) {
+        return;
+      }
+      logSignInFailure('password', error, email);
+      if (isWrongPasswordError(error)) {
+        throttle.registerPasswordFailure();
+      }
+      showAuthError(error, t('login.error.signIn'));
+    }
   };
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
-    // Clear error for this field when user starts typing
-    if (errors[name as keyof LoginFormData]) {
-      setErrors((prev) => ({
-        ...prev,
-        [name]: undefined,
-      }));
+  const submitSignUp = async ({ displayName, email, password }: SignUpValues) => {
+    try {
+      await setRememberMe(keepSignedIn);
+      const credential = await signUp(email, password, displayName.trim());
+      void logAuditEvent({ type: 'sign_up', provider: 'password' }, credential.user);
+      setSuccessMessage(t('login.success.signUp'));
+      signUpForm.reset();
+      setIsRedirecting(true);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      // New password accounts must verify their email before reaching the dashboard
+      router.push(VERIFY_EMAIL_ROUTE);
+    } catch (error) {
+      showAuthError(error, t('login.error.signUp'));
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     setSuccessMessage('');
     setAuthError('');
     setIsRedirecting(false);
+    return form.handleSubmit(e);
+  };
 
-    if (!validateForm()) {
+  // The email typed so far carries over between signing in and signing up
+  const toggleAuthMode = () => {
+    if (authMode === 'signUp') {
+      signInForm.setFieldValue('email', signUpForm.values.email);
+      setAuthMode('signIn');
+    } else {
+      signUpForm.setFieldValue('email', signInForm.values.email);
+      setAuthMode('signUp');
+    }
+  };
+
+  const handleForgotPassword = async () => {
+    setSuccessMessage('');
+    setAuthError('');
+
+    // Only the email is needed to send a reset link
+    const { email } = signInForm.values;
+    const emailError = validateEmail(email, validationMessages);
+    if (emailError) {
+      signInForm.setErrors({ email: emailError });
       return;
     }
 
-    setIsLoading(true);
+    setIsSendingReset(true);
 
     try {
-      if (authMode === 'signUp') {
-        await createUserWithEmailAndPassword(auth, formData.email, formData.password);
-        setSuccessMessage('Account created!');
-      } else {
-        await signInWithEmailAndPassword(auth, formData.email, formData.password);
-        setSuccessMessage('Login successful!');
+      await sendPasswordResetEmail(auth, email, {
+        url: `${window.location.origin}${LOGIN_ROUTE}`,
+      });
+      setSuccessMessage(t('login.success.resetSent'));
+      void logAuditEvent({ type: 'password_reset_requested', email });
+    } catch (error) {
+      showAuthError(error, t('login.error.reset'));
+    } finally {
+      setIsSendingReset(false);
+    }
+  };
+
+  const completeProviderSignIn = async (
+    provider: OAuthProviderConfig,
+    credential: UserCredential
+  ) => {
+    void logAuditEvent({ type: 'sign_in', provider: provider.providerId }, credential.user);
+    setSuccessMessage(await linkPendingCredential(credential.user));
+    setIsRedirecting(true);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    router.push(returnTo);
+  };
+
+  const handleProviderError = (provider: OAuthProviderConfig, error: unknown) => {
+    if (getAuthErrorCode(error) === 'auth/account-exists-with-different-credential') {
+      const firebaseError = error as FirebaseError;
+      const credential = credentialFromError(provider, firebaseError);
+      if (credential) {
+        const email = firebaseError.customData?.email as string | undefined;
+        setPendingLink({ providerLabel: provider.label, email, credential });
+        setAuthMode('signIn');
+        if (email) {
+          signInForm.setFieldValue('email', email);
+        }
+        return;
       }
-      setFormData({ email: '', password: '' });
-      setIsRedirecting(true);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      router.push('/dashboard');
+    }
+    if (startMfaChallenge(error)) {
+      return;
+    }
+    logSignInFailure(provider.providerId, error);
+    showAuthError(error, t('login.error.provider', { provider: provider.label }));
+  };
+
+  // The browser leaves for the provider and comes back to this page, where
+  // the effect below finishes the sign-in
+  const redirectToProvider = async (provider: OAuthProviderConfig) => {
+    rememberRedirectProvider(provider);
+    try {
+      await signInWithProviderRedirect(createAuthProvider(provider));
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Login failed. Please try again.';
-      setAuthError(message);
+      takeRedirectProvider();
+      throw error;
+    }
+  };
+
+  const handleProviderSignIn = async (provider: OAuthProviderConfig) => {
+    setSuccessMessage('');
+    setAuthError('');
+    setIsRedirecting(false);
+    setLoadingProviderId(provider.id);
+
+    try {
+      // Firebase carries the persistence across a redirect
+      await setRememberMe(keepSignedIn);
+      if (isRedirectSignInForced()) {
+        await redirectToProvider(provider);
+        return;
+      }
+
+      try {
+        const credential = await signInWithProvider(createAuthProvider(provider));
+        await completeProviderSignIn(provider, credential);
+      } catch (error) {
+        // Mobile Safari, in-app browsers and popup blockers cannot show the
+        // popup, so fall back to a full-page redirect
+        if (!isPopupUnavailableError(error)) {
+          throw error;
+        }
+        await redirectToProvider(provider);
+      }
+    } catch (error) {
+      handleProviderError(provider, error);
     } finally {
-      setIsLoading(false);
+      setLoadingProviderId(null);
     }
   };
 
-  const handleGoogleSignIn = async () => {
+  const finishRedirectSignIn = useEffectEvent(async (provider: OAuthProviderConfig) => {
+    setLoadingProviderId(provider.id);
+
+    try {
+      const credential = await getProviderRedirectResult();
+      if (credential) {
+        await completeProviderSignIn(provider, credential);
+      }
+    } catch (error) {
+      handleProviderError(provider, error);
+    } finally {
+      setLoadingProviderId(null);
+    }
+  });
+
+  // Back from a redirect sign-in started on this page
+  useEffect(() => {
+    const provider = takeRedirectProvider();
+    if (provider) {
+      void finishRedirectSignIn(provider);
+    }
+  }, []);
+
+  // Phone sign-in creates the account on first use, so it serves both modes.
+  // Errors are shown by PhoneVerification, which lets the user retry the code.
+  const handlePhoneConfirm = async (confirmation: ConfirmationResult, code: string) => {
     setSuccessMessage('');
     setAuthError('');
     setIsRedirecting(false);
-    setIsGoogleLoading(true);
+    setIsLoading(true);
 
     try {
-      const googleProvider = new GoogleAuthProvider();
-      await signInWithPopup(auth, googleProvider);
-      setSuccessMessage('Login successful!');
+      await setRememberMe(keepSignedIn);
+      const credential = await confirmPhoneSignIn(confirmation, code);
+      void logAuditEvent({ type: 'sign_in', provider: 'phone' }, credential.user);
+      setSuccessMessage(await linkPendingCredential(credential.user));
       setIsRedirecting(true);
       await new Promise((resolve) => setTimeout(resolve, 1000));
-      router.push('/dashboard');
+      router.push(returnTo);
     } catch (error) {
-      const message =
-        error instanceof Error ? error.message : 'Google login failed. Please try again.';
-      setAuthError(message);
+      if (!startMfaChallenge(error)) {
+        logSignInFailure('phone', error);
+        throw error;
+      }
     } finally {
-      setIsGoogleLoading(false);
+      setIsLoading(false);
     }
   };
 
+  // Errors are shown by MfaChallenge, which lets the user retry the code
+  const handleMfaVerify = async (assertion: MultiFactorAssertion) => {
+    if (!mfaResolver) {
+      return;
+    }
+
+    const credential = await resolveMultiFactorSignIn(mfaResolver, assertion);
+    void logAuditEvent(
+      { type: 'sign_in', details: { secondFactor: assertion.factorId } },
+      credential.user
+    );
+    const message = await linkPendingCredential(credential.user);
+    setSuccessMessage(message);
+    signInForm.reset();
+    setIsRedirecting(true);
+    setMfaResolver(null);
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    router.push(returnTo);
+  };
+
+  // Shown with the email form and the phone tab, so the choice carries over
+  const rememberMeCheckbox = (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      <input
+        type="checkbox"
+        checked={keepSignedIn}
+        onChange={(e) => setKeepSignedIn(e.target.checked)}
+        className="size-4 accent-indigo-600"
+        data-testid="remember-me-checkbox"
+      />
+      {t('login.rememberMe')}
+    </label>
+  );
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="w-full max-w-md">
@@ -129,13 +494,29 @@ export default function Login() {
           {/* Header */}
           <div className="text-center mb-8">
             <h1 className="text-3xl font-bold text-gray-900 mb-2">
-              {authMode === 'signUp' ? 'Create Account' : 'Welcome Back'}
+              {t(authMode === 'signUp' ? 'login.title.signUp' : 'login.title.signIn')}
             </h1>
             <p className="text-gray-600">
-              {authMode === 'signUp' ? 'Sign up to get started' : 'Sign in to your account'}
+              {signInMethod === 'phone'
+                ? t('login.subtitle.phone')
+                : authMode === 'signUp'
+                  ? t('login.subtitle.signUp')
+                  : authMode === 'emailLink'
+                    ? t('login.subtitle.emailLink')
+                    : t('login.subtitle.signIn')}
             </p>
           </div>
 
+          {signedOutIdle && !successMessage && (
+            <div
+              data-testid="signout-reason"
+              role="status"
+              className="mb-4 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg"
+            >
+              {t('login.signedOutIdle')}
+            </div>
+          )}
+
           {/* Success Message */}
           {successMessage && (
             <div
@@ -153,117 +534,328 @@ export default function Login() {
               {authError}
             </div>
           )}
+          {authMode === 'signIn' && throttle.isLockedOut && (
+            <div
+              data-testid="login-lockout"
+              role="alert"
+              className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+            >
+              {t('login.lockout', { time: formatCountdown(throttle.secondsLeft) })}
+            </div>
+          )}
+          {pendingLink && (
+            <div
+              data-testid="link-account-prompt"
+              className="mb-4 p-4 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg"
+            >
+              {t('login.linkPrompt', {
+                email: pendingLink.email ?? t('login.linkPrompt.thisEmail'),
+                provider: pendingLink.providerLabel,
+              })}
+              <button
+                type="button"
+                onClick={() => setPendingLink(null)}
+                data-testid="cancel-link-button"
+                className="block mt-2 text-sm font-medium text-amber-900 underline"
+              >
+                {t('login.linkPrompt.cancel')}
+              </button>
+            </div>
+          )}
           {isRedirecting && (
             <div
               data-testid="redirect-buffer"
               className="mb-4 p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
             >
-              Buffering... Redirecting to dashboard
+              {t(authMode === 'signUp' ? 'login.redirect.verifyEmail' : 'login.redirect.dashboard')}
+            </div>
+          )}
+
+          {phoneEnabled && !mfaResolver && (
+            <div className="mb-5 grid grid-cols-2 gap-1 p-1 bg-gray-100 rounded-lg" role="tablist">
+              {(['email', 'phone'] as const).map((method) => (
+                <button
+                  key={method}
+                  type="button"
+                  role="tab"
+                  aria-selected={signInMethod === method}
+                  onClick={() => {
+                    form.setErrors({});
+                    setAuthError('');
+                    setSignInMethod(method);
+                  }}
+                  data-testid={`${method}-tab`}
+                  className={`py-1.5 text-sm font-medium rounded-md transition ${
+                    signInMethod === method
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {t(method === 'email' ? 'login.tab.email' : 'login.tab.phone')}
+                </button>
+              ))}
             </div>
           )}
 
           {/* Form */}
-          <form onSubmit={handleSubmit} noValidate className="space-y-5">
-            {/* Email Field */}
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700 mb-2"
-              >
-                Email Address
-              </label>
-              <input
-                type="email"
-                id="email"
-                name="email"
-                value={formData.email}
-                onChange={handleChange}
-                placeholder="you@example.com"
-                className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
-                  errors.email ? 'border-red-500' : 'border-gray-300'
-                }`}
-                data-testid="email-input"
+          {mfaResolver ? (
+            <MfaChallenge
+              resolver={mfaResolver}
+              onVerify={handleMfaVerify}
+              onCancel={() => setMfaResolver(null)}
+            />
+          ) : signInMethod === 'phone' ? (
+            <div className="space-y-5">
+              <PhoneVerification
+                sendCode={(phoneNumber, verifier) =>
+                  signInWithPhoneNumber(auth, phoneNumber, verifier)
+                }
+                onConfirm={handlePhoneConfirm}
+                disabled={isLoading || isRedirecting}
               />
-              {errors.email && (
-                <p className="mt-1 text-sm text-red-600" data-testid="email-error">
-                  {errors.email}
-                </p>
-              )}
+              {rememberMeCheckbox}
             </div>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate className="space-y-5">
+              {/* Display Name Field */}
+              {authMode === 'signUp' && (
+                <div>
+                  <label
+                    htmlFor="displayName"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    {t('login.displayNameLabel')}
+                  </label>
+                  <input
+                    type="text"
+                    id="displayName"
+                    name="displayName"
+                    autoComplete="name"
+                    value={signUpForm.values.displayName}
+                    onChange={signUpForm.handleChange}
+                    onBlur={signUpForm.handleBlur}
+                    className={getInputClassName(signUpForm.errors.displayName)}
+                    data-testid="display-name-input"
+                  />
+                  {signUpForm.errors.displayName && (
+                    <p className="mt-1 text-sm text-red-600" data-testid="display-name-error">
+                      {signUpForm.errors.displayName}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Email Field */}
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  {t('login.emailLabel')}
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  name="email"
+                  autoComplete="email"
+                  value={form.values.email}
+                  onChange={form.handleChange}
+                  onBlur={form.handleBlur}
+                  placeholder="you@example.com"
+                  className={getInputClassName(form.errors.email)}
+                  data-testid="email-input"
+                />
+                {form.errors.email && (
+                  <p className="mt-1 text-sm text-red-600" data-testid="email-error">
+                    {form.errors.email}
+                  </p>
+                )}
+              </div>
 
-            {/* Password Field */}
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-2"
+              {/* Password Field */}
+              {authMode !== 'emailLink' && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                      {t('login.passwordLabel')}
+                    </label>
+                    {authMode === 'signIn' && (
+                      <button
+                        type="button"
+                        onClick={handleForgotPassword}
+                        disabled={isSendingReset}
+                        data-testid="forgot-password-button"
+                        className="text-sm text-indigo-600 hover:text-indigo-700 disabled:text-indigo-400 font-medium"
+                      >
+                        {t(isSendingReset ? 'login.sendingReset' : 'login.forgotPassword')}
+                      </button>
+                    )}
+                  </div>
+                  <input
+                    type="password"
+                    id="password"
+                    name="password"
+                    autoComplete={authMode === 'signUp' ? 'new-password' : 'current-password'}
+                    value={form.values.password}
+                    onChange={form.handleChange}
+                    onBlur={form.handleBlur}
+                    placeholder="••••••••"
+                    className={getInputClassName(form.errors.password)}
+                    data-testid="password-input"
+                  />
+                  {form.errors.password && (
+                    <p className="mt-1 text-sm text-red-600" data-testid="password-error">
+                      {form.errors.password}
+                    </p>
+                  )}
+                  {authMode === 'signUp' && (
+                    <PasswordStrengthMeter
+                      password={signUpForm.values.password}
+                      email={signUpForm.values.email}
+                    />
+                  )}
+                </div>
+              )}
+
+              {/* Sign-up only: confirm password and terms */}
+              {authMode === 'signUp' && (
+                <>
+                  <div>
+                    <label
+                      htmlFor="confirmPassword"
+                      className="block text-sm font-medium text-gray-700 mb-2"
+                    >
+                      {t('login.confirmPasswordLabel')}
+                    </label>
+                    <input
+                      type="password"
+                      id="confirmPassword"
+                      name="confirmPassword"
+                      autoComplete="new-password"
+                      value={signUpForm.values.confirmPassword}
+                      onChange={signUpForm.handleChange}
+                      onBlur={signUpForm.handleBlur}
+                      placeholder="••••••••"
+                      className={getInputClassName(signUpForm.errors.confirmPassword)}
+                      data-testid="confirm-password-input"
+                    />
+                    {signUpForm.errors.confirmPassword && (
+                      <p className="mt-1 text-sm text-red-600" data-testid="confirm-password-error">
+                        {signUpForm.errors.confirmPassword}
+                      </p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label className="flex items-start gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        name="acceptTerms"
+                        checked={signUpForm.values.acceptTerms}
+                        onChange={signUpForm.handleChange}
+                        className="mt-0.5 size-4 accent-indigo-600"
+                        data-testid="terms-checkbox"
+                      />
+                      {t('login.acceptTerms')}
+                    </label>
+                    {signUpForm.errors.acceptTerms && (
+                      <p className="mt-1 text-sm text-red-600" data-testid="terms-error">
+                        {signUpForm.errors.acceptTerms}
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {rememberMeCheckbox}
+
+              {/* Submit Button */}
+              <button
+                type="submit"
+                disabled={isBusy || isProviderLoading || isThrottled}
+                data-testid="submit-button"
+                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 mt-6"
               >
-                Password
-              </label>
-              <input
-                type="password"
-                id="password"
-                name="password"
-                value={formData.password}
-                onChange={handleChange}
-                placeholder="••••••••"
-                className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
-                  errors.password ? 'border-red-500' : 'border-gray-300'
-                }`}
-                data-testid="password-input"
-              />
-              {errors.password && (
-                <p className="mt-1 text-sm text-red-600" data-testid="password-error">
-                  {errors.password}
-                </p>
+                {isThrottled && !isBusy
+                  ? t('login.submit.throttled', { time: formatCountdown(throttle.secondsLeft) })
+                  : isBusy
+                    ? authMode === 'signUp'
+                      ? t('login.submit.creatingAccount')
+                      : authMode === 'emailLink'
+                        ? t('login.submit.sendingLink')
+                        : t('login.submit.signingIn')
+                    : authMode === 'signUp'
+                      ? t('login.submit.signUp')
+                      : authMode === 'emailLink'
+                        ? t('login.submit.emailLink')
+                        : t('login.submit.signIn')}
+              </button>
+
+              {authMode !== 'signUp' && (
+                <button
+                  type="button"
+                  data-testid="toggle-email-link"
+                  onClick={() => {
+                    signInForm.setErrors({});
+                    setSuccessMessage('');
+                    setAuthMode(authMode === 'emailLink' ? 'signIn' : 'emailLink');
+                  }}
+                  className="w-full text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+                >
+                  {t(authMode === 'emailLink' ? 'login.usePassword' : 'login.useEmailLink')}
+                </button>
               )}
-            </div>
 
-            {/* Submit Button */}
-            <button
-              type="submit"
-              disabled={isLoading || isGoogleLoading}
-              data-testid="submit-button"
-              className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 mt-6"
-            >
-              {isLoading
-                ? authMode === 'signUp'
-                  ? 'Creating account...'
-                  : 'Signing in...'
-                : authMode === 'signUp'
-                  ? 'Create Account'
-                  : 'Sign In'}
-            </button>
-
-            <div className="flex items-center">
-              <div className="flex-1 h-px bg-gray-200" />
-              <span className="px-3 text-xs text-gray-500 uppercase tracking-wide">or</span>
-              <div className="flex-1 h-px bg-gray-200" />
-            </div>
+              {oauthProviders.length > 0 && (
+                <div className="flex items-center">
+                  <div className="flex-1 h-px bg-gray-200" />
+                  <span className="px-3 text-xs text-gray-500 uppercase tracking-wide">
+                    {t('login.or')}
+                  </span>
+                  <div className="flex-1 h-px bg-gray-200" />
+                </div>
+              )}
 
-            <button
-              type="button"
-              onClick={handleGoogleSignIn}
-              disabled={isLoading || isGoogleLoading}
-              data-testid="google-signin-button"
-              className="w-full border border-gray-300 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-500 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
-            >
-              {isGoogleLoading ? 'Signing in with Google...' : 'Continue with Google'}
-            </button>
-          </form>
+              {oauthProviders.map((provider) => {
+                const Icon = provider.icon;
+                return (
+                  <button
+                    key={provider.id}
+                    type="button"
+                    onClick={() => handleProviderSignIn(provider)}
+                    disabled={isBusy || isProviderLoading}
+                    data-testid={`${provider.id}-signin-button`}
+                    className="w-full flex items-center justify-center gap-2 border border-gray-300 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-500 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+                  >
+                    <Icon className="size-4" aria-hidden="true" />
+                    {t(
+                      loadingProviderId === provider.id
+                        ? 'login.provider.signingIn'
+                        : 'login.provider.continue',
+                      { provider: provider.label }
+                    )}
+                  </button>
+                );
+              })}
+            </form>
+          )}
 
           {/* Footer */}
           <div className="mt-6 text-center">
             <p className="text-gray-600 text-sm">
-              {authMode === 'signUp' ? 'Already have an account?' : "Don't have an account?"}{' '}
+              {t(authMode === 'signUp' ? 'login.footer.hasAccount' : 'login.footer.noAccount')}{' '}
               <button
                 type="button"
                 data-testid="toggle-auth-mode"
-                onClick={() => setAuthMode(authMode === 'signUp' ? 'signIn' : 'signUp')}
+                onClick={toggleAuthMode}
                 className="text-indigo-600 hover:text-indigo-700 font-medium"
               >
-                {authMode === 'signUp' ? 'Sign in' : 'Sign up'}
+                {t(authMode === 'signUp' ? 'login.footer.signIn' : 'login.footer.signUp')}
               </button>
             </p>
+            <div className="mt-4">
+              <LocaleSwitcher />
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,126 @@
+'use client';
+
+import {
+  type MultiFactorAssertion,
+  type MultiFactorResolver,
+  TotpMultiFactorGenerator,
+} from 'firebase/auth';
+import { useState } from 'react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+
+export const TOTP_CODE_PATTERN = /^\d{6}$/;
+
+interface MfaChallengeProps {
+  resolver: MultiFactorResolver;
+  onVerify: (assertion: MultiFactorAssertion) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Second sign-in step for accounts with an enrolled TOTP authenticator.
+export default function MfaChallenge({ resolver, onVerify, onCancel }: MfaChallengeProps) {
+  const { t } = useLocale();
+  const hint = resolver.hints.find(
+    (factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID
+  );
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!hint) {
+      return;
+    }
+    if (!TOTP_CODE_PATTERN.test(code)) {
+      setCodeError(t('mfaChallenge.codeInvalid'));
+      return;
+    }
+
+    setIsVerifying(true);
+
+    try {
+      await onVerify(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code));
+    } catch (error) {
+      setCode('');
+      setCodeError(getAuthErrorDisplay(error, t('mfaChallenge.error'), t).message);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!hint) {
+    return (
+      <div
+        data-testid="mfa-unsupported"
+        className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+      >
+        {t('mfaChallenge.unsupported')}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="block mt-2 text-sm font-medium text-red-900 underline"
+        >
+          {t('mfaChallenge.back')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-5" data-testid="mfa-challenge">
+      <div>
+        <label htmlFor="mfa-code" className="block text-sm font-medium text-gray-700 mb-2">
+          {t('mfaChallenge.codeLabel')}
+        </label>
+        <p className="text-sm text-gray-600 mb-2">
+          {hint.displayName
+            ? t('mfaChallenge.instructionsNamed', { name: hint.displayName })
+            : t('mfaChallenge.instructions')}
+        </p>
+        <input
+          type="text"
+          id="mfa-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value.replace(/\D/g, ''));
+            setCodeError('');
+          }}
+          placeholder="123456"
+          className={`w-full px-4 py-2 border rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+            codeError ? 'border-red-500' : 'border-gray-300'
+          }`}
+          data-testid="mfa-code-input"
+        />
+        {codeError && (
+          <p className="mt-1 text-sm text-red-600" data-testid="mfa-code-error">
+            {codeError}
+          </p>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={isVerifying}
+        data-testid="mfa-submit-button"
+        className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+      >
+        {isVerifying ? t('mfaChallenge.verifying') : t('mfaChallenge.verify')}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        disabled={isVerifying}
+        data-testid="mfa-cancel-button"
+        className="w-full text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+      >
+        {t('mfaChallenge.cancel')}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import {
+  multiFactor,
+  type MultiFactorInfo,
+  type TotpSecret,
+  TotpMultiFactorGenerator,
+  type User,
+} from 'firebase/auth';
+import { ShieldCheck, Trash2 } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { useState } from 'react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import { TOTP_CODE_PATTERN } from '@/components/MfaChallenge';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+
+// Shown as the account issuer in authenticator apps
+export const TOTP_ISSUER = 'WADS Lab';
+
+interface MfaSettingsProps {
+  user: User;
+}
+
+export default function MfaSettings({ user }: MfaSettingsProps) {
+  const { locale, t } = useLocale();
+  const [factors, setFactors] = useState<MultiFactorInfo[]>(
+    () => multiFactor(user).enrolledFactors
+  );
+  const [secret, setSecret] = useState<TotpSecret | null>(null);
+  const [code, setCode] = useState('');
+  const [displayName, setDisplayName] = useState(() => t('dashboard.mfa.defaultName'));
+  const [codeError, setCodeError] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const refreshFactors = () => setFactors([...multiFactor(user).enrolledFactors]);
+
+  const runAction = async (action: () => Promise<string>, fallback: string) => {
+    setMessage('');
+    setError('');
+    setIsBusy(true);
+
+    try {
+      setMessage(await action());
+    } catch (actionError) {
+      setError(getAuthErrorDisplay(actionError, fallback, t).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartEnrollment = () =>
+    runAction(async () => {
+      const session = await multiFactor(user).getSession();
+      setSecret(await TotpMultiFactorGenerator.generateSecret(session));
+      setCode('');
+      return '';
+    }, t('dashboard.mfa.error.start'));
+
+  const handleConfirmEnrollment = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!secret) {
+      return;
+    }
+    if (!TOTP_CODE_PATTERN.test(code)) {
+      setCodeError(t('dashboard.mfa.codeInvalid'));
+      return;
+    }
+
+    await runAction(async () => {
+      const assertion = TotpMultiFactorGenerator.assertionForEnrollment(secret, code);
+      await multiFactor(user).enroll(assertion, displayName.trim() || null);
+      setSecret(null);
+      setCode('');
+      refreshFactors();
+      return t('dashboard.mfa.enabled');
+    }, t('dashboard.mfa.error.verify'));
+  };
+
+  const handleRemove = (factor: MultiFactorInfo) =>
+    runAction(async () => {
+      await multiFactor(user).unenroll(factor);
+      refreshFactors();
+      return t('dashboard.mfa.removed', {
+        name: factor.displayName ?? t('dashboard.mfa.authenticator'),
+      });
+    }, t('dashboard.mfa.error.remove'));
+
+  return (
+    <section
+      data-testid="mfa-settings"
+      className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4"
+    >
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900">
+        <ShieldCheck className="size-5" aria-hidden="true" />
+        {t('dashboard.mfa.title')}
+      </h2>
+
+      {message && (
+        <div
+          data-testid="mfa-message"
+          className="p-3 bg-green-50 border border-green-200 text-green-800 rounded-lg text-sm"
+        >
+          {message}
+        </div>
+      )}
+      {error && (
+        <div
+          data-testid="mfa-error"
+          className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm"
+        >
+          {error}
+        </div>
+      )}
+
+      {factors.length > 0 ? (
+        <ul className="divide-y divide-gray-100" data-testid="mfa-factor-list">
+          {factors.map((factor) => (
+            <li key={factor.uid} className="flex items-center justify-between py-2">
+              <span className="text-gray-700">
+                {factor.displayName ?? t('dashboard.mfa.defaultName')}
+                <span className="block text-xs text-gray-500">
+                  {t('dashboard.mfa.added', {
+                    date: new Date(factor.enrollmentTime).toLocaleDateString(locale),
+                  })}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(factor)}
+                disabled={isBusy}
+                data-testid={`remove-factor-${factor.uid}`}
+                className="flex items-center gap-1 text-sm text-red-600 hover:text-red-700 disabled:text-gray-400 font-medium"
+              >
+                <Trash2 className="size-3.5" aria-hidden="true" />
+                {t('dashboard.mfa.remove')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600">{t('dashboard.mfa.empty')}</p>
+      )}
+
+      {secret ? (
+        <form onSubmit={handleConfirmEnrollment} noValidate className="space-y-3">
+          <p className="text-sm text-gray-600">{t('dashboard.mfa.scan')}</p>
+          <div className="flex justify-center" data-testid="mfa-qr-code">
+            <QRCodeSVG value={secret.generateQrCodeUrl(user.email ?? user.uid, TOTP_ISSUER)} />
+          </div>
+          <code
+            data-testid="mfa-secret"
+            className="block break-all rounded bg-gray-100 p-2 text-center text-sm"
+          >
+            {secret.secretKey}
+          </code>
+
+          <label htmlFor="mfa-display-name" className="block text-sm font-medium text-gray-700">
+            {t('dashboard.mfa.nameLabel')}
+          </label>
+          <input
+            type="text"
+            id="mfa-display-name"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition"
+            data-testid="mfa-display-name-input"
+          />
+
+          <label htmlFor="mfa-enroll-code" className="block text-sm font-medium text-gray-700">
+            {t('dashboard.mfa.codeLabel')}
+          </label>
+          <input
+            type="text"
+            id="mfa-enroll-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value.replace(/\D/g, ''));
+              setCodeError('');
+            }}
+            placeholder="123456"
+            className={`w-full px-4 py-2 border rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+              codeError ? 'border-red-500' : 'border-gray-300'
+            }`}
+            data-testid="mfa-enroll-code-input"
+          />
+          {codeError && (
+            <p className="text-sm text-red-600" data-testid="mfa-enroll-code-error">
+              {codeError}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isBusy}
+              data-testid="mfa-confirm-button"
+              className="flex-1 bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              {isBusy ? t('dashboard.mfa.verifying') : t('dashboard.mfa.turnOn')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setSecret(null)}
+              disabled={isBusy}
+              className="flex-1 border border-gray-300 hover:bg-gray-50 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              {t('dashboard.mfa.cancel')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={handleStartEnrollment}
+          disabled={isBusy}
+          data-testid="mfa-enroll-button"
+          className="w-full border border-gray-300 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-500 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+        >
+          {isBusy ? t('dashboard.mfa.preparing') : t('dashboard.mfa.setUp')}
+        </button>
+      )}
+    </section>
+  );
+}
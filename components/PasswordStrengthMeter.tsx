@@ -0,0 +1,78 @@
+'use client';
+
+import { Check, X } from 'lucide-react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import type { MessageKey } from '@/lib/i18n';
+import { checkPasswordRules, getPasswordPolicy, getPasswordStrength } from '@/lib/password-policy';
+import { cn } from '@/lib/utils';
+
+const STRENGTH_COLORS = [
+  'bg-red-500',
+  'bg-orange-500',
+  'bg-yellow-500',
+  'bg-lime-500',
+  'bg-green-600',
+];
+
+// Indexed by strength score, like PASSWORD_STRENGTH_LABELS
+const STRENGTH_LABEL_KEYS: MessageKey[] = [
+  'password.strength.veryWeak',
+  'password.strength.weak',
+  'password.strength.fair',
+  'password.strength.good',
+  'password.strength.strong',
+];
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  email?: string;
+}
+
+export default function PasswordStrengthMeter({ password, email }: PasswordStrengthMeterProps) {
+  const { t } = useLocale();
+  const policy = getPasswordPolicy();
+  const strength = getPasswordStrength(password, { email, policy });
+  const rules = checkPasswordRules(password, { email, policy });
+
+  return (
+    <div className="mt-2 space-y-2" data-testid="password-strength">
+      <div className="flex gap-1" aria-hidden="true">
+        {STRENGTH_COLORS.slice(1).map((color, index) => (
+          <div
+            key={color}
+            className={cn(
+              'h-1.5 flex-1 rounded-full',
+              password && index < strength.score ? STRENGTH_COLORS[strength.score] : 'bg-gray-200'
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-gray-600" data-testid="password-strength-label">
+        {t('password.strength', {
+          label: password ? t(STRENGTH_LABEL_KEYS[strength.score]) : '—',
+        })}
+      </p>
+      <ul className="space-y-1" data-testid="password-checklist">
+        {rules.map((rule) => (
+          <li
+            key={rule.id}
+            data-testid={`password-rule-${rule.id}`}
+            data-passed={rule.passed}
+            className={cn(
+              'flex items-center gap-1.5 text-xs',
+              rule.passed ? 'text-green-700' : 'text-gray-500'
+            )}
+          >
+            {rule.passed ? (
+              <Check className="size-3.5" aria-hidden="true" />
+            ) : (
+              <X className="size-3.5" aria-hidden="true" />
+            )}
+            {t(`password.rule.${rule.id}`, { min: policy.minLength })}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import {
+  type ApplicationVerifier,
+  type ConfirmationResult,
+  RecaptchaVerifier,
+} from 'firebase/auth';
+import { useEffect, useRef, useState } from 'react';
+
+import { useLocale } from '@/components/LocaleProvider';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+import { auth } from '@/lib/firebase';
+import { getValidationMessages } from '@/lib/i18n';
+import { normalizePhoneNumber, validatePhoneNumber } from '@/lib/validation';
+
+export const SMS_CODE_PATTERN = /^\d{6}$/;
+
+interface PhoneVerificationProps {
+  // Sends the SMS, e.g. through signInWithPhoneNumber or linkWithPhoneNumber
+  sendCode: (phoneNumber: string, verifier: ApplicationVerifier) => Promise<ConfirmationResult>;
+  // Errors thrown here are shown under the code input so the user can retry
+  onConfirm: (confirmation: ConfirmationResult, code: string) => Promise<void>;
+  onCancel?: () => void;
+  disabled?: boolean;
+}
+
+// Two-step phone form: collect a number, then confirm the SMS code. The
+// reCAPTCHA is invisible and only asks for a challenge when Google is unsure;
+// the Auth emulator skips it (and the SMS) entirely.
+export default function PhoneVerification({
+  sendCode,
+  onConfirm,
+  onCancel,
+  disabled = false,
+}: PhoneVerificationProps) {
+  const { t } = useLocale();
+  const recaptchaContainerRef = useRef<HTMLDivElement>(null);
+  const verifierRef = useRef<RecaptchaVerifier | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [phoneError, setPhoneError] = useState('');
+  const [confirmation, setConfirmation] = useState<ConfirmationResult | null>(null);
+  const [code, setCode] = useState('');
+  const [codeError, setCodeError] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      verifierRef.current?.clear();
+      verifierRef.current = null;
+    };
+  }, []);
+
+  const getVerifier = (): RecaptchaVerifier => {
+    if (!verifierRef.current) {
+      verifierRef.current = new RecaptchaVerifier(auth, recaptchaContainerRef.current!, {
+        size: 'invisible',
+      });
+    }
+    return verifierRef.current;
+  };
+
+  const handleSendCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const validationError = validatePhoneNumber(phoneNumber, getValidationMessages(t));
+    if (validationError) {
+      setPhoneError(validationError);
+      return;
+    }
+
+    setIsSending(true);
+
+    try {
+      setConfirmation(await sendCode(normalizePhoneNumber(phoneNumber), getVerifier()));
+      setCode('');
+      setCodeError('');
+    } catch (error) {
+      // A solved reCAPTCHA cannot be reused, so start over with a new one
+      verifierRef.current?.clear();
+      verifierRef.current = null;
+      setPhoneError(getAuthErrorDisplay(error, t('phone.error.send'), t).message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerifyCode = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!confirmation) {
+      return;
+    }
+    if (!SMS_CODE_PATTERN.test(code)) {
+      setCodeError(t('phone.codeInvalid'));
+      return;
+    }
+
+    setIsVerifying(true);
+
+    try {
+      await onConfirm(confirmation, code);
+    } catch (error) {
+      setCode('');
+      setCodeError(getAuthErrorDisplay(error, t('phone.error.verify'), t).message);
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <div data-testid="phone-verification">
+      {confirmation ? (
+        <form onSubmit={handleVerifyCode} noValidate className="space-y-5">
+          <div>
+            <label htmlFor="sms-code" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('phone.codeLabel')}
+            </label>
+            <p className="text-sm text-gray-600 mb-2">
+              {t('phone.codeSent', { phone: normalizePhoneNumber(phoneNumber) })}
+            </p>
+            <input
+              type="text"
+              id="sms-code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value.replace(/\D/g, ''));
+                setCodeError('');
+              }}
+              placeholder="123456"
+              className={`w-full px-4 py-2 border rounded-lg tracking-widest focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+                codeError ? 'border-red-500' : 'border-gray-300'
+              }`}
+              data-testid="sms-code-input"
+            />
+            {codeError && (
+              <p className="mt-1 text-sm text-red-600" data-testid="sms-code-error">
+                {codeError}
+              </p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isVerifying || disabled}
+            data-testid="verify-code-button"
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+          >
+            {isVerifying ? t('phone.verifying') : t('phone.verify')}
+          </button>
+          <button
+            type="button"
+            onClick={() => setConfirmation(null)}
+            disabled={isVerifying}
+            data-testid="change-phone-button"
+            className="w-full text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+          >
+            {t('phone.changeNumber')}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={handleSendCode} noValidate className="space-y-5">
+          <div>
+            <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('phone.label')}
+            </label>
+            <input
+              type="tel"
+              id="phone"
+              name="phone"
+              autoComplete="tel"
+              value={phoneNumber}
+              onChange={(e) => {
+                setPhoneNumber(e.target.value);
+                setPhoneError('');
+              }}
+              placeholder="+1 555 123 4567"
+              className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+                phoneError ? 'border-red-500' : 'border-gray-300'
+              }`}
+              data-testid="phone-input"
+            />
+            {phoneError ? (
+              <p className="mt-1 text-sm text-red-600" data-testid="phone-error">
+                {phoneError}
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                {t('phone.hint')}
+              </p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSending || disabled}
+            data-testid="send-code-button"
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+          >
+            {isSending ? t('phone.sending') : t('phone.send')}
+          </button>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              disabled={isSending}
+              data-testid="cancel-phone-button"
+              className="w-full text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              {t('phone.cancel')}
+            </button>
+          )}
+        </form>
+      )}
+
+      <div ref={recaptchaContainerRef} />
+    </div>
+  );
+}
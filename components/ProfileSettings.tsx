@@ -0,0 +1,377 @@
+'use client';
+
+import {
+  EmailAuthProvider,
+  updatePassword,
+  updateProfile,
+  type User,
+  verifyBeforeUpdateEmail,
+} from 'firebase/auth';
+import { useState } from 'react';
+
+import { useAuth } from '@/components/AuthProvider';
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
+import ReauthenticateDialog from '@/components/ReauthenticateDialog';
+import { getAuthErrorCode, getAuthErrorDisplay } from '@/lib/auth-errors';
+import { PROFILE_ROUTE } from '@/lib/routes';
+import {
+  validateDisplayName,
+  validateEmail,
+  validateNewPassword,
+  validatePhotoUrl,
+} from '@/lib/validation';
+
+interface ProfileSettingsProps {
+  user: User;
+}
+
+interface ProfileAction {
+  run: () => Promise<string>;
+  fallback: string;
+}
+
+interface ProfileFormErrors {
+  displayName?: string;
+  photoUrl?: string;
+  email?: string;
+  password?: string;
+  confirmPassword?: string;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+    hasError ? 'border-red-500' : 'border-gray-300'
+  }`;
+
+export default function ProfileSettings({ user }: ProfileSettingsProps) {
+  const { refreshUser } = useAuth();
+  const [displayName, setDisplayName] = useState(user.displayName ?? '');
+  const [photoUrl, setPhotoUrl] = useState(user.photoURL ?? '');
+  const [newEmail, setNewEmail] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [errors, setErrors] = useState<ProfileFormErrors>({});
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  // Change that was refused with auth/requires-recent-login, retried after the
+  // user signs in again
+  const [pendingAction, setPendingAction] = useState<ProfileAction | null>(null);
+
+  const hasPassword = user.providerData.some(
+    (profile) => profile.providerId === EmailAuthProvider.PROVIDER_ID
+  );
+
+  const runAction = async (action: ProfileAction) => {
+    setMessage('');
+    setError('');
+    setIsBusy(true);
+
+    try {
+      setMessage(await action.run());
+    } catch (actionError) {
+      if (getAuthErrorCode(actionError) === 'auth/requires-recent-login') {
+        setPendingAction(action);
+        return;
+      }
+      const { field, message: errorMessage } = getAuthErrorDisplay(actionError, action.fallback);
+      if (field === 'email' || field === 'password') {
+        setErrors((prev) => ({ ...prev, [field]: errorMessage }));
+      } else {
+        setError(errorMessage);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReauthenticated = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (action) {
+      await runAction(action);
+    }
+  };
+
+  const clearError = (field: keyof ProfileFormErrors) =>
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+
+  const handleProfileSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const nextErrors: ProfileFormErrors = {
+      displayName: validateDisplayName(displayName),
+      photoUrl: validatePhotoUrl(photoUrl.trim()),
+    };
+    setErrors(nextErrors);
+    if (nextErrors.displayName || nextErrors.photoUrl) {
+      return;
+    }
+
+    await runAction({
+      run: async () => {
+        // Empty fields clear the value instead of saving an empty string
+        await updateProfile(user, {
+          displayName: displayName.trim() || null,
+          photoURL: photoUrl.trim() || null,
+        });
+        // Re-issues the session cookie so server pages see the new profile
+        await refreshUser();
+        return 'Profile updated.';
+      },
+      fallback: 'Could not update your profile. Please try again.',
+    });
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const emailError =
+      validateEmail(newEmail) ??
+      (newEmail.toLowerCase() === user.email?.toLowerCase()
+        ? 'This is already your email'
+        : undefined);
+    if (emailError) {
+      setErrors({ email: emailError });
+      return;
+    }
+
+    const email = newEmail;
+    await runAction({
+      run: async () => {
+        // The address only changes once the link sent to it is opened
+        await verifyBeforeUpdateEmail(user, email, {
+          url: `${window.location.origin}${PROFILE_ROUTE}`,
+        });
+        setNewEmail('');
+        return `We sent a verification link to ${email}. Your email changes once you open it.`;
+      },
+      fallback: 'Could not change your email. Please try again.',
+    });
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const nextErrors: ProfileFormErrors = {
+      password: validateNewPassword(newPassword, user.email ?? undefined),
+      confirmPassword:
+        newPassword === confirmPassword ? undefined : 'Passwords do not match',
+    };
+    setErrors(nextErrors);
+    if (nextErrors.password || nextErrors.confirmPassword) {
+      return;
+    }
+
+    const password = newPassword;
+    await runAction({
+      run: async () => {
+        await updatePassword(user, password);
+        // Changing the password revokes the refresh tokens, and with them the
+        // session cookie; swap it for one made from the new tokens
+        await refreshUser();
+        setNewPassword('');
+        setConfirmPassword('');
+        return 'Password changed.';
+      },
+      fallback: 'Could not change your password. Please try again.',
+    });
+  };
+
+  return (
+    <div className="w-full max-w-md space-y-4">
+      {message && (
+        <div
+          data-testid="profile-message"
+          className="p-4 bg-green-50 border border-green-200 text-green-800 rounded-lg"
+        >
+          {message}
+        </div>
+      )}
+      {error && (
+        <div
+          data-testid="profile-error"
+          className="p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+        >
+          {error}
+        </div>
+      )}
+
+      <section className="bg-white rounded-lg shadow-xl p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Profile</h2>
+        <form onSubmit={handleProfileSubmit} noValidate className="space-y-4">
+          <div>
+            <label htmlFor="display-name" className="block text-sm font-medium text-gray-700 mb-2">
+              Display name
+            </label>
+            <input
+              type="text"
+              id="display-name"
+              autoComplete="name"
+              value={displayName}
+              onChange={(e) => {
+                setDisplayName(e.target.value);
+                clearError('displayName');
+              }}
+              placeholder="Jane Doe"
+              className={inputClassName(Boolean(errors.displayName))}
+              data-testid="display-name-input"
+            />
+            {errors.displayName && (
+              <p className="mt-1 text-sm text-red-600" data-testid="display-name-error">
+                {errors.displayName}
+              </p>
+            )}
+          </div>
+          <div>
+            <label htmlFor="photo-url" className="block text-sm font-medium text-gray-700 mb-2">
+              Avatar URL
+            </label>
+            <input
+              type="url"
+              id="photo-url"
+              value={photoUrl}
+              onChange={(e) => {
+                setPhotoUrl(e.target.value);
+                clearError('photoUrl');
+              }}
+              placeholder="https://example.com/avatar.png"
+              className={inputClassName(Boolean(errors.photoUrl))}
+              data-testid="photo-url-input"
+            />
+            {errors.photoUrl && (
+              <p className="mt-1 text-sm text-red-600" data-testid="photo-url-error">
+                {errors.photoUrl}
+              </p>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={isBusy}
+            data-testid="save-profile-button"
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+          >
+            Save profile
+          </button>
+        </form>
+      </section>
+
+      <section className="bg-white rounded-lg shadow-xl p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Email</h2>
+        <p className="text-sm text-gray-600 mb-4" data-testid="current-email">
+          {user.email ? `Currently ${user.email}` : 'No email address on this account'}
+        </p>
+        <form onSubmit={handleEmailSubmit} noValidate className="space-y-4">
+          <div>
+            <label htmlFor="new-email" className="block text-sm font-medium text-gray-700 mb-2">
+              New email address
+            </label>
+            <input
+              type="email"
+              id="new-email"
+              autoComplete="email"
+              value={newEmail}
+              onChange={(e) => {
+                setNewEmail(e.target.value);
+                clearError('email');
+              }}
+              placeholder="you@example.com"
+              className={inputClassName(Boolean(errors.email))}
+              data-testid="new-email-input"
+            />
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600" data-testid="new-email-error">
+                {errors.email}
+              </p>
+            )}
+          </div>
+          <button
+            type="submit"
+            disabled={isBusy}
+            data-testid="change-email-button"
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+          >
+            Change email
+          </button>
+        </form>
+      </section>
+
+      {hasPassword && (
+        <section className="bg-white rounded-lg shadow-xl p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Password</h2>
+          <form onSubmit={handlePasswordSubmit} noValidate className="space-y-4">
+            <div>
+              <label
+                htmlFor="change-password"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                New password
+              </label>
+              <input
+                type="password"
+                id="change-password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => {
+                  setNewPassword(e.target.value);
+                  clearError('password');
+                }}
+                placeholder="••••••••"
+                className={inputClassName(Boolean(errors.password))}
+                data-testid="change-password-input"
+              />
+              {errors.password && (
+                <p className="mt-1 text-sm text-red-600" data-testid="change-password-error">
+                  {errors.password}
+                </p>
+              )}
+              <PasswordStrengthMeter password={newPassword} email={user.email ?? undefined} />
+            </div>
+            <div>
+              <label
+                htmlFor="confirm-password"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Confirm new password
+              </label>
+              <input
+                type="password"
+                id="confirm-password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  clearError('confirmPassword');
+                }}
+                placeholder="••••••••"
+                className={inputClassName(Boolean(errors.confirmPassword))}
+                data-testid="confirm-password-input"
+              />
+              {errors.confirmPassword && (
+                <p className="mt-1 text-sm text-red-600" data-testid="confirm-password-error">
+                  {errors.confirmPassword}
+                </p>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={isBusy}
+              data-testid="change-password-button"
+              className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              Change password
+            </button>
+          </form>
+        </section>
+      )}
+
+      {pendingAction && (
+        <ReauthenticateDialog
+          user={user}
+          onReauthenticated={handleReauthenticated}
+          onCancel={() => setPendingAction(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import {
+  EmailAuthProvider,
+  getMultiFactorResolver,
+  type MultiFactorAssertion,
+  type MultiFactorError,
+  type MultiFactorResolver,
+  PhoneAuthProvider,
+  reauthenticateWithCredential,
+  reauthenticateWithPhoneNumber,
+  reauthenticateWithPopup,
+  type User,
+} from 'firebase/auth';
+import { useState } from 'react';
+
+import MfaChallenge from '@/components/MfaChallenge';
+import PhoneVerification from '@/components/PhoneVerification';
+import { getAuthErrorCode, getAuthErrorDisplay } from '@/lib/auth-errors';
+import {
+  createAuthProvider,
+  findProviderConfig,
+  type OAuthProviderConfig,
+} from '@/lib/auth-providers';
+import { auth } from '@/lib/firebase';
+import { validatePassword } from '@/lib/validation';
+
+interface ReauthenticateDialogProps {
+  user: User;
+  onReauthenticated: () => Promise<void>;
+  onCancel: () => void;
+}
+
+// Asks the user to prove it is still them before a sensitive change, using
+// whichever sign-in methods are linked to the account. Firebase demands this
+// with auth/requires-recent-login when the last sign-in is too old.
+export default function ReauthenticateDialog({
+  user,
+  onReauthenticated,
+  onCancel,
+}: ReauthenticateDialogProps) {
+  const providerIds = user.providerData.map((profile) => profile.providerId);
+  const hasPassword = providerIds.includes(EmailAuthProvider.PROVIDER_ID) && Boolean(user.email);
+  const hasPhone = providerIds.includes(PhoneAuthProvider.PROVIDER_ID);
+  const oauthProviders = providerIds
+    .map((id) => findProviderConfig(id))
+    .filter((config): config is OAuthProviderConfig => Boolean(config));
+
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [error, setError] = useState('');
+  const [busyMethod, setBusyMethod] = useState<string | null>(null);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+
+  const reauthenticate = async (method: string, action: () => Promise<unknown>) => {
+    setError('');
+    setBusyMethod(method);
+
+    try {
+      await action();
+      await onReauthenticated();
+    } catch (reauthError) {
+      if (getAuthErrorCode(reauthError) === 'auth/multi-factor-auth-required') {
+        setMfaResolver(getMultiFactorResolver(auth, reauthError as MultiFactorError));
+        return;
+      }
+      setError(
+        getAuthErrorDisplay(reauthError, 'Could not confirm it is you. Please try again.').message
+      );
+    } finally {
+      setBusyMethod(null);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const validationError = validatePassword(password);
+    if (validationError) {
+      setPasswordError(validationError);
+      return;
+    }
+
+    await reauthenticate(EmailAuthProvider.PROVIDER_ID, () =>
+      reauthenticateWithCredential(
+        user,
+        EmailAuthProvider.credential(user.email ?? '', password)
+      )
+    );
+  };
+
+  // Errors are shown by MfaChallenge, which lets the user retry the code
+  const handleMfaVerify = async (assertion: MultiFactorAssertion) => {
+    if (!mfaResolver) {
+      return;
+    }
+
+    await mfaResolver.resolveSignIn(assertion);
+    setMfaResolver(null);
+    await onReauthenticated();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reauthenticate-title"
+        data-testid="reauthenticate-dialog"
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-6 space-y-4"
+      >
+        <div>
+          <h2 id="reauthenticate-title" className="text-lg font-semibold text-gray-900">
+            Confirm it&apos;s you
+          </h2>
+          <p className="text-sm text-gray-600">
+            For your security, sign in again to finish this change.
+          </p>
+        </div>
+
+        {error && (
+          <div
+            data-testid="reauthenticate-error"
+            className="p-3 bg-red-50 border border-red-200 text-red-800 rounded-lg text-sm"
+          >
+            {error}
+          </div>
+        )}
+
+        {mfaResolver ? (
+          <MfaChallenge
+            resolver={mfaResolver}
+            onVerify={handleMfaVerify}
+            onCancel={() => setMfaResolver(null)}
+          />
+        ) : (
+          <>
+            {hasPassword && (
+              <form onSubmit={handlePasswordSubmit} noValidate className="space-y-3">
+                <label
+                  htmlFor="reauthenticate-password"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Password for {user.email}
+                </label>
+                <input
+                  type="password"
+                  id="reauthenticate-password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    setPasswordError('');
+                  }}
+                  placeholder="••••••••"
+                  className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+                    passwordError ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  data-testid="reauthenticate-password-input"
+                />
+                {passwordError && (
+                  <p className="text-sm text-red-600" data-testid="reauthenticate-password-error">
+                    {passwordError}
+                  </p>
+                )}
+                <button
+                  type="submit"
+                  disabled={busyMethod !== null}
+                  data-testid="reauthenticate-password-button"
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  {busyMethod === EmailAuthProvider.PROVIDER_ID ? 'Confirming...' : 'Confirm'}
+                </button>
+              </form>
+            )}
+
+            {oauthProviders.map((provider) => {
+              const Icon = provider.icon;
+              return (
+                <button
+                  key={provider.id}
+                  type="button"
+                  onClick={() =>
+                    reauthenticate(provider.providerId, () =>
+                      reauthenticateWithPopup(user, createAuthProvider(provider))
+                    )
+                  }
+                  disabled={busyMethod !== null}
+                  data-testid={`reauthenticate-${provider.id}-button`}
+                  className="w-full flex items-center justify-center gap-2 border border-gray-300 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-500 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+                >
+                  <Icon className="size-4" aria-hidden="true" />
+                  {busyMethod === provider.providerId
+                    ? `Confirming with ${provider.label}...`
+                    : `Continue with ${provider.label}`}
+                </button>
+              );
+            })}
+
+            {hasPhone && (
+              <PhoneVerification
+                sendCode={(phoneNumber, verifier) =>
+                  reauthenticateWithPhoneNumber(user, phoneNumber, verifier)
+                }
+                onConfirm={async (confirmation, code) => {
+                  await confirmation.confirm(code);
+                  await onReauthenticated();
+                }}
+                disabled={busyMethod !== null}
+              />
+            )}
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={busyMethod !== null}
+          data-testid="reauthenticate-cancel-button"
+          className="w-full text-sm text-gray-600 hover:text-gray-800 font-medium"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useRoles } from '@/hooks/useRoles';
+import type { Role } from '@/lib/roles';
+
+interface RequireRoleProps {
+  role: Role;
+  children: React.ReactNode;
+  // Rendered instead of the children for users without the role
+  fallback?: React.ReactNode;
+}
+
+// Hides UI from users without the role. This is cosmetic only; the matching
+// route handler or server component must still check with requireRole.
+export default function RequireRole({ role, children, fallback = null }: RequireRoleProps) {
+  const { hasRole, loading } = useRoles();
+
+  if (loading || !hasRole(role)) {
+    return fallback;
+  }
+
+  return children;
+}
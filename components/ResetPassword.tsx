@@ -0,0 +1,207 @@
+'use client';
+
+import { confirmPasswordReset, verifyPasswordResetCode } from 'firebase/auth';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+import PasswordStrengthMeter from '@/components/PasswordStrengthMeter';
+import { logAuditEvent } from '@/lib/audit-client';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+import { auth } from '@/lib/firebase';
+import { LOGIN_ROUTE } from '@/lib/routes';
+import { validateNewPassword } from '@/lib/validation';
+
+type ResetStatus = 'verifying' | 'ready' | 'invalid' | 'done';
+
+export default function ResetPassword() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const oobCode = searchParams.get('oobCode') ?? '';
+
+  const [status, setStatus] = useState<ResetStatus>('verifying');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [authError, setAuthError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!oobCode) {
+      setStatus('invalid');
+      return;
+    }
+
+    // Resolves to the account's email when the action code is still valid
+    verifyPasswordResetCode(auth, oobCode)
+      .then((accountEmail) => {
+        if (!cancelled) {
+          setEmail(accountEmail);
+          setStatus('ready');
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setStatus('invalid');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [oobCode]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPassword(e.target.value);
+    if (passwordError) {
+      setPasswordError('');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setAuthError('');
+
+    const error = validateNewPassword(password, email);
+    if (error) {
+      setPasswordError(error);
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await confirmPasswordReset(auth, oobCode, password);
+      void logAuditEvent({ type: 'password_reset_completed', email });
+      setPassword('');
+      setStatus('done');
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      router.push(LOGIN_ROUTE);
+    } catch (error) {
+      const { field, message } = getAuthErrorDisplay(
+        error,
+        'Password reset failed. Please try again.'
+      );
+      if (field === 'password') {
+        setPasswordError(message);
+      } else {
+        setAuthError(message);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Reset Password</h1>
+            <p className="text-gray-600">
+              {status === 'ready' ? `Choose a new password for ${email}` : 'Recover your account'}
+            </p>
+          </div>
+
+          {status === 'verifying' && (
+            <div
+              data-testid="reset-verifying"
+              className="mb-4 p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
+            >
+              Checking your reset link...
+            </div>
+          )}
+
+          {status === 'invalid' && (
+            <div
+              data-testid="reset-invalid"
+              className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+            >
+              This password reset link is invalid or has expired. Request a new one from the
+              login page.
+            </div>
+          )}
+
+          {status === 'done' && (
+            <>
+              <div
+                data-testid="success-message"
+                className="mb-4 p-4 bg-green-50 border border-green-200 text-green-800 rounded-lg"
+              >
+                Password updated!
+              </div>
+              <div
+                data-testid="redirect-buffer"
+                className="mb-4 p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
+              >
+                Buffering... Redirecting to login
+              </div>
+            </>
+          )}
+
+          {authError && (
+            <div
+              data-testid="auth-error"
+              className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+            >
+              {authError}
+            </div>
+          )}
+
+          {status === 'ready' && (
+            <form onSubmit={handleSubmit} noValidate className="space-y-5">
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  New Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  name="password"
+                  value={password}
+                  onChange={handleChange}
+                  placeholder="••••••••"
+                  className={`w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition ${
+                    passwordError ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  data-testid="password-input"
+                />
+                {passwordError && (
+                  <p className="mt-1 text-sm text-red-600" data-testid="password-error">
+                    {passwordError}
+                  </p>
+                )}
+                <PasswordStrengthMeter password={password} email={email} />
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                data-testid="submit-button"
+                className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200 mt-6"
+              >
+                {isLoading ? 'Updating password...' : 'Update Password'}
+              </button>
+            </form>
+          )}
+
+          {/* Footer */}
+          <div className="mt-6 text-center">
+            <Link
+              href={LOGIN_ROUTE}
+              className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
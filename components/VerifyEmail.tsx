@@ -0,0 +1,184 @@
+'use client';
+
+import { sendEmailVerification } from 'firebase/auth';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+import { useAuth } from '@/components/AuthProvider';
+import { getAuthErrorDisplay } from '@/lib/auth-errors';
+import { DEFAULT_AUTHENTICATED_ROUTE, LOGIN_ROUTE } from '@/lib/routes';
+import { clearServerSession } from '@/lib/session-client';
+
+export const RESEND_COOLDOWN_SECONDS = 60;
+
+export default function VerifyEmail() {
+  const router = useRouter();
+  const { user, loading, refreshUser, signOut } = useAuth();
+  const [cooldown, setCooldown] = useState(0);
+  const [isResending, setIsResending] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isRedirecting, setIsRedirecting] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [successMessage, setSuccessMessage] = useState('');
+  const [authError, setAuthError] = useState('');
+
+  useEffect(() => {
+    if (!loading && !user && !isSigningOut) {
+      // The cookie goes first, or the proxy sends /login straight back here
+      clearServerSession()
+        .then(() => router.replace(LOGIN_ROUTE))
+        .catch((error) =>
+          setAuthError(getAuthErrorDisplay(error, 'Sign out failed. Please try again.').message)
+        );
+    }
+  }, [loading, user, isSigningOut, router]);
+
+  useEffect(() => {
+    if (cooldown <= 0) {
+      return;
+    }
+
+    const timer = setTimeout(() => setCooldown((seconds) => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [cooldown]);
+
+  const handleResend = async () => {
+    if (!user) {
+      return;
+    }
+
+    setSuccessMessage('');
+    setAuthError('');
+    setIsResending(true);
+
+    try {
+      await sendEmailVerification(user, {
+        url: `${window.location.origin}${DEFAULT_AUTHENTICATED_ROUTE}`,
+      });
+      setSuccessMessage('Verification email sent!');
+      setCooldown(RESEND_COOLDOWN_SECONDS);
+    } catch (error) {
+      setAuthError(
+        getAuthErrorDisplay(error, 'Could not send the verification email. Please try again.')
+          .message
+      );
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setSuccessMessage('');
+    setAuthError('');
+    setIsRefreshing(true);
+
+    try {
+      const refreshedUser = await refreshUser();
+      if (!refreshedUser?.emailVerified) {
+        setAuthError('Your email is not verified yet. Open the link in the email we sent you.');
+        return;
+      }
+
+      setSuccessMessage('Email verified!');
+      setIsRedirecting(true);
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      router.replace(DEFAULT_AUTHENTICATED_ROUTE);
+    } catch (error) {
+      setAuthError(getAuthErrorDisplay(error, 'Could not refresh. Please try again.').message);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await signOut();
+      router.replace(LOGIN_ROUTE);
+    } catch (error) {
+      setIsSigningOut(false);
+      setAuthError(getAuthErrorDisplay(error, 'Sign out failed. Please try again.').message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Verify Your Email</h1>
+            <p className="text-gray-600">
+              We sent a verification link to{' '}
+              <span className="font-medium text-gray-900">{user?.email ?? 'your email'}</span>
+            </p>
+          </div>
+
+          {successMessage && (
+            <div
+              data-testid="success-message"
+              className="mb-4 p-4 bg-green-50 border border-green-200 text-green-800 rounded-lg"
+            >
+              {successMessage}
+            </div>
+          )}
+          {authError && (
+            <div
+              data-testid="auth-error"
+              className="mb-4 p-4 bg-red-50 border border-red-200 text-red-800 rounded-lg"
+            >
+              {authError}
+            </div>
+          )}
+          {isRedirecting && (
+            <div
+              data-testid="redirect-buffer"
+              className="mb-4 p-4 bg-blue-50 border border-blue-200 text-blue-800 rounded-lg animate-pulse"
+            >
+              Buffering... Redirecting to dashboard
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button
+              type="button"
+              onClick={handleRefresh}
+              disabled={!user || isRefreshing || isRedirecting || isSigningOut}
+              data-testid="refresh-button"
+              className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-400 text-white font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              {isRefreshing ? 'Checking...' : "I've verified, refresh"}
+            </button>
+
+            <button
+              type="button"
+              onClick={handleResend}
+              disabled={!user || isResending || cooldown > 0 || isRedirecting || isSigningOut}
+              data-testid="resend-button"
+              className="w-full border border-gray-300 hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-500 text-gray-700 font-semibold py-2 px-4 rounded-lg transition duration-200"
+            >
+              {isResending
+                ? 'Sending...'
+                : cooldown > 0
+                  ? `Resend available in ${cooldown}s`
+                  : 'Resend verification email'}
+            </button>
+          </div>
+
+          {/* Footer */}
+          <div className="mt-6 text-center">
+            <button
+              type="button"
+              onClick={handleSignOut}
+              disabled={isSigningOut || isRedirecting}
+              data-testid="signout-button"
+              className="text-sm text-indigo-600 hover:text-indigo-700 font-medium"
+            >
+              Use a different account
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { fetchSessions, revokeAllSessions, revokeSession } from '@/lib/session-client';
+import type { UserSession } from '@/lib/user-sessions';
+import ActiveSessions from '../ActiveSessions';
+import { LocaleProvider } from '../LocaleProvider';
+
+jest.mock('@/lib/session-client', () => ({
+  fetchSessions: jest.fn(),
+  revokeSession: jest.fn(),
+  revokeAllSessions: jest.fn(),
+}));
+
+const createSession = (overrides: Partial<UserSession> = {}): UserSession => ({
+  id: 'session-1',
+  device: 'Chrome on macOS',
+  userAgent: 'Mozilla/5.0 (Macintosh) Chrome/120.0',
+  ip: '203.0.113.7',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  lastSeenAt: '2026-10-02T10:00:00.000Z',
+  current: false,
+  ...overrides,
+});
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('ActiveSessions Component', () => {
+  const onSignedOutEverywhere = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchSessions as jest.Mock).mockResolvedValue([
+      createSession({ id: 'current', device: 'Firefox on Linux', current: true }),
+      createSession(),
+    ]);
+  });
+
+  it('lists the sessions and marks this device', async () => {
+    render(<ActiveSessions onSignedOutEverywhere={onSignedOutEverywhere} />, { wrapper });
+
+    expect(await screen.findByTestId('session-current')).toHaveTextContent('This device');
+    expect(screen.getByTestId('session-session-1')).toHaveTextContent('Chrome on macOS');
+    expect(screen.getByTestId('session-session-1')).toHaveTextContent('203.0.113.7');
+    expect(screen.queryByTestId('revoke-session-current')).not.toBeInTheDocument();
+  });
+
+  it('ends a single session', async () => {
+    const user = userEvent.setup();
+    (revokeSession as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<ActiveSessions onSignedOutEverywhere={onSignedOutEverywhere} />, { wrapper });
+
+    await user.click(await screen.findByTestId('revoke-session-session-1'));
+
+    expect(revokeSession).toHaveBeenCalledWith('session-1');
+    expect(await screen.findByTestId('sessions-message')).toHaveTextContent(
+      'Signed out of Chrome on macOS.'
+    );
+    expect(screen.queryByTestId('session-session-1')).not.toBeInTheDocument();
+  });
+
+  it('asks for confirmation before signing out everywhere', async () => {
+    const user = userEvent.setup();
+    (revokeAllSessions as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<ActiveSessions onSignedOutEverywhere={onSignedOutEverywhere} />, { wrapper });
+    await screen.findByTestId('session-current');
+
+    await user.click(screen.getByTestId('signout-everywhere-button'));
+    expect(revokeAllSessions).not.toHaveBeenCalled();
+    expect(screen.getByTestId('signout-everywhere-button')).toHaveTextContent(
+      'Click again to sign out everywhere'
+    );
+
+    await user.click(screen.getByTestId('signout-everywhere-button'));
+
+    await waitFor(() => expect(onSignedOutEverywhere).toHaveBeenCalled());
+    expect(revokeAllSessions).toHaveBeenCalled();
+  });
+
+  it('shows an error when signing out everywhere fails', async () => {
+    const user = userEvent.setup();
+    (revokeAllSessions as jest.Mock).mockRejectedValueOnce(new Error('Not signed in'));
+    render(<ActiveSessions onSignedOutEverywhere={onSignedOutEverywhere} />, { wrapper });
+    await screen.findByTestId('session-current');
+
+    await user.click(screen.getByTestId('signout-everywhere-button'));
+    await user.click(screen.getByTestId('signout-everywhere-button'));
+
+    expect(await screen.findByTestId('sessions-error')).toHaveTextContent('Not signed in');
+    expect(onSignedOutEverywhere).not.toHaveBeenCalled();
+  });
+});
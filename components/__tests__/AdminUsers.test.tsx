@@ -0,0 +1,169 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { deleteUser, fetchUsers, forcePasswordReset, setUserDisabled } from '@/lib/admin-client';
+import type { AdminUser } from '@/lib/admin-users';
+import AdminUsers from '../AdminUsers';
+
+jest.mock('@/lib/admin-client', () => ({
+  fetchUsers: jest.fn(),
+  setUserDisabled: jest.fn(),
+  revokeSessions: jest.fn(),
+  forcePasswordReset: jest.fn(),
+  deleteUser: jest.fn(),
+}));
+
+const createAdminUser = (overrides: Partial<AdminUser> = {}): AdminUser => ({
+  uid: 'user-1',
+  email: 'user@example.com',
+  emailVerified: true,
+  displayName: null,
+  phoneNumber: null,
+  photoURL: null,
+  disabled: false,
+  providerIds: ['password'],
+  roles: [],
+  customClaims: {},
+  mfaFactorCount: 0,
+  createdAt: null,
+  lastSignInAt: null,
+  lastActiveAt: null,
+  tokensValidAfter: null,
+  ...overrides,
+});
+
+describe('AdminUsers Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchUsers as jest.Mock).mockResolvedValue({
+      users: [createAdminUser()],
+      nextPageToken: 'page-2',
+    });
+  });
+
+  it('lists the first page of users', async () => {
+    render(<AdminUsers />);
+
+    expect(await screen.findByTestId('admin-user-row-user-1')).toHaveTextContent(
+      'user@example.com'
+    );
+    expect(fetchUsers).toHaveBeenCalledWith({ query: '', pageToken: null });
+  });
+
+  it('pages forward and back with page tokens', async () => {
+    const user = userEvent.setup();
+    render(<AdminUsers />);
+
+    await screen.findByTestId('admin-user-row-user-1');
+    await user.click(screen.getByTestId('admin-next-page'));
+    await waitFor(() =>
+      expect(fetchUsers).toHaveBeenLastCalledWith({ query: '', pageToken: 'page-2' })
+    );
+
+    await waitFor(() => expect(screen.getByTestId('admin-previous-page')).not.toBeDisabled());
+    await user.click(screen.getByTestId('admin-previous-page'));
+    await waitFor(() =>
+      expect(fetchUsers).toHaveBeenLastCalledWith({ query: '', pageToken: null })
+    );
+  });
+
+  it('searches by email', async () => {
+    const user = userEvent.setup();
+    render(<AdminUsers />);
+
+    await user.type(screen.getByTestId('admin-search-input'), 'user@example.com');
+    await user.click(screen.getByTestId('admin-search-button'));
+
+    await waitFor(() =>
+      expect(fetchUsers).toHaveBeenLastCalledWith({
+        query: 'user@example.com',
+        pageToken: null,
+      })
+    );
+  });
+
+  it('disables a user from the detail panel', async () => {
+    const user = userEvent.setup();
+    (setUserDisabled as jest.Mock).mockResolvedValueOnce(createAdminUser({ disabled: true }));
+    render(<AdminUsers />);
+
+    await user.click(await screen.findByTestId('admin-user-row-user-1'));
+    await user.click(screen.getByTestId('admin-toggle-disabled'));
+
+    expect(setUserDisabled).toHaveBeenCalledWith('user-1', true);
+    expect(await screen.findByTestId('admin-user-status')).toHaveTextContent('Disabled');
+  });
+
+  it('tells the admin the reset link went to the owner instead of showing it', async () => {
+    const user = userEvent.setup();
+    (forcePasswordReset as jest.Mock).mockResolvedValueOnce(createAdminUser());
+    render(<AdminUsers />);
+
+    await user.click(await screen.findByTestId('admin-user-row-user-1'));
+    await user.click(screen.getByTestId('admin-force-reset'));
+
+    expect(await screen.findByText(/We emailed user@example.com a link/)).toBeInTheDocument();
+    expect(forcePasswordReset).toHaveBeenCalledWith('user-1');
+    expect(screen.queryByTestId('admin-reset-link')).not.toBeInTheDocument();
+  });
+
+  it('shows why a forced reset failed', async () => {
+    const user = userEvent.setup();
+    (forcePasswordReset as jest.Mock).mockRejectedValueOnce(
+      new Error('Could not send the reset email. The password was not changed.')
+    );
+    render(<AdminUsers />);
+
+    await user.click(await screen.findByTestId('admin-user-row-user-1'));
+    await user.click(screen.getByTestId('admin-force-reset'));
+
+    expect(
+      await screen.findByText('Could not send the reset email. The password was not changed.')
+    ).toBeInTheDocument();
+  });
+
+  it('does not offer a forced reset for other admins', async () => {
+    const user = userEvent.setup();
+    (fetchUsers as jest.Mock).mockResolvedValueOnce({
+      users: [createAdminUser({ roles: ['admin'] })],
+      nextPageToken: null,
+    });
+    render(<AdminUsers />);
+
+    await user.click(await screen.findByTestId('admin-user-row-user-1'));
+
+    expect(screen.queryByTestId('admin-force-reset')).not.toBeInTheDocument();
+  });
+
+  it('asks for a second click before deleting', async () => {
+    const user = userEvent.setup();
+    (deleteUser as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<AdminUsers />);
+
+    await user.click(await screen.findByTestId('admin-user-row-user-1'));
+    await user.click(screen.getByTestId('admin-delete-user'));
+    expect(deleteUser).not.toHaveBeenCalled();
+
+    await user.click(screen.getByTestId('admin-delete-user'));
+
+    expect(deleteUser).toHaveBeenCalledWith('user-1');
+    await waitFor(() =>
+      expect(screen.queryByTestId('admin-user-row-user-1')).not.toBeInTheDocument()
+    );
+  });
+
+  it('shows errors from the server', async () => {
+    const user = userEvent.setup();
+    (setUserDisabled as jest.Mock).mockRejectedValueOnce(
+      new Error('You cannot disable your own account')
+    );
+    render(<AdminUsers />);
+
+    await user.click(await screen.findByTestId('admin-user-row-user-1'));
+    await user.click(screen.getByTestId('admin-toggle-disabled'));
+
+    expect(await screen.findByTestId('admin-user-error')).toHaveTextContent(
+      'You cannot disable your own account'
+    );
+  });
+});
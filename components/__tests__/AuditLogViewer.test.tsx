@@ -0,0 +1,94 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { fetchAuditLog } from '@/lib/audit-client';
+import type { AuditEvent } from '@/lib/audit-events';
+import AuditLogViewer from '../AuditLogViewer';
+
+jest.mock('@/lib/audit-client', () => ({
+  ...jest.requireActual('@/lib/audit-client'),
+  fetchAuditLog: jest.fn(),
+}));
+
+const createEvent = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  id: 'event-1',
+  type: 'sign_in_failed',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  uid: null,
+  email: 'user@example.com',
+  actorUid: null,
+  provider: 'password',
+  details: { errorCode: 'auth/invalid-credential' },
+  ip: '203.0.113.7',
+  userAgent: null,
+  verified: false,
+  ...overrides,
+});
+
+describe('AuditLogViewer Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchAuditLog as jest.Mock).mockResolvedValue([createEvent()]);
+  });
+
+  it('lists the most recent events', async () => {
+    render(<AuditLogViewer />);
+
+    const row = await screen.findByTestId('audit-event-event-1');
+    expect(row).toHaveTextContent('Failed sign-in');
+    expect(row).toHaveTextContent('user@example.com');
+    expect(row).toHaveTextContent('errorCode: auth/invalid-credential');
+    expect(fetchAuditLog).toHaveBeenCalledWith({});
+  });
+
+  it('shows who performed admin actions', async () => {
+    (fetchAuditLog as jest.Mock).mockResolvedValueOnce([
+      createEvent({
+        type: 'admin_action',
+        uid: 'user-1',
+        actorUid: 'admin-1',
+        details: { action: 'disable' },
+        verified: true,
+      }),
+    ]);
+    render(<AuditLogViewer />);
+
+    expect(await screen.findByTestId('audit-event-event-1')).toHaveTextContent('by admin-1');
+    expect(screen.queryByTestId('audit-unverified-event-1')).not.toBeInTheDocument();
+  });
+
+  it('flags events reported without signing in', async () => {
+    render(<AuditLogViewer />);
+
+    expect(await screen.findByTestId('audit-unverified-event-1')).toHaveTextContent(
+      'Unverified report'
+    );
+  });
+
+  it('applies the filter to the table and the CSV export', async () => {
+    const user = userEvent.setup();
+    render(<AuditLogViewer />);
+    await screen.findByTestId('audit-event-event-1');
+
+    await user.type(screen.getByTestId('audit-user-input'), 'user@example.com');
+    await user.selectOptions(screen.getByTestId('audit-type-select'), 'sign_in_failed');
+    await user.type(screen.getByTestId('audit-from-input'), '2026-10-01');
+    await user.click(screen.getByTestId('audit-filter-button'));
+
+    const filter = { user: 'user@example.com', type: 'sign_in_failed', from: '2026-10-01' };
+    await waitFor(() => expect(fetchAuditLog).toHaveBeenLastCalledWith(filter));
+    expect(screen.getByTestId('audit-export-link')).toHaveAttribute(
+      'href',
+      '/api/admin/audit?format=csv&user=user%40example.com&type=sign_in_failed&from=2026-10-01'
+    );
+  });
+
+  it('shows load errors', async () => {
+    (fetchAuditLog as jest.Mock).mockRejectedValueOnce(new Error('The admin role is required'));
+    render(<AuditLogViewer />);
+
+    expect(await screen.findByTestId('audit-error')).toHaveTextContent(
+      'The admin role is required'
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { User } from 'firebase/auth';
+import { linkWithCredential, linkWithPhoneNumber, linkWithPopup, unlink } from 'firebase/auth';
+import ConnectedAccounts from '../ConnectedAccounts';
+import { LocaleProvider } from '../LocaleProvider';
+
+jest.mock('firebase/auth', () => ({
+  EmailAuthProvider: {
+    PROVIDER_ID: 'password',
+    credential: jest.fn((email: string, password: string) => ({ email, password })),
+  },
+  GoogleAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  GithubAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  OAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  PhoneAuthProvider: { PROVIDER_ID: 'phone' },
+  RecaptchaVerifier: jest.fn(() => ({ clear: jest.fn() })),
+  linkWithCredential: jest.fn(),
+  linkWithPhoneNumber: jest.fn(),
+  linkWithPopup: jest.fn(),
+  unlink: jest.fn(),
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+const createUser = (providerIds: string[]) =>
+  ({
+    uid: 'user-1',
+    email: 'user@example.com',
+    providerData: providerIds.map((providerId) => ({ providerId })),
+  }) as unknown as User;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('ConnectedAccounts Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('shows which providers are connected', () => {
+    render(<ConnectedAccounts user={createUser(['password'])} />, { wrapper });
+
+    expect(screen.getByTestId('unlink-password-button')).toBeInTheDocument();
+    expect(screen.getByTestId('link-google-button')).toHaveTextContent('Connect');
+  });
+
+  it('does not allow removing the only sign-in method', () => {
+    render(<ConnectedAccounts user={createUser(['password'])} />, { wrapper });
+
+    expect(screen.getByTestId('unlink-password-button')).toBeDisabled();
+  });
+
+  it('connects a provider with a popup', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser(['password']);
+    (linkWithPopup as jest.Mock).mockImplementationOnce(async () => {
+      (firebaseUser.providerData as { providerId: string }[]).push({ providerId: 'google.com' });
+    });
+    render(<ConnectedAccounts user={firebaseUser} />, { wrapper });
+
+    await user.click(screen.getByTestId('link-google-button'));
+
+    expect(linkWithPopup).toHaveBeenCalledWith(firebaseUser, expect.anything());
+    expect(await screen.findByTestId('connected-accounts-message')).toHaveTextContent(
+      'Google connected.'
+    );
+    expect(screen.getByTestId('unlink-google-button')).not.toBeDisabled();
+  });
+
+  it('disconnects a provider', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser(['password', 'google.com']);
+    (unlink as jest.Mock).mockResolvedValueOnce(firebaseUser);
+    render(<ConnectedAccounts user={firebaseUser} />, { wrapper });
+
+    await user.click(screen.getByTestId('unlink-google-button'));
+
+    expect(unlink).toHaveBeenCalledWith(firebaseUser, 'google.com');
+    expect(await screen.findByTestId('connected-accounts-message')).toHaveTextContent(
+      'Google disconnected.'
+    );
+  });
+
+  it('shows a friendly error when linking fails', async () => {
+    const user = userEvent.setup();
+    (linkWithPopup as jest.Mock).mockRejectedValueOnce({
+      code: 'auth/credential-already-in-use',
+    });
+    render(<ConnectedAccounts user={createUser(['password'])} />, { wrapper });
+
+    await user.click(screen.getByTestId('link-google-button'));
+
+    expect(await screen.findByTestId('connected-accounts-error')).toHaveTextContent(
+      'This sign-in method is already connected to a different account.'
+    );
+  });
+
+  it('adds a password to accounts that only use a provider', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser(['google.com']);
+    (linkWithCredential as jest.Mock).mockResolvedValueOnce({ user: firebaseUser });
+    render(<ConnectedAccounts user={firebaseUser} />, { wrapper });
+
+    await user.click(screen.getByTestId('link-password-button'));
+    await user.type(screen.getByTestId('new-password-input'), 'short');
+    await user.click(screen.getByTestId('save-password-button'));
+    expect(screen.getByTestId('new-password-error')).toHaveTextContent(
+      'Password must be at least 8 characters'
+    );
+
+    await user.clear(screen.getByTestId('new-password-input'));
+    await user.type(screen.getByTestId('new-password-input'), 'Correct-Horse-42');
+    await user.click(screen.getByTestId('save-password-button'));
+
+    await waitFor(() => {
+      expect(linkWithCredential).toHaveBeenCalledWith(firebaseUser, {
+        email: 'user@example.com',
+        password: 'Correct-Horse-42',
+      });
+    });
+  });
+
+  describe('Phone number', () => {
+    const originalProviders = process.env.NEXT_PUBLIC_AUTH_PROVIDERS;
+
+    afterEach(() => {
+      if (originalProviders === undefined) {
+        delete process.env.NEXT_PUBLIC_AUTH_PROVIDERS;
+      } else {
+        process.env.NEXT_PUBLIC_AUTH_PROVIDERS = originalProviders;
+      }
+    });
+
+    it('is only offered when phone sign-in is enabled', () => {
+      render(<ConnectedAccounts user={createUser(['password'])} />, { wrapper });
+
+      expect(screen.queryByTestId('provider-phone')).not.toBeInTheDocument();
+    });
+
+    it('links a phone number after confirming the SMS code', async () => {
+      process.env.NEXT_PUBLIC_AUTH_PROVIDERS = 'google,phone';
+      const user = userEvent.setup();
+      const firebaseUser = createUser(['password']);
+      const confirm = jest.fn(async () => {
+        (firebaseUser.providerData as { providerId: string }[]).push({ providerId: 'phone' });
+      });
+      (linkWithPhoneNumber as jest.Mock).mockResolvedValueOnce({ confirm });
+      render(<ConnectedAccounts user={firebaseUser} />, { wrapper });
+
+      await user.click(screen.getByTestId('link-phone-button'));
+      await user.type(screen.getByTestId('phone-input'), '+44 7700 900123');
+      await user.click(screen.getByTestId('send-code-button'));
+      await user.type(await screen.findByTestId('sms-code-input'), '123456');
+      await user.click(screen.getByTestId('verify-code-button'));
+
+      expect(linkWithPhoneNumber).toHaveBeenCalledWith(
+        firebaseUser,
+        '+447700900123',
+        expect.anything()
+      );
+      expect(confirm).toHaveBeenCalledWith('123456');
+      expect(await screen.findByTestId('connected-accounts-message')).toHaveTextContent(
+        'Phone number connected.'
+      );
+      expect(screen.getByTestId('unlink-phone-button')).toBeInTheDocument();
+    });
+  });
+});
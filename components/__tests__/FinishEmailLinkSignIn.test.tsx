@@ -0,0 +1,121 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { checkActionCode, isSignInWithEmailLink } from 'firebase/auth';
+import { useAuth } from '../AuthProvider';
+import FinishEmailLinkSignIn from '../FinishEmailLinkSignIn';
+
+const mockReplace = jest.fn();
+const mockRouter = { push: jest.fn(), replace: mockReplace };
+let mockSearchParams = new URLSearchParams();
+
+jest.mock('firebase/auth', () => ({
+  checkActionCode: jest.fn(),
+  isSignInWithEmailLink: jest.fn(),
+}));
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => mockRouter,
+  useSearchParams: () => mockSearchParams,
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+jest.mock('@/lib/audit-client', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+jest.mock('../AuthProvider', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockSignInWithEmailLink = jest.fn();
+const mockSetRememberMe = jest.fn().mockResolvedValue(undefined);
+
+describe('FinishEmailLinkSignIn Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window.localStorage.clear();
+    mockSearchParams = new URLSearchParams({
+      apiKey: 'test-key',
+      mode: 'signIn',
+      oobCode: 'link-code',
+      returnTo: '/dashboard/profile',
+    });
+    (useAuth as jest.Mock).mockReturnValue({
+      setRememberMe: mockSetRememberMe,
+      signInWithEmailLink: mockSignInWithEmailLink,
+    });
+    (isSignInWithEmailLink as jest.Mock).mockReturnValue(true);
+    (checkActionCode as jest.Mock).mockResolvedValue({ operation: 'EMAIL_SIGNIN' });
+  });
+
+  it('rejects URLs that are not sign-in links', async () => {
+    (isSignInWithEmailLink as jest.Mock).mockReturnValue(false);
+    render(<FinishEmailLinkSignIn />);
+
+    expect(await screen.findByTestId('email-link-invalid')).toBeInTheDocument();
+    expect(mockSignInWithEmailLink).not.toHaveBeenCalled();
+  });
+
+  it('rejects expired links before asking for an email', async () => {
+    (checkActionCode as jest.Mock).mockRejectedValueOnce({ code: 'auth/expired-action-code' });
+    render(<FinishEmailLinkSignIn />);
+
+    expect(await screen.findByTestId('email-link-invalid')).toBeInTheDocument();
+    expect(screen.queryByTestId('email-input')).not.toBeInTheDocument();
+  });
+
+  it('signs in with the address stored on this device', async () => {
+    window.localStorage.setItem('emailForSignIn', 'link@example.com');
+    mockSignInWithEmailLink.mockResolvedValueOnce({ user: { uid: 'link-user' } });
+    render(<FinishEmailLinkSignIn />);
+
+    await waitFor(() => {
+      expect(mockSignInWithEmailLink).toHaveBeenCalledWith(
+        'link@example.com',
+        window.location.href
+      );
+    });
+    expect(await screen.findByTestId('redirect-buffer')).toBeInTheDocument();
+    expect(window.localStorage.getItem('emailForSignIn')).toBeNull();
+    await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/dashboard/profile'), {
+      timeout: 2000,
+    });
+  });
+
+  it('keeps the "Keep me signed in" choice made on the login page', async () => {
+    window.localStorage.setItem('emailForSignIn', 'link@example.com');
+    window.localStorage.setItem('rememberMe', 'true');
+    mockSignInWithEmailLink.mockResolvedValueOnce({ user: { uid: 'link-user' } });
+    render(<FinishEmailLinkSignIn />);
+
+    await waitFor(() => expect(mockSignInWithEmailLink).toHaveBeenCalled());
+    expect(mockSetRememberMe).toHaveBeenCalledWith(true);
+  });
+
+  it('asks for the email when the link is opened on another device', async () => {
+    const user = userEvent.setup();
+    mockSignInWithEmailLink.mockResolvedValueOnce({ user: { uid: 'link-user' } });
+    render(<FinishEmailLinkSignIn />);
+
+    await user.type(await screen.findByTestId('email-input'), 'link@example.com');
+    await user.click(screen.getByTestId('submit-button'));
+
+    expect(mockSignInWithEmailLink).toHaveBeenCalledWith(
+      'link@example.com',
+      window.location.href
+    );
+    expect(await screen.findByTestId('success-message')).toBeInTheDocument();
+  });
+
+  it('shows the expired state when the link is used up during sign in', async () => {
+    window.localStorage.setItem('emailForSignIn', 'link@example.com');
+    mockSignInWithEmailLink.mockRejectedValueOnce({ code: 'auth/invalid-action-code' });
+    render(<FinishEmailLinkSignIn />);
+
+    expect(await screen.findByTestId('email-link-invalid')).toBeInTheDocument();
+  });
+});
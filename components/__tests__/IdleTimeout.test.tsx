@@ -0,0 +1,143 @@
+import React from 'react';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { getIdleTimeoutMs } from '@/hooks/useIdleTimer';
+import IdleTimeout from '../IdleTimeout';
+import { LocaleProvider } from '../LocaleProvider';
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+const TIMEOUT_MS = 5 * 60 * 1000;
+const WARNING_MS = 60 * 1000;
+
+const onIdle = jest.fn();
+const onSignOut = jest.fn();
+
+const renderIdleTimeout = () =>
+  render(
+    <IdleTimeout
+      timeoutMs={TIMEOUT_MS}
+      warningMs={WARNING_MS}
+      onIdle={onIdle}
+      onSignOut={onSignOut}
+    />,
+    {
+      wrapper: ({ children }) => <LocaleProvider initialLocale="en">{children}</LocaleProvider>,
+    }
+  );
+
+const advance = async (ms: number) => {
+  await act(async () => {
+    jest.advanceTimersByTime(ms);
+  });
+};
+
+describe('IdleTimeout Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('warns with a countdown before the timeout runs out', async () => {
+    renderIdleTimeout();
+
+    await advance(TIMEOUT_MS - WARNING_MS - 1000);
+    expect(screen.queryByTestId('idle-warning-dialog')).not.toBeInTheDocument();
+
+    await advance(1000);
+    expect(screen.getByTestId('idle-warning-dialog')).toHaveTextContent(
+      'You will be signed out in 1:00'
+    );
+
+    await advance(15000);
+    expect(screen.getByTestId('idle-warning-dialog')).toHaveTextContent(
+      'You will be signed out in 0:45'
+    );
+    expect(onIdle).not.toHaveBeenCalled();
+  });
+
+  it('calls onIdle once when the countdown runs out', async () => {
+    renderIdleTimeout();
+
+    await advance(TIMEOUT_MS + 5000);
+
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts over when the user chooses to stay signed in', async () => {
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    renderIdleTimeout();
+
+    await advance(TIMEOUT_MS - 10000);
+    await user.click(screen.getByTestId('stay-signed-in-button'));
+
+    expect(screen.queryByTestId('idle-warning-dialog')).not.toBeInTheDocument();
+    await advance(TIMEOUT_MS - WARNING_MS - 1000);
+    expect(onIdle).not.toHaveBeenCalled();
+    expect(screen.queryByTestId('idle-warning-dialog')).not.toBeInTheDocument();
+  });
+
+  it('counts mouse and keyboard use as activity before the warning', async () => {
+    renderIdleTimeout();
+
+    await advance(TIMEOUT_MS - WARNING_MS - 5000);
+    fireEvent.keyDown(window, { key: 'a' });
+    await advance(10000);
+    fireEvent.mouseMove(window);
+    await advance(TIMEOUT_MS - WARNING_MS - 1000);
+
+    expect(screen.queryByTestId('idle-warning-dialog')).not.toBeInTheDocument();
+  });
+
+  it('ignores activity once the warning is showing', async () => {
+    renderIdleTimeout();
+
+    await advance(TIMEOUT_MS - 30000);
+    fireEvent.mouseMove(window);
+    await advance(30000);
+
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks the clock as soon as the tab becomes visible again', () => {
+    renderIdleTimeout();
+
+    // A background tab's timers may not run at all
+    jest.setSystemTime(Date.now() + TIMEOUT_MS + 1000);
+    fireEvent(document, new Event('visibilitychange'));
+
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets the user sign out from the warning', async () => {
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    renderIdleTimeout();
+
+    await advance(TIMEOUT_MS - WARNING_MS);
+    await user.click(screen.getByTestId('idle-sign-out-button'));
+
+    expect(onSignOut).toHaveBeenCalled();
+  });
+
+  describe('getIdleTimeoutMs', () => {
+    it('reads the timeout in minutes', () => {
+      expect(getIdleTimeoutMs('30')).toBe(30 * 60 * 1000);
+    });
+
+    it('turns the timer off with 0', () => {
+      expect(getIdleTimeoutMs('0')).toBeNull();
+    });
+
+    it('falls back to 15 minutes for missing or malformed values', () => {
+      expect(getIdleTimeoutMs(undefined)).toBe(15 * 60 * 1000);
+      expect(getIdleTimeoutMs('soon')).toBe(15 * 60 * 1000);
+      expect(getIdleTimeoutMs('-5')).toBe(15 * 60 * 1000);
+    });
+  });
+});
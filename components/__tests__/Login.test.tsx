@@ -1,43 +1,131 @@
 import React from 'react';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import {
+  browserLocalPersistence,
+  browserSessionPersistence,
   createUserWithEmailAndPassword,
+  getMultiFactorResolver,
+  getRedirectResult,
+  GoogleAuthProvider,
+  linkWithCredential,
+  onIdTokenChanged,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  sendSignInLinkToEmail,
+  setPersistence,
   signInWithEmailAndPassword,
+  signInWithPhoneNumber,
   signInWithPopup,
+  signInWithRedirect,
+  signOut,
+  updateProfile,
 } from 'firebase/auth';
+import { logAuditEvent } from '@/lib/audit-client';
+import { auth } from '@/lib/firebase';
+import type { Locale } from '@/lib/i18n';
+import { requestLoginAttempt } from '@/lib/login-attempts-client';
+import { createServerSession, SessionRevokedError } from '@/lib/session-client';
+import { AuthProvider } from '../AuthProvider';
+import { LocaleProvider } from '../LocaleProvider';
 import Login from '../Login';
 
 const mockPush = jest.fn();
+const mockReplace = jest.fn();
+let mockSearchParams = new URLSearchParams();
 
 jest.mock('firebase/auth', () => ({
+  browserLocalPersistence: { type: 'LOCAL' },
+  browserSessionPersistence: { type: 'SESSION' },
+  setPersistence: jest.fn().mockResolvedValue(undefined),
   signInWithEmailAndPassword: jest.fn(),
   createUserWithEmailAndPassword: jest.fn(),
   signInWithPopup: jest.fn(),
-  GoogleAuthProvider: jest.fn(),
+  signInWithRedirect: jest.fn().mockResolvedValue(undefined),
+  getRedirectResult: jest.fn().mockResolvedValue(null),
+  signInWithPhoneNumber: jest.fn(),
+  RecaptchaVerifier: jest.fn(() => ({ clear: jest.fn() })),
+  signOut: jest.fn(),
+  sendPasswordResetEmail: jest.fn(),
+  sendSignInLinkToEmail: jest.fn(),
+  sendEmailVerification: jest.fn(),
+  updateProfile: jest.fn().mockResolvedValue(undefined),
+  onIdTokenChanged: jest.fn(() => jest.fn()),
+  GoogleAuthProvider: Object.assign(
+    jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+    { credentialFromError: jest.fn() }
+  ),
+  linkWithCredential: jest.fn(),
+  getMultiFactorResolver: jest.fn(),
+  TotpMultiFactorGenerator: {
+    FACTOR_ID: 'totp',
+    assertionForSignIn: jest.fn((uid: string, code: string) => ({ uid, code })),
+  },
+  GithubAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  OAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
 }));
 
 jest.mock('next/navigation', () => ({
   useRouter: () => ({
     push: mockPush,
-    replace: jest.fn(),
+    replace: mockReplace,
   }),
+  useSearchParams: () => mockSearchParams,
 }));
 
 jest.mock('@/lib/firebase', () => ({
   auth: {},
 }));
 
+jest.mock('@/lib/session-client', () => ({
+  ...jest.requireActual('@/lib/session-client'),
+  createServerSession: jest.fn().mockResolvedValue(undefined),
+  clearServerSession: jest.fn().mockResolvedValue(undefined),
+}));
+
+jest.mock('@/lib/audit-client', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+jest.mock('@/lib/login-attempts-client', () => ({
+  requestLoginAttempt: jest.fn().mockResolvedValue(0),
+}));
+
+const renderLogin = (locale: Locale = 'en') =>
+  render(<Login />, {
+    wrapper: ({ children }) => (
+      <LocaleProvider initialLocale={locale}>
+        <AuthProvider>{children}</AuthProvider>
+      </LocaleProvider>
+    ),
+  });
+
+// Switches to sign up and fills in every field with valid values
+const fillSignUpForm = async (
+  user: ReturnType<typeof userEvent.setup>,
+  { confirmPassword = 'Correct-Horse-42', acceptTerms = true } = {}
+) => {
+  await user.click(screen.getByTestId('toggle-auth-mode'));
+  await user.type(screen.getByTestId('display-name-input'), 'New User');
+  await user.type(screen.getByTestId('email-input'), 'new@example.com');
+  await user.type(screen.getByTestId('password-input'), 'Correct-Horse-42');
+  await user.type(screen.getByTestId('confirm-password-input'), confirmPassword);
+  if (acceptTerms) {
+    await user.click(screen.getByTestId('terms-checkbox'));
+  }
+};
+
 describe('Login Component', () => {
   beforeEach(() => {
     // Clear any previous state between tests
     jest.clearAllMocks();
     mockPush.mockClear();
+    mockSearchParams = new URLSearchParams();
   });
 
   describe('Rendering', () => {
     it('renders login form with all required elements', () => {
-      render(<Login />);
+      renderLogin();
 
       expect(screen.getByText('Welcome Back')).toBeInTheDocument();
       expect(screen.getByText('Sign in to your account')).toBeInTheDocument();
@@ -48,21 +136,21 @@ describe('Login Component', () => {
     });
 
     it('renders email and password labels', () => {
-      render(<Login />);
+      renderLogin();
 
       expect(screen.getByLabelText('Email Address')).toBeInTheDocument();
       expect(screen.getByLabelText('Password')).toBeInTheDocument();
     });
 
     it('renders sign up toggle', () => {
-      render(<Login />);
+      renderLogin();
 
       const signUpToggle = screen.getByTestId('toggle-auth-mode');
       expect(signUpToggle).toBeInTheDocument();
     });
 
     it('has correct initial input values', () => {
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
@@ -75,7 +163,7 @@ describe('Login Component', () => {
   describe('Input Handling', () => {
     it('updates email input value on change', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       
@@ -85,7 +173,7 @@ describe('Login Component', () => {
 
     it('updates password input value on change', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
       
@@ -95,7 +183,7 @@ describe('Login Component', () => {
 
     it('outputs both email and password on change', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
@@ -111,7 +199,7 @@ describe('Login Component', () => {
   describe('Form Validation', () => {
     it('shows email error when email is empty', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const submitButton = screen.getByTestId('submit-button');
       await user.click(submitButton);
@@ -123,7 +211,7 @@ describe('Login Component', () => {
 
     it('shows password error when password is empty', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const submitButton = screen.getByTestId('submit-button');
       await user.click(submitButton);
@@ -135,7 +223,7 @@ describe('Login Component', () => {
 
     it('shows email error for invalid email format', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
@@ -152,7 +240,7 @@ describe('Login Component', () => {
 
     it('shows password error when password is less than 6 characters', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
@@ -169,14 +257,14 @@ describe('Login Component', () => {
 
     it('clears error message when user starts typing', async () => {
       const user = userEvent.setup();
-      render(<Login />);
+      renderLogin();
 
       const submitButton = screen.getByTestId('submit-button');
       
       // Submit form to show errors
       await user.click(submitButton);
       
-      let emailError = screen.getByTestId('email-error');
+      const emailError = screen.getByTestId('email-error');
       expect(emailError).toBeInTheDocument();
 
       // Start typing to clear error
@@ -194,7 +282,7 @@ describe('Login Component', () => {
       const signInMock = signInWithEmailAndPassword as jest.Mock;
       const signUpMock = createUserWithEmailAndPassword as jest.Mock;
 
-      render(<Login />);
+      renderLogin();
 
       const submitButton = screen.getByTestId('submit-button');
       await user.click(submitButton);
@@ -208,7 +296,7 @@ describe('Login Component', () => {
       const signInMock = signInWithEmailAndPassword as jest.Mock;
       signInMock.mockResolvedValueOnce({ user: { uid: 'test-user' } });
 
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input');
       const passwordInput = screen.getByTestId('password-input');
@@ -231,7 +319,7 @@ describe('Login Component', () => {
       const user = userEvent.setup();
       const signInMock = signInWithEmailAndPassword as jest.Mock;
       signInMock.mockResolvedValueOnce({ user: { uid: 'test-user' } });
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input');
       const passwordInput = screen.getByTestId('password-input');
@@ -257,7 +345,7 @@ describe('Login Component', () => {
       const user = userEvent.setup();
       const signInMock = signInWithEmailAndPassword as jest.Mock;
       signInMock.mockResolvedValueOnce({ user: { uid: 'test-user' } });
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
@@ -273,6 +361,41 @@ describe('Login Component', () => {
       });
     });
 
+    it('creates a server session after successful sign in', async () => {
+      const user = userEvent.setup();
+      const signInMock = signInWithEmailAndPassword as jest.Mock;
+      const signedInUser = { uid: 'test-user' };
+      signInMock.mockResolvedValueOnce({ user: signedInUser });
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => {
+        expect(createServerSession).toHaveBeenCalledWith(signedInUser);
+      });
+    });
+
+    it('shows an error when the server session cannot be created', async () => {
+      const user = userEvent.setup();
+      const signInMock = signInWithEmailAndPassword as jest.Mock;
+      signInMock.mockResolvedValueOnce({ user: { uid: 'test-user' } });
+      (createServerSession as jest.Mock).mockRejectedValueOnce(
+        new Error('Could not start a session. Please try again.')
+      );
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      const authError = await screen.findByTestId('auth-error');
+      expect(authError).toHaveTextContent('Could not start a session. Please try again.');
+      expect(signOut).toHaveBeenCalled();
+      expect(screen.queryByTestId('redirect-buffer')).not.toBeInTheDocument();
+    });
+
     it('shows loading state while submitting', async () => {
       const user = userEvent.setup();
       const signInMock = signInWithEmailAndPassword as jest.Mock;
@@ -281,7 +404,7 @@ describe('Login Component', () => {
         resolveSignIn = resolve;
       });
       signInMock.mockReturnValueOnce(signInPromise);
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input');
       const passwordInput = screen.getByTestId('password-input');
@@ -305,24 +428,16 @@ describe('Login Component', () => {
       const signUpMock = createUserWithEmailAndPassword as jest.Mock;
       signUpMock.mockResolvedValueOnce({ user: { uid: 'new-user' } });
 
-      render(<Login />);
+      renderLogin();
 
-      const toggleButton = screen.getByTestId('toggle-auth-mode');
-      await user.click(toggleButton);
-
-      const emailInput = screen.getByTestId('email-input');
-      const passwordInput = screen.getByTestId('password-input');
-      const submitButton = screen.getByTestId('submit-button');
-
-      await user.type(emailInput, 'new@example.com');
-      await user.type(passwordInput, 'password123');
-      await user.click(submitButton);
+      await fillSignUpForm(user);
+      await user.click(screen.getByTestId('submit-button'));
 
       await waitFor(() => {
         expect(signUpMock).toHaveBeenCalledWith(
           expect.anything(),
           'new@example.com',
-          'password123'
+          'Correct-Horse-42'
         );
       });
 
@@ -330,12 +445,30 @@ describe('Login Component', () => {
       expect(successMessage).toHaveTextContent('Account created!');
     });
 
+    it('sends a verification email after sign up and redirects to verify it', async () => {
+      const user = userEvent.setup();
+      const newUser = { uid: 'new-user' };
+      (createUserWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({ user: newUser });
+
+      renderLogin();
+
+      await fillSignUpForm(user);
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => {
+        expect(sendEmailVerification).toHaveBeenCalledWith(newUser, expect.anything());
+      });
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/verify-email'), {
+        timeout: 2000,
+      });
+    });
+
     it('signs in with Google when Google button is clicked', async () => {
       const user = userEvent.setup();
       const googleSignInMock = signInWithPopup as jest.Mock;
       googleSignInMock.mockResolvedValueOnce({ user: { uid: 'google-user' } });
 
-      render(<Login />);
+      renderLogin();
 
       const googleButton = screen.getByTestId('google-signin-button');
       await user.click(googleButton);
@@ -346,25 +479,1043 @@ describe('Login Component', () => {
     });
   });
 
+  describe('Sign Up Form', () => {
+    it('shows the sign-up fields only in sign up mode', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      expect(screen.queryByTestId('display-name-input')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('confirm-password-input')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('terms-checkbox')).not.toBeInTheDocument();
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+
+      expect(screen.getByLabelText('Display Name')).toBeInTheDocument();
+      expect(screen.getByLabelText('Confirm Password')).toBeInTheDocument();
+      expect(screen.getByTestId('terms-checkbox')).not.toBeChecked();
+    });
+
+    it('requires every sign-up field', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('display-name-error')).toHaveTextContent(
+        'Display name is required'
+      );
+      expect(screen.getByTestId('email-error')).toHaveTextContent('Email is required');
+      expect(screen.getByTestId('password-error')).toHaveTextContent('Password is required');
+      expect(screen.getByTestId('confirm-password-error')).toHaveTextContent(
+        'Please confirm your password'
+      );
+      expect(screen.getByTestId('terms-error')).toHaveTextContent(
+        'You must accept the terms to create an account'
+      );
+      expect(createUserWithEmailAndPassword).not.toHaveBeenCalled();
+    });
+
+    it('rejects a confirmation that does not match', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await fillSignUpForm(user, { confirmPassword: 'Correct-Horse-43' });
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('confirm-password-error')).toHaveTextContent(
+        'Passwords do not match'
+      );
+      expect(createUserWithEmailAndPassword).not.toHaveBeenCalled();
+    });
+
+    it('requires accepting the terms', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await fillSignUpForm(user, { acceptTerms: false });
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('terms-error')).toBeInTheDocument();
+      expect(createUserWithEmailAndPassword).not.toHaveBeenCalled();
+
+      await user.click(screen.getByTestId('terms-checkbox'));
+      expect(screen.queryByTestId('terms-error')).not.toBeInTheDocument();
+    });
+
+    it('saves the display name on the new account', async () => {
+      const user = userEvent.setup();
+      const newUser = { uid: 'new-user' };
+      (createUserWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({ user: newUser });
+      renderLogin();
+
+      await fillSignUpForm(user);
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() =>
+        expect(updateProfile).toHaveBeenCalledWith(newUser, { displayName: 'New User' })
+      );
+      expect(await screen.findByTestId('success-message')).toHaveTextContent('Account created!');
+    });
+
+    it('still signs up when the display name cannot be saved', async () => {
+      const user = userEvent.setup();
+      (createUserWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'new-user' },
+      });
+      (updateProfile as jest.Mock).mockRejectedValueOnce(new Error('network'));
+      renderLogin();
+
+      await fillSignUpForm(user);
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(await screen.findByTestId('success-message')).toHaveTextContent('Account created!');
+    });
+
+    it('checks a filled-in field when the user leaves it', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+      await user.type(screen.getByTestId('password-input'), 'Correct-Horse-42');
+      await user.type(screen.getByTestId('confirm-password-input'), 'Correct-Horse');
+      await user.tab();
+
+      expect(screen.getByTestId('confirm-password-error')).toHaveTextContent(
+        'Passwords do not match'
+      );
+      // Empty fields are left alone until the form is submitted
+      expect(screen.queryByTestId('display-name-error')).not.toBeInTheDocument();
+    });
+
+    it('keeps the typed email when switching between modes', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'keep@example.com');
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+
+      expect(screen.getByTestId('email-input')).toHaveValue('keep@example.com');
+    });
+  });
+
+  describe('Password Policy', () => {
+    it('applies the password policy on sign up', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+      await user.type(screen.getByTestId('email-input'), 'new@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('password-error')).toHaveTextContent(
+        'Password must contain an uppercase letter'
+      );
+      expect(createUserWithEmailAndPassword).not.toHaveBeenCalled();
+    });
+
+    it('does not apply the password policy on sign in', async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'test-user' },
+      });
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => expect(signInWithEmailAndPassword).toHaveBeenCalled());
+      expect(screen.queryByTestId('password-error')).not.toBeInTheDocument();
+    });
+
+    it('shows the strength meter and checklist only in sign up mode', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      expect(screen.queryByTestId('password-strength')).not.toBeInTheDocument();
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+      await user.type(screen.getByTestId('password-input'), 'Correct-Horse-42');
+
+      expect(screen.getByTestId('password-strength-label')).toHaveTextContent('Strong');
+      expect(screen.getByTestId('password-rule-uppercase')).toHaveAttribute(
+        'data-passed',
+        'true'
+      );
+    });
+  });
+
+  describe('Keep Me Signed In', () => {
+    const originalDefault = process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT;
+
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    afterEach(() => {
+      if (originalDefault === undefined) {
+        delete process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT;
+      } else {
+        process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT = originalDefault;
+      }
+    });
+
+    it('keeps the sign-in to this browser session by default', async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'test-user' },
+      });
+      renderLogin();
+
+      expect(screen.getByTestId('remember-me-checkbox')).not.toBeChecked();
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => expect(signInWithEmailAndPassword).toHaveBeenCalled());
+      expect(setPersistence).toHaveBeenCalledWith(auth, browserSessionPersistence);
+      expect(window.localStorage.getItem('rememberMe')).toBe('false');
+    });
+
+    it('switches to local persistence before signing in when ticked', async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'test-user' },
+      });
+      renderLogin();
+
+      await user.click(screen.getByTestId('remember-me-checkbox'));
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => expect(signInWithEmailAndPassword).toHaveBeenCalled());
+      expect(setPersistence).toHaveBeenCalledWith(auth, browserLocalPersistence);
+      expect((setPersistence as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (signInWithEmailAndPassword as jest.Mock).mock.invocationCallOrder[0]
+      );
+      expect(window.localStorage.getItem('rememberMe')).toBe('true');
+    });
+
+    it('starts ticked when the configured default says so', () => {
+      process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT = 'true';
+      renderLogin();
+
+      expect(screen.getByTestId('remember-me-checkbox')).toBeChecked();
+    });
+
+    it('applies the choice to provider sign-in', async () => {
+      const user = userEvent.setup();
+      (signInWithPopup as jest.Mock).mockResolvedValueOnce({ user: { uid: 'google-user' } });
+      renderLogin();
+
+      await user.click(screen.getByTestId('remember-me-checkbox'));
+      await user.click(screen.getByTestId('google-signin-button'));
+
+      await waitFor(() => expect(signInWithPopup).toHaveBeenCalled());
+      expect(setPersistence).toHaveBeenCalledWith(auth, browserLocalPersistence);
+    });
+  });
+
+  describe('Auth Errors', () => {
+    const submitSignIn = async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+    };
+
+    it('shows a friendly banner instead of the raw Firebase message', async () => {
+      (signInWithEmailAndPassword as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/invalid-credential',
+        message: 'Firebase: Error (auth/invalid-credential).',
+      });
+
+      await submitSignIn();
+
+      const authError = await screen.findByTestId('auth-error');
+      expect(authError).toHaveTextContent('Incorrect email or password.');
+      expect(authError).not.toHaveTextContent('Firebase');
+    });
+
+    it('shows field-specific errors under the matching field', async () => {
+      (signInWithEmailAndPassword as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/wrong-password',
+        message: 'Firebase: Error (auth/wrong-password).',
+      });
+
+      await submitSignIn();
+
+      expect(await screen.findByTestId('password-error')).toHaveTextContent(
+        'Incorrect password'
+      );
+      expect(screen.queryByTestId('auth-error')).not.toBeInTheDocument();
+    });
+
+    it('translates Google sign-in errors', async () => {
+      const user = userEvent.setup();
+      (signInWithPopup as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/popup-closed-by-user',
+        message: 'Firebase: Error (auth/popup-closed-by-user).',
+      });
+      renderLogin();
+
+      await user.click(screen.getByTestId('google-signin-button'));
+
+      expect(await screen.findByTestId('auth-error')).toHaveTextContent(
+        'The sign-in popup was closed before finishing.'
+      );
+    });
+  });
+
+  describe('Login Throttling', () => {
+    const wrongPassword = {
+      code: 'auth/wrong-password',
+      message: 'Firebase: Error (auth/wrong-password).',
+    };
+
+    it('asks the server before every password sign-in', async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'user-1', email: 'test@example.com' },
+      });
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => expect(signInWithEmailAndPassword).toHaveBeenCalled());
+      expect(requestLoginAttempt).toHaveBeenCalledWith('test@example.com');
+    });
+
+    it('shows a lockout countdown instead of signing in', async () => {
+      const user = userEvent.setup();
+      (requestLoginAttempt as jest.Mock).mockResolvedValueOnce(900);
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(await screen.findByTestId('login-lockout')).toHaveTextContent('try again in 15:00');
+      expect(screen.getByTestId('submit-button')).toBeDisabled();
+      expect(signInWithEmailAndPassword).not.toHaveBeenCalled();
+    });
+
+    it('backs off after repeated wrong passwords', async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock)
+        .mockRejectedValueOnce(wrongPassword)
+        .mockRejectedValueOnce(wrongPassword)
+        .mockRejectedValueOnce(wrongPassword);
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+      await screen.findByTestId('password-error');
+      expect(screen.getByTestId('submit-button')).not.toBeDisabled();
+
+      await user.click(screen.getByTestId('submit-button'));
+      await waitFor(() => expect(signInWithEmailAndPassword).toHaveBeenCalledTimes(2));
+      await waitFor(() => expect(screen.getByTestId('submit-button')).not.toBeDisabled());
+
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() =>
+        expect(screen.getByTestId('submit-button')).toHaveTextContent('Try again in 0:02')
+      );
+      expect(screen.getByTestId('submit-button')).toBeDisabled();
+      expect(screen.queryByTestId('login-lockout')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Audit Log', () => {
+    const submitSignIn = async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+    };
+
+    it('records successful password sign-ins with the signed-in user', async () => {
+      const signedInUser = { uid: 'user-1', email: 'test@example.com' };
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({ user: signedInUser });
+
+      await submitSignIn();
+
+      await waitFor(() =>
+        expect(logAuditEvent).toHaveBeenCalledWith(
+          { type: 'sign_in', provider: 'password' },
+          signedInUser
+        )
+      );
+    });
+
+    it('records failed sign-ins with the typed email and error code', async () => {
+      (signInWithEmailAndPassword as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/invalid-credential',
+        message: 'Firebase: Error (auth/invalid-credential).',
+      });
+
+      await submitSignIn();
+
+      await waitFor(() =>
+        expect(logAuditEvent).toHaveBeenCalledWith({
+          type: 'sign_in_failed',
+          provider: 'password',
+          email: 'test@example.com',
+          details: { errorCode: 'auth/invalid-credential' },
+        })
+      );
+    });
+  });
+
+  describe('Email Link Sign In', () => {
+    beforeEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('hides the password field in email link mode', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-email-link'));
+
+      expect(screen.queryByTestId('password-input')).not.toBeInTheDocument();
+      expect(screen.getByTestId('submit-button')).toHaveTextContent('Email Me a Link');
+    });
+
+    it('sends a sign-in link and remembers the address', async () => {
+      const user = userEvent.setup();
+      (sendSignInLinkToEmail as jest.Mock).mockResolvedValueOnce(undefined);
+      mockSearchParams = new URLSearchParams({ returnTo: '/dashboard/profile' });
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-email-link'));
+      await user.type(screen.getByTestId('email-input'), 'link@example.com');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => {
+        expect(sendSignInLinkToEmail).toHaveBeenCalledWith(
+          expect.anything(),
+          'link@example.com',
+          expect.objectContaining({
+            handleCodeInApp: true,
+            url: expect.stringContaining('/login/finish?returnTo=%2Fdashboard%2Fprofile'),
+          })
+        );
+      });
+      expect(window.localStorage.getItem('emailForSignIn')).toBe('link@example.com');
+      expect(await screen.findByTestId('success-message')).toHaveTextContent(
+        'We sent a sign-in link to link@example.com.'
+      );
+      expect(signInWithEmailAndPassword).not.toHaveBeenCalled();
+    });
+
+    it('still validates the email address', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-email-link'));
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('email-error')).toHaveTextContent('Email is required');
+      expect(sendSignInLinkToEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Forgot Password', () => {
+    it('asks for an email before sending a reset link', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('forgot-password-button'));
+
+      expect(screen.getByTestId('email-error')).toHaveTextContent('Email is required');
+      expect(sendPasswordResetEmail).not.toHaveBeenCalled();
+    });
+
+    it('sends a password reset email to the entered address', async () => {
+      const user = userEvent.setup();
+      (sendPasswordResetEmail as jest.Mock).mockResolvedValueOnce(undefined);
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.click(screen.getByTestId('forgot-password-button'));
+
+      await waitFor(() => {
+        expect(sendPasswordResetEmail).toHaveBeenCalledWith(
+          expect.anything(),
+          'test@example.com',
+          expect.objectContaining({ url: expect.stringContaining('/login') })
+        );
+      });
+      expect(await screen.findByTestId('success-message')).toHaveTextContent(
+        'Password reset email sent. Check your inbox.'
+      );
+    });
+
+    it('is hidden in sign up mode', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+
+      expect(screen.queryByTestId('forgot-password-button')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Redirects', () => {
+    const signIn = async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'test-user' },
+      });
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'test@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+    };
+
+    it('explains a sign-out caused by inactivity', () => {
+      mockSearchParams = new URLSearchParams({ reason: 'idle' });
+      renderLogin();
+
+      expect(screen.getByTestId('signout-reason')).toHaveTextContent(
+        'You were signed out after a period of inactivity.'
+      );
+    });
+
+    it('shows no sign-out reason on a normal visit', () => {
+      renderLogin();
+
+      expect(screen.queryByTestId('signout-reason')).not.toBeInTheDocument();
+    });
+
+    it('redirects to the dashboard by default', async () => {
+      await signIn();
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/dashboard'), {
+        timeout: 2000,
+      });
+    });
+
+    it('redirects to the returnTo target after sign in', async () => {
+      mockSearchParams = new URLSearchParams({ returnTo: '/dashboard/settings?tab=1' });
+      await signIn();
+
+      await waitFor(
+        () => expect(mockPush).toHaveBeenCalledWith('/dashboard/settings?tab=1'),
+        { timeout: 2000 }
+      );
+    });
+
+    it('ignores returnTo targets on other origins', async () => {
+      mockSearchParams = new URLSearchParams({ returnTo: '//evil.example.com' });
+      await signIn();
+
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/dashboard'), {
+        timeout: 2000,
+      });
+    });
+  });
+
+  describe('Existing Session', () => {
+    it('redirects users who are already signed in', async () => {
+      const signedInUser = {
+        uid: 'test-user',
+        getIdTokenResult: jest.fn().mockResolvedValue({ claims: {} }),
+      };
+      (onIdTokenChanged as jest.Mock).mockImplementationOnce((_auth, callback) => {
+        callback(signedInUser);
+        return jest.fn();
+      });
+      mockSearchParams = new URLSearchParams({ returnTo: '/dashboard/profile' });
+
+      renderLogin();
+
+      await waitFor(() => {
+        expect(mockReplace).toHaveBeenCalledWith('/dashboard/profile');
+      });
+      expect(createServerSession).toHaveBeenCalledWith(signedInUser);
+    });
+
+    it('signs out a device whose session was ended elsewhere', async () => {
+      const signedInUser = {
+        uid: 'test-user',
+        getIdTokenResult: jest.fn().mockResolvedValue({ claims: {} }),
+      };
+      (onIdTokenChanged as jest.Mock).mockImplementationOnce((_auth, callback) => {
+        callback(signedInUser);
+        (signOut as jest.Mock).mockImplementationOnce(async () => callback(null));
+        return jest.fn();
+      });
+      (createServerSession as jest.Mock).mockRejectedValueOnce(new SessionRevokedError());
+
+      renderLogin();
+
+      await waitFor(() => expect(signOut).toHaveBeenCalled());
+      expect(
+        await screen.findByText(
+          'This device was signed out from another device. Sign in again to continue.'
+        )
+      ).toBeInTheDocument();
+      expect(mockReplace).not.toHaveBeenCalled();
+    });
+
+    it('does not redirect signed-out visitors', async () => {
+      (onIdTokenChanged as jest.Mock).mockImplementationOnce((_auth, callback) => {
+        callback(null);
+        return jest.fn();
+      });
+
+      renderLogin();
+
+      await screen.findByTestId('submit-button');
+      expect(mockReplace).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('OAuth Providers', () => {
+    const originalProviders = process.env.NEXT_PUBLIC_AUTH_PROVIDERS;
+
+    afterEach(() => {
+      if (originalProviders === undefined) {
+        delete process.env.NEXT_PUBLIC_AUTH_PROVIDERS;
+      } else {
+        process.env.NEXT_PUBLIC_AUTH_PROVIDERS = originalProviders;
+      }
+    });
+
+    it('renders one button per enabled provider', () => {
+      process.env.NEXT_PUBLIC_AUTH_PROVIDERS = 'github,google';
+      renderLogin();
+
+      expect(screen.getByTestId('github-signin-button')).toHaveTextContent('Continue with GitHub');
+      expect(screen.getByTestId('google-signin-button')).toHaveTextContent('Continue with Google');
+      expect(screen.queryByTestId('microsoft-signin-button')).not.toBeInTheDocument();
+    });
+
+    it('shows the loading state only on the provider being used', async () => {
+      process.env.NEXT_PUBLIC_AUTH_PROVIDERS = 'google,github';
+      const user = userEvent.setup();
+      (signInWithPopup as jest.Mock).mockReturnValueOnce(new Promise(() => {}));
+      renderLogin();
+
+      await user.click(screen.getByTestId('github-signin-button'));
+
+      expect(screen.getByTestId('github-signin-button')).toHaveTextContent(
+        'Signing in with GitHub...'
+      );
+      expect(screen.getByTestId('google-signin-button')).toHaveTextContent(
+        'Continue with Google'
+      );
+      expect(screen.getByTestId('google-signin-button')).toBeDisabled();
+      expect(screen.getByTestId('submit-button')).toBeDisabled();
+    });
+  });
+
+  describe('Redirect Sign In', () => {
+    const originalFlow = process.env.NEXT_PUBLIC_AUTH_SIGN_IN_FLOW;
+
+    beforeEach(() => {
+      window.sessionStorage.clear();
+    });
+
+    afterEach(() => {
+      if (originalFlow === undefined) {
+        delete process.env.NEXT_PUBLIC_AUTH_SIGN_IN_FLOW;
+      } else {
+        process.env.NEXT_PUBLIC_AUTH_SIGN_IN_FLOW = originalFlow;
+      }
+    });
+
+    it('falls back to a redirect when the popup is blocked', async () => {
+      const user = userEvent.setup();
+      (signInWithPopup as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/popup-blocked',
+        message: 'Firebase: Error (auth/popup-blocked).',
+      });
+      renderLogin();
+
+      await user.click(screen.getByTestId('google-signin-button'));
+
+      await waitFor(() => {
+        expect(signInWithRedirect).toHaveBeenCalledWith(auth, expect.anything());
+      });
+      expect(window.sessionStorage.getItem('redirectSignInProvider')).toBe('google');
+      expect(screen.queryByTestId('auth-error')).not.toBeInTheDocument();
+    });
+
+    it('does not redirect when the user closes the popup', async () => {
+      const user = userEvent.setup();
+      (signInWithPopup as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/popup-closed-by-user',
+        message: 'Firebase: Error (auth/popup-closed-by-user).',
+      });
+      renderLogin();
+
+      await user.click(screen.getByTestId('google-signin-button'));
+
+      expect(await screen.findByTestId('auth-error')).toBeInTheDocument();
+      expect(signInWithRedirect).not.toHaveBeenCalled();
+    });
+
+    it('skips the popup when redirect mode is forced', async () => {
+      process.env.NEXT_PUBLIC_AUTH_SIGN_IN_FLOW = 'redirect';
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('google-signin-button'));
+
+      await waitFor(() => expect(signInWithRedirect).toHaveBeenCalled());
+      expect(signInWithPopup).not.toHaveBeenCalled();
+    });
+
+    it('finishes the sign-in when the browser comes back', async () => {
+      mockSearchParams = new URLSearchParams({ returnTo: '/admin' });
+      window.sessionStorage.setItem('redirectSignInProvider', 'google');
+      const googleUser = { uid: 'google-user' };
+      (getRedirectResult as jest.Mock).mockResolvedValueOnce({ user: googleUser });
+      renderLogin();
+
+      expect(await screen.findByTestId('success-message')).toHaveTextContent(
+        'Login successful!'
+      );
+      expect(screen.getByTestId('redirect-buffer')).toBeInTheDocument();
+      expect(createServerSession).toHaveBeenCalledWith(googleUser);
+      expect(logAuditEvent).toHaveBeenCalledWith(
+        { type: 'sign_in', provider: 'google.com' },
+        googleUser
+      );
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/admin'), { timeout: 2000 });
+      expect(window.sessionStorage.getItem('redirectSignInProvider')).toBeNull();
+    });
+
+    it('shows errors from the redirect result', async () => {
+      window.sessionStorage.setItem('redirectSignInProvider', 'google');
+      (getRedirectResult as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/user-disabled',
+        message: 'Firebase: Error (auth/user-disabled).',
+      });
+      renderLogin();
+
+      expect(await screen.findByTestId('auth-error')).toHaveTextContent(
+        'This account has been disabled.'
+      );
+    });
+
+    it('only looks for a result after starting a redirect', async () => {
+      renderLogin();
+
+      await screen.findByTestId('submit-button');
+      expect(getRedirectResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Phone Sign In', () => {
+    const originalProviders = process.env.NEXT_PUBLIC_AUTH_PROVIDERS;
+
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_AUTH_PROVIDERS = 'google,phone';
+    });
+
+    afterEach(() => {
+      if (originalProviders === undefined) {
+        delete process.env.NEXT_PUBLIC_AUTH_PROVIDERS;
+      } else {
+        process.env.NEXT_PUBLIC_AUTH_PROVIDERS = originalProviders;
+      }
+    });
+
+    it('hides the phone tab unless phone sign-in is enabled', () => {
+      process.env.NEXT_PUBLIC_AUTH_PROVIDERS = 'google';
+      renderLogin();
+
+      expect(screen.queryByTestId('phone-tab')).not.toBeInTheDocument();
+    });
+
+    it('switches to the phone form', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.click(screen.getByTestId('phone-tab'));
+
+      expect(screen.getByTestId('phone-input')).toBeInTheDocument();
+      expect(screen.queryByTestId('email-input')).not.toBeInTheDocument();
+      expect(screen.getByText("We'll text you a code to sign in")).toBeInTheDocument();
+    });
+
+    it('signs in with the SMS code and redirects', async () => {
+      const user = userEvent.setup();
+      const mockUser = { uid: 'phone-user', phoneNumber: '+15551234567' };
+      const confirm = jest.fn().mockResolvedValue({ user: mockUser });
+      (signInWithPhoneNumber as jest.Mock).mockResolvedValueOnce({ confirm });
+      renderLogin();
+
+      await user.click(screen.getByTestId('phone-tab'));
+      await user.type(screen.getByTestId('phone-input'), '+1 555 123 4567');
+      await user.click(screen.getByTestId('send-code-button'));
+      await user.type(await screen.findByTestId('sms-code-input'), '123456');
+      await user.click(screen.getByTestId('verify-code-button'));
+
+      expect(signInWithPhoneNumber).toHaveBeenCalledWith(
+        expect.anything(),
+        '+15551234567',
+        expect.anything()
+      );
+      expect(confirm).toHaveBeenCalledWith('123456');
+      expect(createServerSession).toHaveBeenCalledWith(mockUser);
+      expect(await screen.findByTestId('redirect-buffer')).toBeInTheDocument();
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/dashboard'), {
+        timeout: 2000,
+      });
+    });
+
+    it('keeps the code step open when the code is wrong', async () => {
+      const user = userEvent.setup();
+      const confirm = jest.fn().mockRejectedValue({ code: 'auth/invalid-verification-code' });
+      (signInWithPhoneNumber as jest.Mock).mockResolvedValueOnce({ confirm });
+      renderLogin();
+
+      await user.click(screen.getByTestId('phone-tab'));
+      await user.type(screen.getByTestId('phone-input'), '+15551234567');
+      await user.click(screen.getByTestId('send-code-button'));
+      await user.type(await screen.findByTestId('sms-code-input'), '000000');
+      await user.click(screen.getByTestId('verify-code-button'));
+
+      expect(await screen.findByTestId('sms-code-error')).toHaveTextContent(
+        'That code is incorrect'
+      );
+      expect(screen.queryByTestId('redirect-buffer')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Account Linking', () => {
+    const pendingCredential = { providerId: 'google.com' };
+
+    const triggerExistingAccount = async (user: ReturnType<typeof userEvent.setup>) => {
+      (signInWithPopup as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/account-exists-with-different-credential',
+        customData: { email: 'existing@example.com' },
+      });
+      (GoogleAuthProvider.credentialFromError as jest.Mock).mockReturnValueOnce(
+        pendingCredential
+      );
+
+      await user.click(screen.getByTestId('google-signin-button'));
+      await screen.findByTestId('link-account-prompt');
+    };
+
+    it('asks the user to sign in with their existing method', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await triggerExistingAccount(user);
+
+      expect(screen.getByTestId('link-account-prompt')).toHaveTextContent(
+        'An account already exists for existing@example.com'
+      );
+      expect((screen.getByTestId('email-input') as HTMLInputElement).value).toBe(
+        'existing@example.com'
+      );
+      expect(screen.queryByTestId('auth-error')).not.toBeInTheDocument();
+    });
+
+    it('links the pending credential after signing in with a password', async () => {
+      const user = userEvent.setup();
+      const existingUser = { uid: 'existing-user' };
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({ user: existingUser });
+      (linkWithCredential as jest.Mock).mockResolvedValueOnce({ user: existingUser });
+      renderLogin();
+
+      await triggerExistingAccount(user);
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await waitFor(() => {
+        expect(linkWithCredential).toHaveBeenCalledWith(existingUser, pendingCredential);
+      });
+      expect(await screen.findByTestId('success-message')).toHaveTextContent(
+        'Google is now connected to your account.'
+      );
+      expect(screen.queryByTestId('link-account-prompt')).not.toBeInTheDocument();
+    });
+
+    it('does not link anything once the prompt is cancelled', async () => {
+      const user = userEvent.setup();
+      (signInWithEmailAndPassword as jest.Mock).mockResolvedValueOnce({
+        user: { uid: 'existing-user' },
+      });
+      renderLogin();
+
+      await triggerExistingAccount(user);
+      await user.click(screen.getByTestId('cancel-link-button'));
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+
+      await screen.findByTestId('success-message');
+      expect(linkWithCredential).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Multi-Factor Authentication', () => {
+    const resolveSignIn = jest.fn();
+    const resolver = {
+      hints: [{ uid: 'factor-1', factorId: 'totp', displayName: 'Phone app' }],
+      resolveSignIn,
+    };
+
+    const signInWithSecondFactor = async (user: ReturnType<typeof userEvent.setup>) => {
+      (signInWithEmailAndPassword as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/multi-factor-auth-required',
+      });
+      (getMultiFactorResolver as jest.Mock).mockReturnValueOnce(resolver);
+      renderLogin();
+
+      await user.type(screen.getByTestId('email-input'), 'staff@example.com');
+      await user.type(screen.getByTestId('password-input'), 'password123');
+      await user.click(screen.getByTestId('submit-button'));
+      await screen.findByTestId('mfa-challenge');
+    };
+
+    it('asks for an authenticator code when a second factor is required', async () => {
+      const user = userEvent.setup();
+      await signInWithSecondFactor(user);
+
+      expect(screen.getByText(/"Phone app"/)).toBeInTheDocument();
+      expect(screen.queryByTestId('email-input')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('auth-error')).not.toBeInTheDocument();
+    });
+
+    it('validates the code format before verifying', async () => {
+      const user = userEvent.setup();
+      await signInWithSecondFactor(user);
+
+      await user.type(screen.getByTestId('mfa-code-input'), '123');
+      await user.click(screen.getByTestId('mfa-submit-button'));
+
+      expect(screen.getByTestId('mfa-code-error')).toHaveTextContent(
+        'Enter the 6-digit code from your authenticator app'
+      );
+      expect(resolveSignIn).not.toHaveBeenCalled();
+    });
+
+    it('shows an error for an incorrect code', async () => {
+      const user = userEvent.setup();
+      resolveSignIn.mockRejectedValueOnce({ code: 'auth/invalid-verification-code' });
+      await signInWithSecondFactor(user);
+
+      await user.type(screen.getByTestId('mfa-code-input'), '000000');
+      await user.click(screen.getByTestId('mfa-submit-button'));
+
+      expect(await screen.findByTestId('mfa-code-error')).toHaveTextContent(
+        'That code is incorrect. Please try again.'
+      );
+    });
+
+    it('completes sign in and continues to the redirect buffer', async () => {
+      const user = userEvent.setup();
+      const staffUser = { uid: 'staff-user' };
+      resolveSignIn.mockResolvedValueOnce({ user: staffUser });
+      await signInWithSecondFactor(user);
+
+      await user.type(screen.getByTestId('mfa-code-input'), '123456');
+      await user.click(screen.getByTestId('mfa-submit-button'));
+
+      expect(resolveSignIn).toHaveBeenCalledWith({ uid: 'factor-1', code: '123456' });
+      expect(await screen.findByTestId('redirect-buffer')).toBeInTheDocument();
+      expect(createServerSession).toHaveBeenCalledWith(staffUser);
+      await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/dashboard'), {
+        timeout: 2000,
+      });
+    });
+  });
+
   describe('Button Behavior', () => {
     it('submit button is enabled initially', () => {
-      render(<Login />);
+      renderLogin();
 
       const submitButton = screen.getByTestId('submit-button') as HTMLButtonElement;
       expect(submitButton).not.toBeDisabled();
     });
 
     it('submit button shows correct text', () => {
-      render(<Login />);
+      renderLogin();
 
       const submitButton = screen.getByTestId('submit-button');
       expect(submitButton).toHaveTextContent('Sign In');
     });
   });
 
+  describe('Internationalization', () => {
+    afterEach(() => {
+      document.cookie = 'locale=; max-age=0; path=/';
+    });
+
+    it('renders in the initial locale', () => {
+      renderLogin('id');
+
+      expect(screen.getByText('Selamat Datang Kembali')).toBeInTheDocument();
+      expect(screen.getByTestId('submit-button')).toHaveTextContent('Masuk');
+      expect(screen.getByLabelText('Alamat Email')).toBeInTheDocument();
+    });
+
+    it('shows validation messages in the active locale', async () => {
+      const user = userEvent.setup();
+      renderLogin('id');
+
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('email-error')).toHaveTextContent('Email wajib diisi');
+      expect(screen.getByTestId('password-error')).toHaveTextContent('Kata sandi wajib diisi');
+    });
+
+    it('translates password policy messages on sign up', async () => {
+      const user = userEvent.setup();
+      renderLogin('id');
+
+      await user.click(screen.getByTestId('toggle-auth-mode'));
+      await user.type(screen.getByTestId('email-input'), 'new@example.com');
+      await user.type(screen.getByTestId('password-input'), 'Ab1');
+      await user.click(screen.getByTestId('submit-button'));
+
+      expect(screen.getByTestId('password-error')).toHaveTextContent(
+        'Kata sandi minimal 8 karakter'
+      );
+    });
+
+    it('sends Firebase emails in the active locale', () => {
+      renderLogin('id');
+
+      expect(auth.languageCode).toBe('id');
+    });
+
+    it('switches and remembers the locale', async () => {
+      const user = userEvent.setup();
+      renderLogin();
+
+      await user.selectOptions(screen.getByTestId('locale-select'), 'id');
+
+      expect(screen.getByText('Selamat Datang Kembali')).toBeInTheDocument();
+      expect(document.cookie).toContain('locale=id');
+      expect(document.documentElement.lang).toBe('id');
+      expect(auth.languageCode).toBe('id');
+    });
+  });
+
   describe('Accessibility', () => {
     it('has proper form labels associated with inputs', () => {
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByLabelText('Email Address');
       const passwordInput = screen.getByLabelText('Password');
@@ -374,21 +1525,21 @@ describe('Login Component', () => {
     });
 
     it('email input has correct type attribute', () => {
-      render(<Login />);
+      renderLogin();
 
       const emailInput = screen.getByTestId('email-input') as HTMLInputElement;
       expect(emailInput.type).toBe('email');
     });
 
     it('password input has correct type attribute', () => {
-      render(<Login />);
+      renderLogin();
 
       const passwordInput = screen.getByTestId('password-input') as HTMLInputElement;
       expect(passwordInput.type).toBe('password');
     });
 
     it('form has novalidate attribute for custom validation', () => {
-      const { container } = render(<Login />);
+      const { container } = renderLogin();
 
       const form = container.querySelector('form');
       expect(form).toHaveAttribute('novalidate');
@@ -0,0 +1,106 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { User } from 'firebase/auth';
+import { multiFactor, TotpMultiFactorGenerator } from 'firebase/auth';
+import MfaSettings from '../MfaSettings';
+import { LocaleProvider } from '../LocaleProvider';
+
+jest.mock('firebase/auth', () => ({
+  multiFactor: jest.fn(),
+  TotpMultiFactorGenerator: {
+    FACTOR_ID: 'totp',
+    generateSecret: jest.fn(),
+    assertionForEnrollment: jest.fn(() => ({ type: 'enrollment-assertion' })),
+  },
+}));
+
+const user = { uid: 'staff-user', email: 'staff@example.com' } as User;
+const secret = {
+  secretKey: 'JBSWY3DPEHPK3PXP',
+  generateQrCodeUrl: jest.fn(() => 'otpauth://totp/WADS%20Lab:staff@example.com'),
+};
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('MfaSettings Component', () => {
+  let enrolledFactors: { uid: string; displayName: string; enrollmentTime: string }[];
+  const multiFactorUser = {
+    getSession: jest.fn().mockResolvedValue({ session: 'mfa-session' }),
+    enroll: jest.fn(),
+    unenroll: jest.fn(),
+    get enrolledFactors() {
+      return enrolledFactors;
+    },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    enrolledFactors = [];
+    (multiFactor as jest.Mock).mockReturnValue(multiFactorUser);
+    (TotpMultiFactorGenerator.generateSecret as jest.Mock).mockResolvedValue(secret);
+  });
+
+  it('shows the QR code and secret when enrollment starts', async () => {
+    const userEvents = userEvent.setup();
+    render(<MfaSettings user={user} />, { wrapper });
+
+    await userEvents.click(screen.getByTestId('mfa-enroll-button'));
+
+    expect(await screen.findByTestId('mfa-secret')).toHaveTextContent('JBSWY3DPEHPK3PXP');
+    expect(screen.getByTestId('mfa-qr-code').querySelector('svg')).toBeInTheDocument();
+    expect(secret.generateQrCodeUrl).toHaveBeenCalledWith('staff@example.com', 'WADS Lab');
+  });
+
+  it('enrolls the authenticator once the code is confirmed', async () => {
+    const userEvents = userEvent.setup();
+    multiFactorUser.enroll.mockImplementationOnce(async () => {
+      enrolledFactors = [
+        { uid: 'factor-1', displayName: 'Authenticator app', enrollmentTime: '2026-01-01' },
+      ];
+    });
+    render(<MfaSettings user={user} />, { wrapper });
+
+    await userEvents.click(screen.getByTestId('mfa-enroll-button'));
+    await userEvents.type(await screen.findByTestId('mfa-enroll-code-input'), '123456');
+    await userEvents.click(screen.getByTestId('mfa-confirm-button'));
+
+    expect(TotpMultiFactorGenerator.assertionForEnrollment).toHaveBeenCalledWith(
+      secret,
+      '123456'
+    );
+    expect(multiFactorUser.enroll).toHaveBeenCalledWith(
+      { type: 'enrollment-assertion' },
+      'Authenticator app'
+    );
+    expect(await screen.findByTestId('mfa-message')).toHaveTextContent(
+      'Two-step verification is on.'
+    );
+    expect(screen.getByTestId('mfa-factor-list')).toHaveTextContent('Authenticator app');
+  });
+
+  it('removes an enrolled factor', async () => {
+    const userEvents = userEvent.setup();
+    enrolledFactors = [
+      { uid: 'factor-1', displayName: 'Phone app', enrollmentTime: '2026-01-01' },
+    ];
+    multiFactorUser.unenroll.mockImplementationOnce(async () => {
+      enrolledFactors = [];
+    });
+    render(<MfaSettings user={user} />, { wrapper });
+
+    await userEvents.click(screen.getByTestId('remove-factor-factor-1'));
+
+    expect(multiFactorUser.unenroll).toHaveBeenCalledWith(
+      expect.objectContaining({ uid: 'factor-1' })
+    );
+    expect(await screen.findByTestId('mfa-message')).toHaveTextContent('Phone app removed.');
+    expect(screen.queryByTestId('mfa-factor-list')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,128 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { RecaptchaVerifier } from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import PhoneVerification from '../PhoneVerification';
+import { LocaleProvider } from '../LocaleProvider';
+
+const mockClear = jest.fn();
+
+jest.mock('firebase/auth', () => ({
+  RecaptchaVerifier: jest.fn(() => ({ clear: mockClear })),
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+const mockConfirmation = { verificationId: 'verification-1', confirm: jest.fn() };
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('PhoneVerification Component', () => {
+  const sendCode = jest.fn();
+  const onConfirm = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const renderPhoneVerification = () =>
+    render(<PhoneVerification sendCode={sendCode} onConfirm={onConfirm} />, { wrapper });
+
+  it('requires a phone number in international format', async () => {
+    const user = userEvent.setup();
+    renderPhoneVerification();
+
+    await user.click(screen.getByTestId('send-code-button'));
+    expect(screen.getByTestId('phone-error')).toHaveTextContent('Phone number is required');
+
+    await user.type(screen.getByTestId('phone-input'), '555 123 4567');
+    await user.click(screen.getByTestId('send-code-button'));
+    expect(screen.getByTestId('phone-error')).toHaveTextContent('international format');
+    expect(sendCode).not.toHaveBeenCalled();
+  });
+
+  it('sends the normalized number with an invisible reCAPTCHA', async () => {
+    const user = userEvent.setup();
+    sendCode.mockResolvedValueOnce(mockConfirmation);
+    renderPhoneVerification();
+
+    await user.type(screen.getByTestId('phone-input'), '+1 (555) 123-4567');
+    await user.click(screen.getByTestId('send-code-button'));
+
+    expect(RecaptchaVerifier).toHaveBeenCalledWith(auth, expect.any(HTMLElement), {
+      size: 'invisible',
+    });
+    expect(sendCode).toHaveBeenCalledWith('+15551234567', expect.anything());
+    expect(await screen.findByTestId('sms-code-input')).toBeInTheDocument();
+    expect(screen.getByText(/we sent to \+15551234567/)).toBeInTheDocument();
+  });
+
+  it('shows friendly errors and resets the reCAPTCHA when sending fails', async () => {
+    const user = userEvent.setup();
+    sendCode.mockRejectedValueOnce({ code: 'auth/too-many-requests' });
+    renderPhoneVerification();
+
+    await user.type(screen.getByTestId('phone-input'), '+15551234567');
+    await user.click(screen.getByTestId('send-code-button'));
+
+    expect(await screen.findByTestId('phone-error')).toHaveTextContent('Too many attempts');
+    expect(mockClear).toHaveBeenCalled();
+  });
+
+  it('confirms the 6-digit code', async () => {
+    const user = userEvent.setup();
+    sendCode.mockResolvedValueOnce(mockConfirmation);
+    onConfirm.mockResolvedValueOnce(undefined);
+    renderPhoneVerification();
+
+    await user.type(screen.getByTestId('phone-input'), '+15551234567');
+    await user.click(screen.getByTestId('send-code-button'));
+    await user.click(await screen.findByTestId('verify-code-button'));
+    expect(screen.getByTestId('sms-code-error')).toHaveTextContent('Enter the 6-digit code');
+
+    await user.type(screen.getByTestId('sms-code-input'), '123456');
+    await user.click(screen.getByTestId('verify-code-button'));
+
+    expect(onConfirm).toHaveBeenCalledWith(mockConfirmation, '123456');
+  });
+
+  it('lets the user retry a wrong code', async () => {
+    const user = userEvent.setup();
+    sendCode.mockResolvedValueOnce(mockConfirmation);
+    onConfirm.mockRejectedValueOnce({ code: 'auth/invalid-verification-code' });
+    renderPhoneVerification();
+
+    await user.type(screen.getByTestId('phone-input'), '+15551234567');
+    await user.click(screen.getByTestId('send-code-button'));
+    await user.type(await screen.findByTestId('sms-code-input'), '000000');
+    await user.click(screen.getByTestId('verify-code-button'));
+
+    expect(await screen.findByTestId('sms-code-error')).toHaveTextContent(
+      'That code is incorrect'
+    );
+    await waitFor(() => expect(screen.getByTestId('sms-code-input')).toHaveValue(''));
+  });
+
+  it('follows the chosen language', async () => {
+    const user = userEvent.setup();
+    sendCode.mockRejectedValueOnce({ code: 'auth/too-many-requests' });
+    render(<PhoneVerification sendCode={sendCode} onConfirm={onConfirm} />, {
+      wrapper: ({ children }) => <LocaleProvider initialLocale="id">{children}</LocaleProvider>,
+    });
+
+    expect(screen.getByTestId('send-code-button')).toHaveTextContent('Kirim Kode');
+    await user.click(screen.getByTestId('send-code-button'));
+    expect(screen.getByTestId('phone-error')).toHaveTextContent('Nomor telepon wajib diisi');
+
+    await user.type(screen.getByTestId('phone-input'), '+628123456789');
+    await user.click(screen.getByTestId('send-code-button'));
+    expect(await screen.findByTestId('phone-error')).toHaveTextContent(
+      'Terlalu banyak percobaan'
+    );
+  });
+});
@@ -0,0 +1,198 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { User } from 'firebase/auth';
+import {
+  reauthenticateWithCredential,
+  updatePassword,
+  updateProfile,
+  verifyBeforeUpdateEmail,
+} from 'firebase/auth';
+import ProfileSettings from '../ProfileSettings';
+import { LocaleProvider } from '../LocaleProvider';
+
+const mockRefreshUser = jest.fn();
+
+jest.mock('firebase/auth', () => ({
+  EmailAuthProvider: {
+    PROVIDER_ID: 'password',
+    credential: jest.fn((email: string, password: string) => ({ email, password })),
+  },
+  PhoneAuthProvider: { PROVIDER_ID: 'phone' },
+  RecaptchaVerifier: jest.fn(() => ({ clear: jest.fn() })),
+  GoogleAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  GithubAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  OAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  TotpMultiFactorGenerator: { FACTOR_ID: 'totp' },
+  getMultiFactorResolver: jest.fn(),
+  reauthenticateWithCredential: jest.fn(),
+  reauthenticateWithPhoneNumber: jest.fn(),
+  reauthenticateWithPopup: jest.fn(),
+  updatePassword: jest.fn(),
+  updateProfile: jest.fn(),
+  verifyBeforeUpdateEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+jest.mock('../AuthProvider', () => ({
+  useAuth: () => ({ refreshUser: mockRefreshUser }),
+}));
+
+const createUser = (providerIds: string[] = ['password']) =>
+  ({
+    uid: 'user-1',
+    email: 'user@example.com',
+    displayName: 'Old Name',
+    photoURL: null,
+    providerData: providerIds.map((providerId) => ({ providerId })),
+  }) as unknown as User;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('ProfileSettings Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('prefills the current profile', () => {
+    render(<ProfileSettings user={createUser()} />, { wrapper });
+
+    expect(screen.getByTestId('display-name-input')).toHaveValue('Old Name');
+    expect(screen.getByTestId('current-email')).toHaveTextContent('user@example.com');
+  });
+
+  it('updates the display name and avatar', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser();
+    (updateProfile as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<ProfileSettings user={firebaseUser} />, { wrapper });
+
+    await user.clear(screen.getByTestId('display-name-input'));
+    await user.type(screen.getByTestId('display-name-input'), 'New Name');
+    await user.type(screen.getByTestId('photo-url-input'), 'https://example.com/me.png');
+    await user.click(screen.getByTestId('save-profile-button'));
+
+    expect(updateProfile).toHaveBeenCalledWith(firebaseUser, {
+      displayName: 'New Name',
+      photoURL: 'https://example.com/me.png',
+    });
+    expect(mockRefreshUser).toHaveBeenCalled();
+    expect(await screen.findByTestId('profile-message')).toHaveTextContent('Profile updated.');
+  });
+
+  it('rejects avatar URLs that are not web addresses', async () => {
+    const user = userEvent.setup();
+    render(<ProfileSettings user={createUser()} />, { wrapper });
+
+    await user.type(screen.getByTestId('photo-url-input'), 'javascript:alert(1)');
+    await user.click(screen.getByTestId('save-profile-button'));
+
+    expect(screen.getByTestId('photo-url-error')).toHaveTextContent(
+      'Please enter a valid image URL'
+    );
+    expect(updateProfile).not.toHaveBeenCalled();
+  });
+
+  it('sends a verification link before changing the email', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser();
+    (verifyBeforeUpdateEmail as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<ProfileSettings user={firebaseUser} />, { wrapper });
+
+    await user.type(screen.getByTestId('new-email-input'), 'new@example.com');
+    await user.click(screen.getByTestId('change-email-button'));
+
+    expect(verifyBeforeUpdateEmail).toHaveBeenCalledWith(firebaseUser, 'new@example.com', {
+      url: expect.stringContaining('/dashboard/profile'),
+    });
+    expect(await screen.findByTestId('profile-message')).toHaveTextContent(
+      'We sent a verification link to new@example.com.'
+    );
+  });
+
+  it('requires the new password to be confirmed', async () => {
+    const user = userEvent.setup();
+    render(<ProfileSettings user={createUser()} />, { wrapper });
+
+    await user.type(screen.getByTestId('change-password-input'), 'Correct-Horse-42');
+    await user.type(screen.getByTestId('confirm-password-input'), 'Correct-Horse-43');
+    await user.click(screen.getByTestId('change-password-button'));
+
+    expect(screen.getByTestId('confirm-password-error')).toHaveTextContent(
+      'Passwords do not match'
+    );
+    expect(updatePassword).not.toHaveBeenCalled();
+  });
+
+  it('re-issues the session cookie after changing the password', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser();
+    (updatePassword as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<ProfileSettings user={firebaseUser} />, { wrapper });
+
+    await user.type(screen.getByTestId('change-password-input'), 'Correct-Horse-42');
+    await user.type(screen.getByTestId('confirm-password-input'), 'Correct-Horse-42');
+    await user.click(screen.getByTestId('change-password-button'));
+
+    expect(await screen.findByTestId('profile-message')).toHaveTextContent('Password changed.');
+    expect(updatePassword).toHaveBeenCalledWith(firebaseUser, 'Correct-Horse-42');
+    expect(mockRefreshUser).toHaveBeenCalled();
+    expect(mockRefreshUser.mock.invocationCallOrder[0]).toBeGreaterThan(
+      (updatePassword as jest.Mock).mock.invocationCallOrder[0]
+    );
+  });
+
+  it('hides the password form for accounts without a password', () => {
+    render(<ProfileSettings user={createUser(['google.com'])} />, { wrapper });
+
+    expect(screen.queryByTestId('change-password-input')).not.toBeInTheDocument();
+  });
+
+  it('asks the user to sign in again and retries the change', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser();
+    (updatePassword as jest.Mock)
+      .mockRejectedValueOnce({ code: 'auth/requires-recent-login' })
+      .mockResolvedValueOnce(undefined);
+    (reauthenticateWithCredential as jest.Mock).mockResolvedValueOnce({ user: firebaseUser });
+    render(<ProfileSettings user={firebaseUser} />, { wrapper });
+
+    await user.type(screen.getByTestId('change-password-input'), 'Correct-Horse-42');
+    await user.type(screen.getByTestId('confirm-password-input'), 'Correct-Horse-42');
+    await user.click(screen.getByTestId('change-password-button'));
+
+    expect(await screen.findByTestId('reauthenticate-dialog')).toBeInTheDocument();
+    expect(screen.queryByTestId('profile-error')).not.toBeInTheDocument();
+
+    await user.type(screen.getByTestId('reauthenticate-password-input'), 'old-password');
+    await user.click(screen.getByTestId('reauthenticate-password-button'));
+
+    expect(reauthenticateWithCredential).toHaveBeenCalledWith(firebaseUser, {
+      email: 'user@example.com',
+      password: 'old-password',
+    });
+    await waitFor(() => expect(updatePassword).toHaveBeenCalledTimes(2));
+    expect(await screen.findByTestId('profile-message')).toHaveTextContent('Password changed.');
+    expect(screen.queryByTestId('reauthenticate-dialog')).not.toBeInTheDocument();
+  });
+
+  it('drops the change when re-authentication is cancelled', async () => {
+    const user = userEvent.setup();
+    (verifyBeforeUpdateEmail as jest.Mock).mockRejectedValueOnce({
+      code: 'auth/requires-recent-login',
+    });
+    render(<ProfileSettings user={createUser()} />, { wrapper });
+
+    await user.type(screen.getByTestId('new-email-input'), 'new@example.com');
+    await user.click(screen.getByTestId('change-email-button'));
+    await user.click(await screen.findByTestId('reauthenticate-cancel-button'));
+
+    expect(screen.queryByTestId('reauthenticate-dialog')).not.toBeInTheDocument();
+    expect(verifyBeforeUpdateEmail).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,122 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { User } from 'firebase/auth';
+import { getMultiFactorResolver, reauthenticateWithPopup } from 'firebase/auth';
+import ReauthenticateDialog from '../ReauthenticateDialog';
+import { LocaleProvider } from '../LocaleProvider';
+
+jest.mock('firebase/auth', () => ({
+  EmailAuthProvider: { PROVIDER_ID: 'password', credential: jest.fn() },
+  PhoneAuthProvider: { PROVIDER_ID: 'phone' },
+  RecaptchaVerifier: jest.fn(() => ({ clear: jest.fn() })),
+  GoogleAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  GithubAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  OAuthProvider: jest.fn(() => ({ addScope: jest.fn(), setCustomParameters: jest.fn() })),
+  TotpMultiFactorGenerator: { FACTOR_ID: 'totp' },
+  getMultiFactorResolver: jest.fn(),
+  reauthenticateWithCredential: jest.fn(),
+  reauthenticateWithPhoneNumber: jest.fn(),
+  reauthenticateWithPopup: jest.fn(),
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+const createUser = (providerIds: string[]) =>
+  ({
+    uid: 'user-1',
+    email: 'user@example.com',
+    providerData: providerIds.map((providerId) => ({ providerId })),
+  }) as unknown as User;
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('ReauthenticateDialog Component', () => {
+  const onReauthenticated = jest.fn();
+  const onCancel = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('offers every sign-in method linked to the account', () => {
+    render(
+      <ReauthenticateDialog
+        user={createUser(['password', 'google.com', 'phone'])}
+        onReauthenticated={onReauthenticated}
+        onCancel={onCancel}
+      />,
+      { wrapper }
+    );
+
+    expect(screen.getByTestId('reauthenticate-password-input')).toBeInTheDocument();
+    expect(screen.getByTestId('reauthenticate-google-button')).toBeInTheDocument();
+    expect(screen.getByTestId('phone-input')).toBeInTheDocument();
+  });
+
+  it('re-authenticates with the provider popup', async () => {
+    const user = userEvent.setup();
+    const firebaseUser = createUser(['google.com']);
+    (reauthenticateWithPopup as jest.Mock).mockResolvedValueOnce({ user: firebaseUser });
+    render(
+      <ReauthenticateDialog
+        user={firebaseUser}
+        onReauthenticated={onReauthenticated}
+        onCancel={onCancel}
+      />,
+      { wrapper }
+    );
+
+    await user.click(screen.getByTestId('reauthenticate-google-button'));
+
+    expect(reauthenticateWithPopup).toHaveBeenCalledWith(firebaseUser, expect.anything());
+    expect(onReauthenticated).toHaveBeenCalled();
+  });
+
+  it('explains when a different account was used', async () => {
+    const user = userEvent.setup();
+    (reauthenticateWithPopup as jest.Mock).mockRejectedValueOnce({ code: 'auth/user-mismatch' });
+    render(
+      <ReauthenticateDialog
+        user={createUser(['google.com'])}
+        onReauthenticated={onReauthenticated}
+        onCancel={onCancel}
+      />,
+      { wrapper }
+    );
+
+    await user.click(screen.getByTestId('reauthenticate-google-button'));
+
+    expect(await screen.findByTestId('reauthenticate-error')).toHaveTextContent(
+      'That sign-in belongs to a different account.'
+    );
+    expect(onReauthenticated).not.toHaveBeenCalled();
+  });
+
+  it('asks for the second factor on accounts with two-step verification', async () => {
+    const user = userEvent.setup();
+    (reauthenticateWithPopup as jest.Mock).mockRejectedValueOnce({
+      code: 'auth/multi-factor-auth-required',
+    });
+    (getMultiFactorResolver as jest.Mock).mockReturnValueOnce({
+      hints: [{ uid: 'factor-1', factorId: 'totp', displayName: 'Phone app' }],
+      resolveSignIn: jest.fn(),
+    });
+    render(
+      <ReauthenticateDialog
+        user={createUser(['google.com'])}
+        onReauthenticated={onReauthenticated}
+        onCancel={onCancel}
+      />,
+      { wrapper }
+    );
+
+    await user.click(screen.getByTestId('reauthenticate-google-button'));
+
+    expect(await screen.findByTestId('mfa-challenge')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,46 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { useAuth } from '../AuthProvider';
+import RequireRole from '../RequireRole';
+
+jest.mock('../AuthProvider', () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockAuth = (claims: Record<string, unknown> | null, loading = false) =>
+  (useAuth as jest.Mock).mockReturnValue({ claims, loading, refreshUser: jest.fn() });
+
+describe('RequireRole Component', () => {
+  it('shows the children to users with the role', () => {
+    mockAuth({ roles: ['editor'] });
+    render(<RequireRole role="editor">Edit post</RequireRole>);
+
+    expect(screen.getByText('Edit post')).toBeInTheDocument();
+  });
+
+  it('shows the children to users with a higher role', () => {
+    mockAuth({ roles: ['admin'] });
+    render(<RequireRole role="viewer">Read post</RequireRole>);
+
+    expect(screen.getByText('Read post')).toBeInTheDocument();
+  });
+
+  it('renders the fallback for users without the role', () => {
+    mockAuth({ roles: ['viewer'] });
+    render(
+      <RequireRole role="admin" fallback={<p>Ask an admin</p>}>
+        Manage users
+      </RequireRole>
+    );
+
+    expect(screen.queryByText('Manage users')).not.toBeInTheDocument();
+    expect(screen.getByText('Ask an admin')).toBeInTheDocument();
+  });
+
+  it('renders nothing while the session is loading', () => {
+    mockAuth({ roles: ['admin'] }, true);
+    const { container } = render(<RequireRole role="admin">Manage users</RequireRole>);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,117 @@
+import React from 'react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { confirmPasswordReset, verifyPasswordResetCode } from 'firebase/auth';
+import { logAuditEvent } from '@/lib/audit-client';
+import ResetPassword from '../ResetPassword';
+import { LocaleProvider } from '../LocaleProvider';
+
+const mockPush = jest.fn();
+let mockSearchParams = new URLSearchParams();
+
+jest.mock('firebase/auth', () => ({
+  verifyPasswordResetCode: jest.fn(),
+  confirmPasswordReset: jest.fn(),
+}));
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: mockPush,
+    replace: jest.fn(),
+  }),
+  useSearchParams: () => mockSearchParams,
+}));
+
+jest.mock('@/lib/firebase', () => ({
+  auth: {},
+}));
+
+jest.mock('@/lib/audit-client', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <LocaleProvider initialLocale="en">{children}</LocaleProvider>
+);
+
+describe('ResetPassword Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSearchParams = new URLSearchParams({ oobCode: 'reset-code' });
+  });
+
+  it('shows an error when the link has no action code', async () => {
+    mockSearchParams = new URLSearchParams();
+    render(<ResetPassword />, { wrapper });
+
+    expect(await screen.findByTestId('reset-invalid')).toBeInTheDocument();
+    expect(verifyPasswordResetCode).not.toHaveBeenCalled();
+  });
+
+  it('shows an error when the action code is rejected', async () => {
+    (verifyPasswordResetCode as jest.Mock).mockRejectedValueOnce(new Error('expired'));
+    render(<ResetPassword />, { wrapper });
+
+    expect(await screen.findByTestId('reset-invalid')).toBeInTheDocument();
+    expect(verifyPasswordResetCode).toHaveBeenCalledWith(expect.anything(), 'reset-code');
+  });
+
+  it('shows the account email once the action code is verified', async () => {
+    (verifyPasswordResetCode as jest.Mock).mockResolvedValueOnce('user@example.com');
+    render(<ResetPassword />, { wrapper });
+
+    expect(
+      await screen.findByText('Choose a new password for user@example.com')
+    ).toBeInTheDocument();
+  });
+
+  it('applies the password policy to the new password', async () => {
+    const user = userEvent.setup();
+    (verifyPasswordResetCode as jest.Mock).mockResolvedValueOnce('user@example.com');
+    render(<ResetPassword />, { wrapper });
+
+    await user.type(await screen.findByTestId('password-input'), 'short');
+    await user.click(screen.getByTestId('submit-button'));
+
+    expect(screen.getByTestId('password-error')).toHaveTextContent(
+      'Password must be at least 8 characters'
+    );
+    expect(confirmPasswordReset).not.toHaveBeenCalled();
+  });
+
+  it('rejects passwords that contain the account email', async () => {
+    const user = userEvent.setup();
+    (verifyPasswordResetCode as jest.Mock).mockResolvedValueOnce('jordan@example.com');
+    render(<ResetPassword />, { wrapper });
+
+    await user.type(await screen.findByTestId('password-input'), 'Jordan2024x');
+    await user.click(screen.getByTestId('submit-button'));
+
+    expect(screen.getByTestId('password-error')).toHaveTextContent(
+      'Password must not contain your email'
+    );
+    expect(confirmPasswordReset).not.toHaveBeenCalled();
+  });
+
+  it('updates the password, records it in the audit log and redirects to login', async () => {
+    const user = userEvent.setup();
+    (verifyPasswordResetCode as jest.Mock).mockResolvedValueOnce('user@example.com');
+    (confirmPasswordReset as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<ResetPassword />, { wrapper });
+
+    await user.type(await screen.findByTestId('password-input'), 'Correct-Horse-42');
+    await user.click(screen.getByTestId('submit-button'));
+
+    expect(confirmPasswordReset).toHaveBeenCalledWith(
+      expect.anything(),
+      'reset-code',
+      'Correct-Horse-42'
+    );
+    expect(logAuditEvent).toHaveBeenCalledWith({
+      type: 'password_reset_completed',
+      email: 'user@example.com',
+    });
+    expect(await screen.findByTestId('redirect-buffer')).toBeInTheDocument();
+    await waitFor(() => expect(mockPush).toHaveBeenCalledWith('/login'), { timeout: 2000 });
+  });
+});
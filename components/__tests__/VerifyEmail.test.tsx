@@ -0,0 +1,141 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { sendEmailVerification } from 'firebase/auth';
+import { clearServerSession } from '@/lib/session-client';
+import { useAuth } from '../AuthProvider';
+import VerifyEmail, { RESEND_COOLDOWN_SECONDS } from '../VerifyEmail';
+
+const mockReplace = jest.fn();
+
+jest.mock('firebase/auth', () => ({
+  sendEmailVerification: jest.fn(),
+}));
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({
+    push: jest.fn(),
+    replace: mockReplace,
+  }),
+}));
+
+jest.mock('../AuthProvider', () => ({
+  useAuth: jest.fn(),
+}));
+
+jest.mock('@/lib/session-client', () => ({
+  clearServerSession: jest.fn(),
+}));
+
+const mockUser = { uid: 'new-user', email: 'new@example.com', emailVerified: false };
+const mockRefreshUser = jest.fn();
+const mockSignOut = jest.fn();
+
+describe('VerifyEmail Component', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (clearServerSession as jest.Mock).mockResolvedValue(undefined);
+    (useAuth as jest.Mock).mockReturnValue({
+      user: mockUser,
+      loading: false,
+      refreshUser: mockRefreshUser,
+      signOut: mockSignOut,
+    });
+  });
+
+  it('shows the address the verification email was sent to', () => {
+    render(<VerifyEmail />);
+
+    expect(screen.getByText('new@example.com')).toBeInTheDocument();
+  });
+
+  it('sends users without a session back to login after dropping the cookie', async () => {
+    (useAuth as jest.Mock).mockReturnValue({
+      user: null,
+      loading: false,
+      refreshUser: mockRefreshUser,
+      signOut: mockSignOut,
+    });
+    render(<VerifyEmail />);
+
+    await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/login'));
+    expect(clearServerSession).toHaveBeenCalled();
+  });
+
+  it('stays put when the cookie cannot be dropped, instead of bouncing off the login page', async () => {
+    (clearServerSession as jest.Mock).mockRejectedValue(new Error('Could not sign out.'));
+    (useAuth as jest.Mock).mockReturnValue({
+      user: null,
+      loading: false,
+      refreshUser: mockRefreshUser,
+      signOut: mockSignOut,
+    });
+    render(<VerifyEmail />);
+
+    expect(await screen.findByText('Could not sign out.')).toBeInTheDocument();
+    expect(mockReplace).not.toHaveBeenCalled();
+  });
+
+  it('resends the verification email and starts a cooldown', async () => {
+    const user = userEvent.setup();
+    (sendEmailVerification as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<VerifyEmail />);
+
+    await user.click(screen.getByTestId('resend-button'));
+
+    expect(sendEmailVerification).toHaveBeenCalledWith(mockUser, expect.anything());
+    expect(await screen.findByTestId('success-message')).toHaveTextContent(
+      'Verification email sent!'
+    );
+    const resendButton = screen.getByTestId('resend-button');
+    expect(resendButton).toBeDisabled();
+    expect(resendButton).toHaveTextContent(`Resend available in ${RESEND_COOLDOWN_SECONDS}s`);
+  });
+
+  it('re-enables resend once the cooldown has passed', async () => {
+    jest.useFakeTimers();
+    const user = userEvent.setup({ advanceTimers: jest.advanceTimersByTime });
+    (sendEmailVerification as jest.Mock).mockResolvedValueOnce(undefined);
+    render(<VerifyEmail />);
+
+    await user.click(screen.getByTestId('resend-button'));
+    await screen.findByText(`Resend available in ${RESEND_COOLDOWN_SECONDS}s`);
+    for (let second = 0; second < RESEND_COOLDOWN_SECONDS; second++) {
+      await act(async () => {
+        jest.advanceTimersByTime(1000);
+      });
+    }
+
+    expect(screen.getByTestId('resend-button')).not.toBeDisabled();
+  });
+
+  it('keeps the user on the page while the email is still unverified', async () => {
+    const user = userEvent.setup();
+    mockRefreshUser.mockResolvedValueOnce({ ...mockUser, emailVerified: false });
+    render(<VerifyEmail />);
+
+    await user.click(screen.getByTestId('refresh-button'));
+
+    expect(await screen.findByTestId('auth-error')).toHaveTextContent(
+      'Your email is not verified yet.'
+    );
+    expect(mockReplace).not.toHaveBeenCalled();
+  });
+
+  it('redirects to the dashboard once the email is verified', async () => {
+    const user = userEvent.setup();
+    mockRefreshUser.mockResolvedValueOnce({ ...mockUser, emailVerified: true });
+    render(<VerifyEmail />);
+
+    await user.click(screen.getByTestId('refresh-button'));
+
+    expect(await screen.findByTestId('redirect-buffer')).toBeInTheDocument();
+    await waitFor(() => expect(mockReplace).toHaveBeenCalledWith('/dashboard'), {
+      timeout: 2000,
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import React from 'react';
+import { act, renderHook } from '@testing-library/react';
+import { useForm } from '@/hooks/useForm';
+
+interface Values {
+  email: string;
+  password: string;
+}
+
+const initialValues: Values = { email: '', password: '' };
+
+const validate = (values: Values) => ({
+  email: values.email.includes('@') ? undefined : 'Enter a valid email',
+  password: values.password ? undefined : 'Enter a password',
+});
+
+const changeEvent = (name: keyof Values, value: string) =>
+  ({
+    target: { name, type: 'text', value, checked: false },
+  }) as React.ChangeEvent<HTMLInputElement>;
+
+const blurEvent = (name: keyof Values) =>
+  ({ target: { name } }) as React.FocusEvent<HTMLInputElement>;
+
+const renderForm = (onSubmit = jest.fn().mockResolvedValue(undefined)) =>
+  renderHook(() => useForm({ initialValues, validate, onSubmit }));
+
+describe('useForm', () => {
+  it('starts with the initial values and nothing touched', () => {
+    const { result } = renderForm();
+
+    expect(result.current.values).toEqual(initialValues);
+    expect(result.current.touched).toEqual({});
+    expect(result.current.errors).toEqual({});
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  it('marks a field as touched when it is left', () => {
+    const { result } = renderForm();
+
+    act(() => result.current.handleBlur(blurEvent('email')));
+
+    expect(result.current.touched).toEqual({ email: true });
+  });
+
+  it('checks a filled-in field when it is left, but not an empty one', () => {
+    const { result } = renderForm();
+
+    act(() => result.current.handleBlur(blurEvent('password')));
+    expect(result.current.errors.password).toBeUndefined();
+
+    act(() => result.current.handleChange(changeEvent('email', 'not-an-email')));
+    act(() => result.current.handleBlur(blurEvent('email')));
+    expect(result.current.errors.email).toBe('Enter a valid email');
+  });
+
+  it('clears a field error as soon as the field is edited', () => {
+    const { result } = renderForm();
+
+    act(() => result.current.setFieldError('email', 'Enter a valid email'));
+    act(() => result.current.handleChange(changeEvent('email', 'user@')));
+
+    expect(result.current.values.email).toBe('user@');
+    expect(result.current.errors.email).toBeUndefined();
+  });
+
+  it('flags every field and skips onSubmit when the values are invalid', async () => {
+    const onSubmit = jest.fn();
+    const { result } = renderForm(onSubmit);
+
+    await act(() => result.current.handleSubmit());
+
+    expect(result.current.touched).toEqual({ email: true, password: true });
+    expect(result.current.errors).toEqual({
+      email: 'Enter a valid email',
+      password: 'Enter a password',
+    });
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('submits valid values and reports the pending submit', async () => {
+    let finishSubmit = () => {};
+    const onSubmit = jest.fn(() => new Promise<void>((resolve) => (finishSubmit = resolve)));
+    const { result } = renderForm(onSubmit);
+
+    act(() => result.current.handleChange(changeEvent('email', 'user@example.com')));
+    act(() => result.current.handleChange(changeEvent('password', 'secret')));
+
+    let submitted!: Promise<void>;
+    act(() => {
+      submitted = result.current.handleSubmit();
+    });
+    expect(result.current.isSubmitting).toBe(true);
+    expect(onSubmit).toHaveBeenCalledWith({ email: 'user@example.com', password: 'secret' });
+
+    await act(async () => {
+      finishSubmit();
+      await submitted;
+    });
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  it('forgets values, touched fields and errors on reset', async () => {
+    const { result } = renderForm();
+
+    act(() => result.current.handleChange(changeEvent('email', 'user')));
+    await act(() => result.current.handleSubmit());
+    act(() => result.current.reset());
+
+    expect(result.current.values).toEqual(initialValues);
+    expect(result.current.touched).toEqual({});
+    expect(result.current.errors).toEqual({});
+  });
+});
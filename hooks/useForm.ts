@@ -0,0 +1,100 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+
+import type { FormErrors } from '@/lib/validation';
+
+// Text inputs hold strings and checkboxes booleans
+type FormValues<T> = { [K in keyof T]: string | boolean };
+
+type Touched<T> = Partial<Record<keyof T, boolean>>;
+
+interface UseFormOptions<T extends FormValues<T>> {
+  initialValues: T;
+  // Returns a message for every invalid field, undefined for the rest
+  validate: (values: T) => FormErrors<T>;
+  // Only called with values that passed validation
+  onSubmit: (values: T) => Promise<void>;
+}
+
+const hasErrors = <T>(errors: FormErrors<T>) => Object.values(errors).some(Boolean);
+
+// Values, touched fields, errors and the pending submit for one form. Inputs
+// need a `name` matching their key in the values. A field's error clears as
+// soon as it is edited; leaving a filled-in field checks it again, while
+// empty fields are only flagged on submit.
+export function useForm<T extends FormValues<T>>({
+  initialValues,
+  validate,
+  onSubmit,
+}: UseFormOptions<T>) {
+  const [values, setValues] = useState<T>(initialValues);
+  const [touched, setTouched] = useState<Touched<T>>({});
+  const [errors, setErrors] = useState<FormErrors<T>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const setFieldValue = useCallback(<K extends keyof T>(name: K, value: T[K]) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+    setErrors((prev) => (prev[name] ? { ...prev, [name]: undefined } : prev));
+  }, []);
+
+  const setFieldError = useCallback((name: keyof T, message: string | undefined) => {
+    setErrors((prev) => ({ ...prev, [name]: message }));
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, type, value, checked } = e.target;
+    setFieldValue(name as keyof T, (type === 'checkbox' ? checked : value) as T[keyof T]);
+  };
+
+  const handleBlur = (e: React.FocusEvent<HTMLInputElement>) => {
+    const name = e.target.name as keyof T;
+    setTouched((prev) => ({ ...prev, [name]: true }));
+    if (values[name]) {
+      setFieldError(name, validate(values)[name]);
+    }
+  };
+
+  const handleSubmit = async (e?: React.FormEvent<HTMLFormElement>) => {
+    e?.preventDefault();
+
+    const nextErrors = validate(values);
+    setTouched(
+      Object.fromEntries(Object.keys(values).map((name) => [name, true])) as Touched<T>
+    );
+    setErrors(nextErrors);
+    if (hasErrors(nextErrors)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(values);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const reset = useCallback(
+    (nextValues: T = initialValues) => {
+      setValues(nextValues);
+      setTouched({});
+      setErrors({});
+    },
+    [initialValues]
+  );
+
+  return {
+    values,
+    touched,
+    errors,
+    isSubmitting,
+    setFieldValue,
+    setFieldError,
+    setErrors,
+    handleChange,
+    handleBlur,
+    handleSubmit,
+    reset,
+  };
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useEffectEvent, useRef, useState } from 'react';
+
+export const DEFAULT_IDLE_TIMEOUT_MINUTES = 15;
+// How long the warning counts down before the user is signed out
+export const IDLE_WARNING_MS = 60 * 1000;
+
+// Anything that shows someone is at the keyboard. Being in another tab does
+// not count; coming back re-checks the clock right away.
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'wheel', 'keydown', 'touchstart'] as const;
+
+// NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES sets the timeout; 0 turns it off. Missing
+// or malformed values fall back to the default.
+export function getIdleTimeoutMs(
+  value: string | undefined = process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES
+): number | null {
+  const minutes = Number(value?.trim() || DEFAULT_IDLE_TIMEOUT_MINUTES);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    return DEFAULT_IDLE_TIMEOUT_MINUTES * 60 * 1000;
+  }
+  return minutes === 0 ? null : minutes * 60 * 1000;
+}
+
+interface IdleTimerOptions {
+  timeoutMs: number;
+  warningMs: number;
+  onIdle: () => void;
+}
+
+// Counts down from the last mouse, keyboard or touch activity and calls
+// `onIdle` once when it runs out. During the last `warningMs` activity no
+// longer counts, so only an explicit `reset` keeps the session. Elapsed time
+// is measured against the clock because background tabs throttle timers.
+export function useIdleTimer({ timeoutMs, warningMs, onIdle }: IdleTimerOptions) {
+  const [remainingMs, setRemainingMs] = useState(timeoutMs);
+  const lastActiveAt = useRef(0);
+  const hasFired = useRef(false);
+  const handleIdle = useEffectEvent(onIdle);
+
+  useEffect(() => {
+    lastActiveAt.current = Date.now();
+    hasFired.current = false;
+
+    const getRemaining = () => Math.max(0, timeoutMs - (Date.now() - lastActiveAt.current));
+
+    const check = () => {
+      const remaining = getRemaining();
+      setRemainingMs(remaining);
+      if (remaining === 0 && !hasFired.current) {
+        hasFired.current = true;
+        handleIdle();
+      }
+    };
+
+    const handleActivity = () => {
+      if (getRemaining() > warningMs) {
+        lastActiveAt.current = Date.now();
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        check();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true })
+    );
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(check, 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [timeoutMs, warningMs]);
+
+  const reset = useCallback(() => {
+    lastActiveAt.current = Date.now();
+    hasFired.current = false;
+    setRemainingMs(timeoutMs);
+  }, [timeoutMs]);
+
+  return {
+    secondsLeft: Math.ceil(remainingMs / 1000),
+    isWarning: remainingMs <= warningMs,
+    reset,
+  };
+}
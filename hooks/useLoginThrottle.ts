@@ -0,0 +1,87 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+// Wrong passwords allowed before the form starts making the user wait
+export const FREE_PASSWORD_FAILURES = 2;
+export const MAX_BACKOFF_SECONDS = 30;
+
+// 2, 4, 8, 16, then 30 seconds for each wrong password past the free ones
+export function getBackoffSeconds(failures: number): number {
+  if (failures <= FREE_PASSWORD_FAILURES) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - FREE_PASSWORD_FAILURES), MAX_BACKOFF_SECONDS);
+}
+
+// 75 -> "1:15"
+export function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+type ThrottleReason = 'backoff' | 'lockout';
+
+// Client-side pacing for the password form: a growing pause after repeated
+// wrong passwords, and the server's lockout countdown. Neither is a security
+// boundary on its own; the server-side rate limit is.
+export function useLoginThrottle() {
+  const [failures, setFailures] = useState(0);
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  const [reason, setReason] = useState<ThrottleReason | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (blockedUntil === null) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= blockedUntil) {
+        setBlockedUntil(null);
+        setReason(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [blockedUntil]);
+
+  const blockFor = useCallback((seconds: number, nextReason: ThrottleReason) => {
+    const current = Date.now();
+    setNow(current);
+    setBlockedUntil(current + seconds * 1000);
+    setReason(nextReason);
+  }, []);
+
+  const registerPasswordFailure = useCallback(() => {
+    const nextFailures = failures + 1;
+    setFailures(nextFailures);
+
+    const backoff = getBackoffSeconds(nextFailures);
+    if (backoff > 0) {
+      blockFor(backoff, 'backoff');
+    }
+  }, [failures, blockFor]);
+
+  const lockOut = useCallback((seconds: number) => blockFor(seconds, 'lockout'), [blockFor]);
+
+  const reset = useCallback(() => {
+    setFailures(0);
+    setBlockedUntil(null);
+    setReason(null);
+  }, []);
+
+  const secondsLeft =
+    blockedUntil === null ? 0 : Math.max(0, Math.ceil((blockedUntil - now) / 1000));
+
+  return {
+    secondsLeft,
+    isBlocked: secondsLeft > 0,
+    isLockedOut: secondsLeft > 0 && reason === 'lockout',
+    registerPasswordFailure,
+    lockOut,
+    reset,
+  };
+}
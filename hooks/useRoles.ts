@@ -0,0 +1,26 @@
+'use client';
+
+import { useCallback } from 'react';
+
+import { useAuth } from '@/components/AuthProvider';
+import { getRoles, hasRole, type Role } from '@/lib/roles';
+
+// Roles of the signed-in user, read from the claims of their latest ID token.
+// Tokens only pick up new custom claims when they are refreshed, which happens
+// hourly; call refreshRoles() to fetch them straight away (e.g. after an admin
+// changed them). The refresh also updates the session cookie, so server-side
+// checks see the same roles.
+export function useRoles() {
+  const { claims, loading, refreshUser } = useAuth();
+
+  const refreshRoles = useCallback(async () => {
+    await refreshUser();
+  }, [refreshUser]);
+
+  return {
+    roles: getRoles(claims),
+    loading,
+    hasRole: (role: Role) => hasRole(claims, role),
+    refreshRoles,
+  };
+}
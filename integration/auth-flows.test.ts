@@ -0,0 +1,195 @@
+import {
+  confirmPasswordReset,
+  createUserWithEmailAndPassword,
+  EmailAuthProvider,
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  linkWithCredential,
+  PhoneAuthCredential,
+  sendPasswordResetEmail,
+  sendSignInLinkToEmail,
+  signInWithCredential,
+  signInWithEmailAndPassword,
+  signInWithEmailLink,
+  signOut,
+  verifyPasswordResetCode,
+} from 'firebase/auth';
+
+import { isWrongPasswordError } from '@/lib/auth-errors';
+import { auth } from '@/lib/firebase';
+import { firebaseAdmin } from '@/lib/firebase-admin';
+import { FINISH_EMAIL_LINK_ROUTE } from '@/lib/routes';
+import { createSessionCookie, revokeAllSessions, verifySessionCookie } from '@/lib/session';
+
+import {
+  clearEmulatorAccounts,
+  fakeGoogleIdToken,
+  getLatestOobCode,
+  getVerificationCode,
+  sendPhoneVerificationCode,
+} from './emulator';
+
+const email = 'student@example.com';
+const password = 'correct-horse-9';
+const sessionContext = { userAgent: 'jest', ip: '127.0.0.1' };
+// From the 555-01xx range reserved for fiction, so no real phone is texted
+// even if the suite is pointed at a real project by mistake
+const phoneNumber = '+16505550101';
+
+// Signs the client in and trades its ID token for a session cookie, the same
+// way the Login component and POST /api/session do
+async function signInWithSession() {
+  const { user } = await signInWithEmailAndPassword(auth, email, password);
+  const { sessionCookie } = await createSessionCookie(await user.getIdToken(), sessionContext);
+  return { user, sessionCookie };
+}
+
+// What PhoneAuthProvider.credential builds in the browser
+const smsCredential = (verificationId: string, verificationCode: string) =>
+  PhoneAuthCredential.fromJSON({ verificationId, verificationCode }) as PhoneAuthCredential;
+
+describe('Auth flows against the emulator', () => {
+  beforeEach(async () => {
+    await clearEmulatorAccounts();
+  });
+
+  afterEach(async () => {
+    await signOut(auth);
+  });
+
+  it('signs up a new password account', async () => {
+    const { user } = await createUserWithEmailAndPassword(auth, email, password);
+
+    const record = await firebaseAdmin.getUserByEmail(email);
+    expect(record.uid).toBe(user.uid);
+    expect(record.emailVerified).toBe(false);
+    expect(record.providerData.map((info) => info.providerId)).toEqual(['password']);
+  });
+
+  it('signs in and exchanges the ID token for a session cookie', async () => {
+    await createUserWithEmailAndPassword(auth, email, password);
+    await signOut(auth);
+
+    const { user, sessionCookie } = await signInWithSession();
+
+    const decoded = await verifySessionCookie(sessionCookie);
+    expect(decoded?.uid).toBe(user.uid);
+    expect(decoded?.email).toBe(email);
+  });
+
+  it('rejects a wrong password', async () => {
+    await createUserWithEmailAndPassword(auth, email, password);
+    await signOut(auth);
+
+    const error = await signInWithEmailAndPassword(auth, email, 'wrong-password').catch(
+      (signInError: unknown) => signInError
+    );
+
+    expect(isWrongPasswordError(error)).toBe(true);
+    expect(auth.currentUser).toBeNull();
+  });
+
+  it('signs out locally and everywhere', async () => {
+    await createUserWithEmailAndPassword(auth, email, password);
+    const { user, sessionCookie } = await signInWithSession();
+
+    await signOut(auth);
+    expect(auth.currentUser).toBeNull();
+    // Signing out in the browser alone leaves the server session intact
+    expect(await verifySessionCookie(sessionCookie)).not.toBeNull();
+
+    await revokeAllSessions(user.uid);
+    expect(await verifySessionCookie(sessionCookie)).toBeNull();
+  });
+
+  it('signs in with Google', async () => {
+    const credential = GoogleAuthProvider.credential(fakeGoogleIdToken(email));
+
+    const { user } = await signInWithCredential(auth, credential);
+    const { sessionCookie } = await createSessionCookie(await user.getIdToken(), sessionContext);
+
+    expect(user.email).toBe(email);
+    expect(user.providerData.map((info) => info.providerId)).toEqual(['google.com']);
+    expect((await verifySessionCookie(sessionCookie))?.firebase.sign_in_provider).toBe(
+      'google.com'
+    );
+  });
+
+  it('links a password to a Google account', async () => {
+    const { user } = await signInWithCredential(
+      auth,
+      GoogleAuthProvider.credential(fakeGoogleIdToken(email))
+    );
+
+    await linkWithCredential(user, EmailAuthProvider.credential(email, password));
+    await signOut(auth);
+
+    const { user: passwordUser } = await signInWithEmailAndPassword(auth, email, password);
+    expect(passwordUser.uid).toBe(user.uid);
+
+    const record = await firebaseAdmin.getUser(user.uid);
+    expect(record.providerData.map((info) => info.providerId).sort()).toEqual([
+      'google.com',
+      'password',
+    ]);
+  });
+
+  it('resets a forgotten password with the emailed code', async () => {
+    await createUserWithEmailAndPassword(auth, email, password);
+    await signOut(auth);
+
+    await sendPasswordResetEmail(auth, email);
+    const { oobCode } = await getLatestOobCode(email, 'PASSWORD_RESET');
+
+    expect(await verifyPasswordResetCode(auth, oobCode)).toBe(email);
+    await confirmPasswordReset(auth, oobCode, 'Battery-Staple-10');
+
+    const error = await signInWithEmailAndPassword(auth, email, password).catch(
+      (signInError: unknown) => signInError
+    );
+    expect(isWrongPasswordError(error)).toBe(true);
+    const { user } = await signInWithEmailAndPassword(auth, email, 'Battery-Staple-10');
+    expect(user.email).toBe(email);
+  });
+
+  it('signs in with an emailed link', async () => {
+    await sendSignInLinkToEmail(auth, email, {
+      url: `http://localhost:3000${FINISH_EMAIL_LINK_ROUTE}`,
+      handleCodeInApp: true,
+    });
+    const { oobLink } = await getLatestOobCode(email, 'EMAIL_SIGNIN');
+
+    expect(isSignInWithEmailLink(auth, oobLink)).toBe(true);
+    const { user } = await signInWithEmailLink(auth, email, oobLink);
+    const { sessionCookie } = await createSessionCookie(await user.getIdToken(), sessionContext);
+
+    // Opening the link proves the address, so no separate verification is needed
+    expect(user.emailVerified).toBe(true);
+    expect((await verifySessionCookie(sessionCookie))?.email).toBe(email);
+  });
+
+  it('signs in with a phone number', async () => {
+    // PhoneAuthProvider and reCAPTCHA only exist in the browser build, so ask
+    // for the code directly, as signInWithPhoneNumber does after the reCAPTCHA
+    const verificationId = await sendPhoneVerificationCode(phoneNumber);
+    const verificationCode = await getVerificationCode(verificationId);
+
+    const { user } = await signInWithCredential(
+      auth,
+      smsCredential(verificationId, verificationCode)
+    );
+    const { sessionCookie } = await createSessionCookie(await user.getIdToken(), sessionContext);
+
+    expect(user.phoneNumber).toBe(phoneNumber);
+    expect((await verifySessionCookie(sessionCookie))?.firebase.sign_in_provider).toBe('phone');
+  });
+
+  it('rejects a wrong SMS code', async () => {
+    const verificationId = await sendPhoneVerificationCode(phoneNumber);
+
+    await expect(
+      signInWithCredential(auth, smsCredential(verificationId, '000000'))
+    ).rejects.toMatchObject({ code: 'auth/invalid-verification-code' });
+    expect(auth.currentUser).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+// Defaults match `firebase.json`; the demo- prefix tells the emulator there is
+// no real project behind it.
+export const DEFAULT_AUTH_EMULATOR_HOST = '127.0.0.1:9099';
+export const DEFAULT_PROJECT_ID = 'demo-wads-lab';
+
+export function getAuthEmulatorHost(): string {
+  return process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST || DEFAULT_AUTH_EMULATOR_HOST;
+}
+
+export function getProjectId(): string {
+  return process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || DEFAULT_PROJECT_ID;
+}
+
+const emulatorApi = (path: string) =>
+  `http://${getAuthEmulatorHost()}/emulator/v1/projects/${getProjectId()}/${path}`;
+
+// Wipes every account so each test starts from an empty project
+export async function clearEmulatorAccounts(): Promise<void> {
+  const response = await fetch(emulatorApi('accounts'), { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Could not clear emulator accounts (${response.status})`);
+  }
+}
+
+// The emulator accepts an unsigned JSON payload in place of Google's ID token
+export function fakeGoogleIdToken(email: string): string {
+  return JSON.stringify({ sub: `google-${email}`, email, email_verified: true });
+}
+
+export type OobRequestType = 'PASSWORD_RESET' | 'EMAIL_SIGNIN' | 'VERIFY_EMAIL';
+
+interface OobCode {
+  email: string;
+  requestType: OobRequestType;
+  oobCode: string;
+  oobLink: string;
+}
+
+// The emulator sends no email; it keeps every action link it would have sent
+export async function getLatestOobCode(email: string, requestType: OobRequestType) {
+  const response = await fetch(emulatorApi('oobCodes'));
+  const { oobCodes } = (await response.json()) as { oobCodes: OobCode[] };
+  const code = oobCodes
+    .filter((entry) => entry.email === email && entry.requestType === requestType)
+    .at(-1);
+  if (!code) {
+    throw new Error(`No ${requestType} code was sent to ${email}`);
+  }
+  return code;
+}
+
+// Asks for an SMS code the way signInWithPhoneNumber does once reCAPTCHA is
+// solved; the emulator does not check for a reCAPTCHA token. Returns the
+// verification ID.
+export async function sendPhoneVerificationCode(phoneNumber: string): Promise<string> {
+  const url = new URL(
+    'identitytoolkit.googleapis.com/v1/accounts:sendVerificationCode',
+    `http://${getAuthEmulatorHost()}/`
+  );
+  url.searchParams.set('key', process.env.NEXT_PUBLIC_FIREBASE_API_KEY ?? '');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ phoneNumber }),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not send a code to ${phoneNumber} (${response.status})`);
+  }
+  const { sessionInfo } = (await response.json()) as { sessionInfo: string };
+  return sessionInfo;
+}
+
+// The SMS code the emulator "sent" for a verification ID
+export async function getVerificationCode(verificationId: string): Promise<string> {
+  const response = await fetch(emulatorApi('verificationCodes'));
+  const { verificationCodes } = (await response.json()) as {
+    verificationCodes: { sessionInfo: string; code: string }[];
+  };
+  const entry = verificationCodes.find(({ sessionInfo }) => sessionInfo === verificationId);
+  if (!entry) {
+    throw new Error('No SMS code was sent for this verification');
+  }
+  return entry.code;
+}
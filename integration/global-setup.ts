@@ -0,0 +1,16 @@
+import { getAuthEmulatorHost } from './emulator';
+
+// Fails the run up front with instructions instead of letting every test time out
+export default async function globalSetup() {
+  const host = getAuthEmulatorHost();
+
+  try {
+    await fetch(`http://${host}/`);
+  } catch {
+    throw new Error(
+      `The Firebase Auth emulator is not reachable at ${host}. Start it with\n` +
+        '  npx firebase-tools emulators:start --only auth --project demo-wads-lab\n' +
+        'or run the suite through `npx firebase-tools emulators:exec`.'
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+import { firebaseAdmin } from '@/lib/firebase-admin';
+import { getRoles } from '@/lib/roles';
+
+import { clearEmulatorAccounts } from './emulator';
+
+const run = promisify(execFile);
+
+// Runs `npm run grant-admin` the way an operator would, in its own process
+// without Jest's module mapping, so a path alias in anything the script
+// imports fails here
+function grantAdmin(identifier: string) {
+  return run('npm', ['run', '--silent', 'grant-admin', '--', identifier], {
+    env: process.env,
+  });
+}
+
+describe('grant-admin script', () => {
+  beforeEach(async () => {
+    await clearEmulatorAccounts();
+  });
+
+  it('grants the admin role by email', async () => {
+    const { uid } = await firebaseAdmin.createUser({
+      email: 'teacher@example.com',
+      password: 'correct-horse-9',
+    });
+
+    const { stdout } = await grantAdmin('teacher@example.com');
+
+    expect(stdout).toContain('Granted admin to teacher@example.com');
+    const record = await firebaseAdmin.getUser(uid);
+    expect(getRoles(record.customClaims)).toContain('admin');
+  });
+
+  it('fails for an unknown account', async () => {
+    await expect(grantAdmin('nobody@example.com')).rejects.toMatchObject({ code: 1 });
+  });
+});
@@ -0,0 +1,10 @@
+import { DEFAULT_AUTH_EMULATOR_HOST, DEFAULT_PROJECT_ID } from './emulator';
+
+// Runs before each test file imports lib/firebase, so both SDKs come up
+// pointed at the emulator. Values already in the environment win.
+process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST ||= DEFAULT_AUTH_EMULATOR_HOST;
+process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID ||= DEFAULT_PROJECT_ID;
+process.env.NEXT_PUBLIC_FIREBASE_API_KEY ||= 'demo-api-key';
+process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN ||= `${process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID}.firebaseapp.com`;
+process.env.NEXT_PUBLIC_FIREBASE_APP_ID ||= 'demo-app-id';
+process.env.FIREBASE_PROJECT_ID ||= process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
@@ -5,6 +5,8 @@ const config: Config = {
   testEnvironment: 'jsdom',
   roots: ['<rootDir>'],
   testMatch: ['**/__tests__/**/*.(test|spec).(ts|tsx)', '**/?(*.)+(spec|test).(ts|tsx)'],
+  // Needs the Auth emulator; run with `npm run test:integration`
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/integration/'],
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/$1',
   },
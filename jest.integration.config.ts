@@ -0,0 +1,20 @@
+import type { Config } from 'jest';
+
+// End-to-end auth flows against the Firebase Auth emulator. Start it first:
+//   npx firebase-tools emulators:start --only auth --project demo-wads-lab
+const config: Config = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/integration'],
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  globalSetup: '<rootDir>/integration/global-setup.ts',
+  setupFiles: ['<rootDir>/integration/setup-env.ts'],
+  // Every file shares the emulator's accounts, so they must not overlap
+  maxWorkers: 1,
+  testTimeout: 20000,
+};
+
+export default config;
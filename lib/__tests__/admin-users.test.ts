@@ -0,0 +1,222 @@
+/**
+ * @jest-environment node
+ */
+import type { UserRecord } from 'firebase-admin/auth';
+
+import { AdminRequestError } from '../admin';
+import {
+  assertNotSelf,
+  forcePasswordReset,
+  parsePageSize,
+  searchAdminUsers,
+  setUserRoles,
+  toAdminUser,
+} from '../admin-users';
+import { firebaseAdmin } from '../firebase-admin';
+import { sendPasswordResetEmail } from '../password-reset-email';
+
+jest.mock('../firebase-admin', () => ({
+  firebaseAdmin: {
+    getUser: jest.fn(),
+    getUserByEmail: jest.fn(),
+    getUserByPhoneNumber: jest.fn(),
+    updateUser: jest.fn(),
+    revokeRefreshTokens: jest.fn(),
+    setCustomUserClaims: jest.fn(),
+    generatePasswordResetLink: jest.fn(),
+  },
+}));
+
+jest.mock('../password-reset-email', () => ({
+  sendPasswordResetEmail: jest.fn(),
+}));
+
+const emailOptions = { continueUrl: 'https://app.example.com/login', locale: 'en' as const };
+
+const createRecord = (overrides: Partial<UserRecord> = {}) =>
+  ({
+    uid: 'user-1',
+    email: 'user@example.com',
+    emailVerified: true,
+    disabled: false,
+    providerData: [{ providerId: 'password' }],
+    metadata: {
+      creationTime: 'Mon, 01 Sep 2025 10:00:00 GMT',
+      lastSignInTime: 'Tue, 02 Sep 2025 10:00:00 GMT',
+    },
+    ...overrides,
+  }) as unknown as UserRecord;
+
+describe('admin-users', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('toAdminUser', () => {
+    it('flattens the record into plain JSON', () => {
+      expect(toAdminUser(createRecord())).toEqual(
+        expect.objectContaining({
+          uid: 'user-1',
+          email: 'user@example.com',
+          phoneNumber: null,
+          providerIds: ['password'],
+          customClaims: {},
+          mfaFactorCount: 0,
+          lastSignInAt: 'Tue, 02 Sep 2025 10:00:00 GMT',
+          lastActiveAt: null,
+        })
+      );
+    });
+  });
+
+  describe('parsePageSize', () => {
+    it('defaults invalid sizes and caps large ones', () => {
+      expect(parsePageSize(null)).toBe(25);
+      expect(parsePageSize('-3')).toBe(25);
+      expect(parsePageSize('10')).toBe(10);
+      expect(parsePageSize('5000')).toBe(100);
+    });
+  });
+
+  describe('searchAdminUsers', () => {
+    it('looks up emails, phone numbers and uids', async () => {
+      (firebaseAdmin.getUserByEmail as jest.Mock).mockResolvedValue(createRecord());
+      (firebaseAdmin.getUserByPhoneNumber as jest.Mock).mockResolvedValue(createRecord());
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(createRecord());
+
+      await searchAdminUsers(' user@example.com ');
+      await searchAdminUsers('+1 555 123 4567');
+      await searchAdminUsers('user-1');
+
+      expect(firebaseAdmin.getUserByEmail).toHaveBeenCalledWith('user@example.com');
+      expect(firebaseAdmin.getUserByPhoneNumber).toHaveBeenCalledWith('+15551234567');
+      expect(firebaseAdmin.getUser).toHaveBeenCalledWith('user-1');
+    });
+
+    it('returns no results when nobody matches', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockRejectedValueOnce({
+        code: 'auth/user-not-found',
+      });
+
+      await expect(searchAdminUsers('missing')).resolves.toEqual({
+        users: [],
+        nextPageToken: null,
+      });
+    });
+  });
+
+  describe('forcePasswordReset', () => {
+    it('replaces the password and revokes sessions without making a reset link', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(createRecord());
+
+      await expect(forcePasswordReset('user-1', emailOptions)).resolves.toMatchObject({
+        uid: 'user-1',
+      });
+      expect(firebaseAdmin.updateUser).toHaveBeenCalledWith('user-1', {
+        password: expect.any(String),
+      });
+      expect(firebaseAdmin.revokeRefreshTokens).toHaveBeenCalledWith('user-1');
+      expect(firebaseAdmin.generatePasswordResetLink).not.toHaveBeenCalled();
+    });
+
+    it('emails the owner before touching the password', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(createRecord());
+
+      await forcePasswordReset('user-1', emailOptions);
+
+      expect(sendPasswordResetEmail).toHaveBeenCalledWith('user@example.com', emailOptions);
+      expect((sendPasswordResetEmail as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (firebaseAdmin.updateUser as jest.Mock).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('leaves the password alone when the email cannot be sent', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(createRecord());
+      (sendPasswordResetEmail as jest.Mock).mockRejectedValueOnce(
+        new AdminRequestError('Could not send the reset email. The password was not changed.', 502)
+      );
+
+      await expect(forcePasswordReset('user-1', emailOptions)).rejects.toMatchObject({
+        status: 502,
+      });
+      expect(firebaseAdmin.updateUser).not.toHaveBeenCalled();
+      expect(firebaseAdmin.revokeRefreshTokens).not.toHaveBeenCalled();
+    });
+
+    it('refuses accounts without an email address', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValueOnce(createRecord({ email: undefined }));
+
+      await expect(forcePasswordReset('user-1', emailOptions)).rejects.toThrow(
+        'This account has no email address to send a reset link to'
+      );
+      expect(sendPasswordResetEmail).not.toHaveBeenCalled();
+      expect(firebaseAdmin.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('refuses accounts with the admin role', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValueOnce(
+        createRecord({ customClaims: { roles: ['admin'] } })
+      );
+
+      await expect(forcePasswordReset('user-1', emailOptions)).rejects.toMatchObject({
+        status: 403,
+      });
+      expect(firebaseAdmin.updateUser).not.toHaveBeenCalled();
+    });
+
+    it('refuses accounts without a password', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValueOnce(
+        createRecord({ providerData: [{ providerId: 'google.com' }] } as Partial<UserRecord>)
+      );
+
+      await expect(forcePasswordReset('user-1', emailOptions)).rejects.toBeInstanceOf(
+        AdminRequestError
+      );
+      expect(firebaseAdmin.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setUserRoles', () => {
+    it('replaces the roles and keeps unrelated claims', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(
+        createRecord({ customClaims: { admin: true, tenant: 'acme' } })
+      );
+
+      await setUserRoles('user-1', ['viewer']);
+
+      expect(firebaseAdmin.setCustomUserClaims).toHaveBeenCalledWith('user-1', {
+        tenant: 'acme',
+        roles: ['viewer'],
+      });
+    });
+
+    it('signs the user out everywhere when a role is taken away', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(
+        createRecord({ customClaims: { roles: ['admin'] } })
+      );
+
+      await setUserRoles('user-1', ['editor']);
+
+      expect(firebaseAdmin.revokeRefreshTokens).toHaveBeenCalledWith('user-1');
+    });
+
+    it('keeps sessions when roles are only added', async () => {
+      (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(
+        createRecord({ customClaims: { roles: ['viewer'] } })
+      );
+
+      await setUserRoles('user-1', ['viewer', 'editor']);
+
+      expect(firebaseAdmin.revokeRefreshTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertNotSelf', () => {
+    it('stops admins from acting on their own account', () => {
+      expect(() => assertNotSelf('admin-1', 'admin-1', 'delete')).toThrow(
+        'You cannot delete your own account'
+      );
+      expect(() => assertNotSelf('admin-1', 'user-1', 'delete')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+import type { AuditEvent } from '../audit-events';
+import { JsonlAuditLogStore, matchesAuditFilter, parseAuditFilter, toAuditCsv } from '../audit-log';
+
+const createEvent = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  id: 'event-1',
+  type: 'sign_in',
+  createdAt: '2026-10-01T10:00:00.000Z',
+  uid: 'user-1',
+  email: 'user@example.com',
+  actorUid: 'user-1',
+  provider: 'password',
+  details: {},
+  ip: '203.0.113.7',
+  userAgent: 'Mozilla/5.0',
+  verified: true,
+  ...overrides,
+});
+
+describe('audit-log', () => {
+  describe('matchesAuditFilter', () => {
+    it('matches the user by ID or case-insensitive email', () => {
+      expect(matchesAuditFilter(createEvent(), { user: 'user-1' })).toBe(true);
+      expect(matchesAuditFilter(createEvent(), { user: 'User@Example.com' })).toBe(true);
+      expect(matchesAuditFilter(createEvent(), { user: 'someone-else' })).toBe(false);
+    });
+
+    it('treats both dates as whole days', () => {
+      const event = createEvent({ createdAt: '2026-10-01T23:59:59.000Z' });
+
+      expect(matchesAuditFilter(event, { from: '2026-10-01', to: '2026-10-01' })).toBe(true);
+      expect(matchesAuditFilter(event, { from: '2026-10-02' })).toBe(false);
+      expect(matchesAuditFilter(event, { to: '2026-09-30' })).toBe(false);
+    });
+
+    it('filters by event type', () => {
+      expect(matchesAuditFilter(createEvent(), { type: 'sign_out' })).toBe(false);
+    });
+  });
+
+  describe('JsonlAuditLogStore', () => {
+    let directory: string;
+    let store: JsonlAuditLogStore;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'audit-log-'));
+      store = new JsonlAuditLogStore(path.join(directory, 'logs', 'audit.jsonl'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('returns nothing before the first event', async () => {
+      await expect(store.query({}, 10)).resolves.toEqual([]);
+    });
+
+    it('appends events and returns matches newest first', async () => {
+      await store.append(createEvent({ id: 'old', createdAt: '2026-10-01T08:00:00.000Z' }));
+      await store.append(createEvent({ id: 'new', createdAt: '2026-10-01T09:00:00.000Z' }));
+      await store.append(createEvent({ id: 'other', type: 'sign_out' }));
+
+      const events = await store.query({ type: 'sign_in' }, 10);
+
+      expect(events.map((event) => event.id)).toEqual(['new', 'old']);
+    });
+
+    it('stops at the limit', async () => {
+      await store.append(createEvent({ id: 'first' }));
+      await store.append(createEvent({ id: 'second' }));
+
+      await expect(store.query({}, 1)).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('parseAuditFilter', () => {
+    it('drops unknown types and malformed dates', () => {
+      const params = new URLSearchParams({
+        user: ' user-1 ',
+        type: 'launch_missiles',
+        from: '2026-10-01',
+        to: 'yesterday',
+      });
+
+      expect(parseAuditFilter(params)).toEqual({
+        user: 'user-1',
+        type: undefined,
+        from: '2026-10-01',
+        to: undefined,
+      });
+    });
+  });
+
+  describe('toAuditCsv', () => {
+    it('writes a header and one row per event', () => {
+      const csv = toAuditCsv([
+        createEvent({ type: 'admin_action', actorUid: 'admin-1', details: { action: 'disable' } }),
+      ]);
+
+      expect(csv.split('\r\n')).toEqual([
+        'createdAt,type,uid,email,actorUid,provider,details,ip,userAgent,verified',
+        '2026-10-01T10:00:00.000Z,admin_action,user-1,user@example.com,admin-1,password,' +
+          '"{""action"":""disable""}",203.0.113.7,Mozilla/5.0,true',
+      ]);
+    });
+
+    it('defuses values a spreadsheet would run as formulas', () => {
+      const csv = toAuditCsv([createEvent({ email: '=HYPERLINK("http://evil")' })]);
+
+      expect(csv).toContain('"\'=HYPERLINK(""http://evil"")"');
+    });
+
+    it('defuses formulas hidden behind a leading tab or carriage return', () => {
+      const csv = toAuditCsv([createEvent({ email: '\t=1+1', userAgent: '\r=1+1' })]);
+
+      expect(csv).toContain("'\t=1+1");
+      expect(csv).toContain('"\'\r=1+1"');
+    });
+
+    it('marks anonymous reports as unverified', () => {
+      const [, row] = toAuditCsv([createEvent({ verified: false })]).split('\r\n');
+
+      expect(row.endsWith(',false')).toBe(true);
+    });
+  });
+});
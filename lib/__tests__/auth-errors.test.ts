@@ -0,0 +1,99 @@
+import { FirebaseError } from 'firebase/app';
+import {
+  getAuthErrorCode,
+  getAuthErrorDisplay,
+  isPopupUnavailableError,
+  isWrongPasswordError,
+} from '../auth-errors';
+import { createTranslator } from '../i18n';
+
+const FALLBACK = 'Login failed. Please try again.';
+
+describe('auth-errors', () => {
+  describe('getAuthErrorCode', () => {
+    it('reads the code from Firebase errors', () => {
+      const error = new FirebaseError('auth/user-disabled', 'Firebase: Error (auth/user-disabled).');
+      expect(getAuthErrorCode(error)).toBe('auth/user-disabled');
+    });
+
+    it('returns undefined for errors without a code', () => {
+      expect(getAuthErrorCode(new Error('boom'))).toBeUndefined();
+      expect(getAuthErrorCode('auth/user-disabled')).toBeUndefined();
+      expect(getAuthErrorCode(null)).toBeUndefined();
+    });
+  });
+
+  describe('getAuthErrorDisplay', () => {
+    it.each([
+      ['auth/user-not-found', 'email', 'No account found with this email'],
+      ['auth/email-already-in-use', 'email', 'An account with this email already exists'],
+      ['auth/wrong-password', 'password', 'Incorrect password'],
+    ])('shows %s under the %s field', (code, field, message) => {
+      expect(getAuthErrorDisplay(new FirebaseError(code, 'raw'), FALLBACK)).toEqual({
+        field,
+        message,
+      });
+    });
+
+    it.each([
+      ['auth/invalid-credential', 'Incorrect email or password.'],
+      ['auth/too-many-requests', 'Too many attempts. Please wait a moment and try again.'],
+      ['auth/popup-closed-by-user', 'The sign-in popup was closed before finishing.'],
+      ['auth/network-request-failed', 'Network error. Check your connection and try again.'],
+    ])('shows %s as a banner', (code, message) => {
+      expect(getAuthErrorDisplay(new FirebaseError(code, 'raw'), FALLBACK)).toEqual({ message });
+    });
+
+    it('uses the fallback for unknown Firebase codes instead of the raw message', () => {
+      const error = new FirebaseError('auth/internal-error', 'Firebase: Error (auth/internal-error).');
+      expect(getAuthErrorDisplay(error, FALLBACK)).toEqual({ message: FALLBACK });
+    });
+
+    it('keeps the message of errors raised by the app itself', () => {
+      const error = new Error('Could not start a session. Please try again.');
+      expect(getAuthErrorDisplay(error, FALLBACK)).toEqual({
+        message: 'Could not start a session. Please try again.',
+      });
+    });
+
+    it('uses the fallback for non-error values', () => {
+      expect(getAuthErrorDisplay(undefined, FALLBACK)).toEqual({ message: FALLBACK });
+    });
+
+    it('translates the message with the given translator', () => {
+      const error = new FirebaseError('auth/wrong-password', 'raw');
+      expect(getAuthErrorDisplay(error, FALLBACK, createTranslator('id'))).toEqual({
+        field: 'password',
+        message: 'Kata sandi salah',
+      });
+    });
+  });
+
+  describe('isWrongPasswordError', () => {
+    it('recognises wrong passwords with and without enumeration protection', () => {
+      expect(isWrongPasswordError(new FirebaseError('auth/wrong-password', ''))).toBe(true);
+      expect(isWrongPasswordError(new FirebaseError('auth/invalid-credential', ''))).toBe(true);
+    });
+
+    it('ignores other failures', () => {
+      expect(isWrongPasswordError(new FirebaseError('auth/user-disabled', ''))).toBe(false);
+      expect(isWrongPasswordError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('isPopupUnavailableError', () => {
+    it('recognises popups the browser blocked or cancelled', () => {
+      expect(isPopupUnavailableError(new FirebaseError('auth/popup-blocked', ''))).toBe(true);
+      expect(isPopupUnavailableError(new FirebaseError('auth/cancelled-popup-request', ''))).toBe(
+        true
+      );
+    });
+
+    it('leaves popups the user closed to the normal error handling', () => {
+      expect(isPopupUnavailableError(new FirebaseError('auth/popup-closed-by-user', ''))).toBe(
+        false
+      );
+      expect(isPopupUnavailableError(new Error('boom'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+import { GoogleAuthProvider, OAuthProvider } from 'firebase/auth';
+import {
+  createAuthProvider,
+  getEnabledProviders,
+  isPhoneSignInEnabled,
+  OAUTH_PROVIDERS,
+} from '../auth-providers';
+
+describe('auth-providers', () => {
+  describe('getEnabledProviders', () => {
+    it('enables Google by default', () => {
+      expect(getEnabledProviders(undefined).map((provider) => provider.id)).toEqual(['google']);
+    });
+
+    it('keeps the configured order and ignores unknown or duplicate ids', () => {
+      expect(
+        getEnabledProviders(' github, google ,myspace,GITHUB').map((provider) => provider.id)
+      ).toEqual(['github', 'google']);
+    });
+
+    it('skips the generic OIDC entry when no OIDC provider id is configured', () => {
+      expect(getEnabledProviders('google,oidc').map((provider) => provider.id)).toEqual([
+        'google',
+      ]);
+    });
+
+    it('allows disabling every provider', () => {
+      expect(getEnabledProviders('')).toEqual([]);
+    });
+
+    it('does not turn the phone entry into an OAuth button', () => {
+      expect(getEnabledProviders('phone,google').map((provider) => provider.id)).toEqual([
+        'google',
+      ]);
+    });
+  });
+
+  describe('isPhoneSignInEnabled', () => {
+    it('is off unless phone is listed', () => {
+      expect(isPhoneSignInEnabled(undefined)).toBe(false);
+      expect(isPhoneSignInEnabled('google, Phone')).toBe(true);
+    });
+  });
+
+  describe('createAuthProvider', () => {
+    it('creates the dedicated Firebase provider class when there is one', () => {
+      const google = OAUTH_PROVIDERS.find((provider) => provider.id === 'google')!;
+      expect(createAuthProvider(google)).toBeInstanceOf(GoogleAuthProvider);
+    });
+
+    it('applies the configured scopes to generic OAuth providers', () => {
+      const microsoft = OAUTH_PROVIDERS.find((provider) => provider.id === 'microsoft')!;
+      const provider = createAuthProvider(microsoft) as OAuthProvider;
+
+      expect(provider).toBeInstanceOf(OAuthProvider);
+      expect(provider.providerId).toBe('microsoft.com');
+      expect(provider.getScopes()).toEqual(['openid', 'email', 'profile']);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * @jest-environment node
+ */
+import { requireRole } from '../authorization';
+import { getSessionUser } from '../session';
+
+jest.mock('../session', () => ({
+  getSessionUser: jest.fn(),
+}));
+
+describe('requireRole', () => {
+  it('returns 401 when nobody is signed in', async () => {
+    (getSessionUser as jest.Mock).mockResolvedValueOnce(null);
+
+    const { user, response } = await requireRole('viewer');
+
+    expect(user).toBeUndefined();
+    expect(response?.status).toBe(401);
+  });
+
+  it('returns 403 when the user lacks the role', async () => {
+    (getSessionUser as jest.Mock).mockResolvedValueOnce({ uid: 'user-1', roles: ['viewer'] });
+
+    const { response } = await requireRole('editor');
+
+    expect(response?.status).toBe(403);
+    await expect(response?.json()).resolves.toEqual({ error: 'The editor role is required' });
+  });
+
+  it('returns the user when the role is granted', async () => {
+    const session = { uid: 'user-1', roles: ['admin'] };
+    (getSessionUser as jest.Mock).mockResolvedValueOnce(session);
+
+    await expect(requireRole('editor')).resolves.toEqual({ user: session });
+  });
+});
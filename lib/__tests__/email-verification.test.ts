@@ -0,0 +1,34 @@
+import { requiresEmailVerification } from '../email-verification';
+
+describe('requiresEmailVerification', () => {
+  it('requires verification for unverified password accounts', () => {
+    expect(
+      requiresEmailVerification({
+        email_verified: false,
+        firebase: { sign_in_provider: 'password' },
+      })
+    ).toBe(true);
+  });
+
+  it('lets verified password accounts through', () => {
+    expect(
+      requiresEmailVerification({
+        email_verified: true,
+        firebase: { sign_in_provider: 'password' },
+      })
+    ).toBe(false);
+  });
+
+  it('does not gate other providers', () => {
+    expect(
+      requiresEmailVerification({
+        email_verified: false,
+        firebase: { sign_in_provider: 'google.com' },
+      })
+    ).toBe(false);
+  });
+
+  it('does not gate missing sessions', () => {
+    expect(requiresEmailVerification(null)).toBe(false);
+  });
+});
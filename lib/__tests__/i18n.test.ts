@@ -0,0 +1,127 @@
+import {
+  createTranslator,
+  getValidationMessages,
+  LOCALES,
+  MESSAGES,
+  matchLocale,
+} from '../i18n';
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  PASSWORD_STRENGTH_LABELS,
+} from '../password-policy';
+import { DEFAULT_VALIDATION_MESSAGES, validateEmail, validateNewPassword, validatePassword } from '../validation';
+
+const referenceKeys = Object.keys(MESSAGES.en).sort();
+
+const placeholders = (message: string) => (message.match(/\{\w+\}/g) ?? []).sort();
+
+describe('message catalogs', () => {
+  it.each(LOCALES)('%s defines every key and nothing else', (locale) => {
+    expect(Object.keys(MESSAGES[locale]).sort()).toEqual(referenceKeys);
+  });
+
+  it.each(LOCALES)('%s has no empty messages', (locale) => {
+    const empty = Object.entries(MESSAGES[locale]).filter(([, message]) => !message.trim());
+    expect(empty).toEqual([]);
+  });
+
+  it.each(LOCALES)('%s uses the same placeholders as English', (locale) => {
+    for (const key of referenceKeys) {
+      const messageKey = key as keyof typeof MESSAGES.en;
+      expect([key, placeholders(MESSAGES[locale][messageKey])]).toEqual([
+        key,
+        placeholders(MESSAGES.en[messageKey]),
+      ]);
+    }
+  });
+});
+
+describe('createTranslator', () => {
+  it('fills in placeholders', () => {
+    expect(createTranslator('en')('login.provider.continue', { provider: 'Google' })).toBe(
+      'Continue with Google'
+    );
+    expect(createTranslator('id')('login.provider.continue', { provider: 'Google' })).toBe(
+      'Lanjutkan dengan Google'
+    );
+  });
+
+  it('leaves placeholders without a value in place', () => {
+    expect(createTranslator('en')('login.submit.throttled')).toBe('Try again in {time}');
+  });
+});
+
+describe('matchLocale', () => {
+  it.each([
+    ['id-ID,id;q=0.9,en-US;q=0.8,en;q=0.7', 'id'],
+    ['en-GB,en;q=0.9', 'en'],
+    ['fr-FR,fr;q=0.9,id;q=0.5', 'id'],
+    ['en;q=0.5,id;q=0.8', 'id'],
+    ['ID', 'id'],
+  ])('matches %s to %s', (header, locale) => {
+    expect(matchLocale(header)).toBe(locale);
+  });
+
+  it.each([[null], [''], ['fr-FR,de;q=0.9'], ['id;q=0']])(
+    'falls back to English for %p',
+    (header) => {
+      expect(matchLocale(header)).toBe('en');
+    }
+  );
+});
+
+describe('getValidationMessages', () => {
+  const messages = getValidationMessages(createTranslator('id'));
+
+  it('translates the field validators', () => {
+    expect(validateEmail('', messages)).toBe('Email wajib diisi');
+    expect(validateEmail('not-an-email', messages)).toBe('Masukkan email yang valid');
+    expect(validatePassword('12345', messages)).toBe('Kata sandi minimal 6 karakter');
+  });
+
+  it('translates password policy rules', () => {
+    expect(validateNewPassword('Ab1', undefined, messages)).toBe(
+      'Kata sandi minimal 8 karakter'
+    );
+    expect(validateNewPassword('lowercase1', undefined, messages)).toBe(
+      'Kata sandi harus mengandung huruf besar'
+    );
+  });
+
+  it('matches the built-in English messages', () => {
+    const english = getValidationMessages(createTranslator('en'));
+    const everyRule = checkPasswordRules('', {
+      policy: { ...DEFAULT_PASSWORD_POLICY, requireSymbol: true },
+    });
+
+    expect({ ...english, passwordRule: null }).toEqual({
+      ...DEFAULT_VALIDATION_MESSAGES,
+      passwordRule: null,
+    });
+    for (const rule of everyRule) {
+      expect(english.passwordRule(rule)).toBe(rule.message);
+    }
+  });
+});
+
+describe('password meter messages', () => {
+  const t = createTranslator('en');
+
+  it('match the built-in rule and strength labels', () => {
+    const everyRule = checkPasswordRules('', {
+      policy: { ...DEFAULT_PASSWORD_POLICY, requireSymbol: true },
+    });
+
+    for (const rule of everyRule) {
+      expect(t(`password.rule.${rule.id}`, { min: DEFAULT_PASSWORD_POLICY.minLength })).toBe(
+        rule.label
+      );
+    }
+    expect(
+      (['veryWeak', 'weak', 'fair', 'good', 'strong'] as const).map((level) =>
+        t(`password.strength.${level}`)
+      )
+    ).toEqual(PASSWORD_STRENGTH_LABELS);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import type { DecodedIdToken } from 'firebase-admin/auth';
+
+import { clearLoginAttempts, isFreshPasswordSignIn, recordLoginAttempt } from '../login-attempts';
+import { MemoryRateLimitStore, setRateLimitStore } from '../rate-limit';
+
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+// One after another, as a person retrying would
+async function attempt(times: number, email: string, ip: string | null) {
+  const waits: number[] = [];
+  for (let i = 0; i < times; i++) {
+    waits.push(await recordLoginAttempt(email, ip));
+  }
+  return waits;
+}
+
+describe('login-attempts', () => {
+  beforeEach(() => {
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  it('locks an address out from an IP after 5 attempts', async () => {
+    await expect(attempt(5, 'user@example.com', '203.0.113.1')).resolves.toEqual([0, 0, 0, 0, 0]);
+
+    await expect(recordLoginAttempt('User@Example.com ', '203.0.113.1')).resolves.toBe(LOCKOUT_MS);
+  });
+
+  it('leaves the address open to other IPs', async () => {
+    await attempt(6, 'user@example.com', '203.0.113.1');
+
+    await expect(recordLoginAttempt('user@example.com', '198.51.100.7')).resolves.toBe(0);
+  });
+
+  it('still limits one IP trying many addresses', async () => {
+    for (let i = 0; i < 20; i++) {
+      await attempt(1, `user${i}@example.com`, '203.0.113.1');
+    }
+
+    await expect(recordLoginAttempt('other@example.com', '203.0.113.1')).resolves.toBe(LOCKOUT_MS);
+  });
+
+  it('clears the count for the IP that signed in', async () => {
+    await attempt(4, 'user@example.com', '203.0.113.1');
+
+    await clearLoginAttempts('user@example.com', '203.0.113.1');
+
+    await expect(attempt(5, 'user@example.com', '203.0.113.1')).resolves.toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it('forgets the attempts from an IP once someone there signs in', async () => {
+    for (let i = 0; i < 19; i++) {
+      await attempt(1, `user${i}@example.com`, '203.0.113.1');
+    }
+
+    await clearLoginAttempts('user0@example.com', '203.0.113.1');
+
+    for (let i = 0; i < 20; i++) {
+      await expect(recordLoginAttempt(`other${i}@example.com`, '203.0.113.1')).resolves.toBe(0);
+    }
+  });
+
+  it('only treats a password sign-in made moments ago as a successful attempt', () => {
+    const now = Date.now();
+    const token = (provider: string, authTime: number) =>
+      ({ auth_time: authTime / 1000, firebase: { sign_in_provider: provider } }) as DecodedIdToken;
+
+    expect(isFreshPasswordSignIn(token('password', now - 1000), now)).toBe(true);
+    expect(isFreshPasswordSignIn(token('password', now - 60 * 60 * 1000), now)).toBe(false);
+    expect(isFreshPasswordSignIn(token('google.com', now - 1000), now)).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  checkPasswordRules,
+  DEFAULT_PASSWORD_POLICY,
+  getPasswordPolicy,
+  getPasswordStrength,
+  validatePasswordPolicy,
+} from '../password-policy';
+
+describe('password-policy', () => {
+  describe('getPasswordPolicy', () => {
+    it('uses the default policy unless configured', () => {
+      expect(getPasswordPolicy(undefined, undefined)).toEqual(DEFAULT_PASSWORD_POLICY);
+    });
+
+    it('reads the minimum length and the rules that apply', () => {
+      expect(getPasswordPolicy('12', 'lowercase, symbol,notCommon')).toEqual({
+        minLength: 12,
+        requireLowercase: true,
+        requireUppercase: false,
+        requireNumber: false,
+        requireSymbol: true,
+        disallowEmail: false,
+        disallowCommon: true,
+      });
+    });
+
+    it('can leave only the length rule', () => {
+      expect(checkPasswordRules('', { policy: getPasswordPolicy('10', 'none') })).toEqual([
+        expect.objectContaining({ id: 'minLength' }),
+      ]);
+    });
+
+    it('ignores lengths Firebase would refuse or that are not numbers', () => {
+      expect(getPasswordPolicy('4', undefined).minLength).toBe(8);
+      expect(getPasswordPolicy('ten', undefined).minLength).toBe(8);
+      expect(getPasswordPolicy('9.5', undefined).minLength).toBe(8);
+    });
+  });
+
+  describe('validatePasswordPolicy', () => {
+    it('accepts passwords that satisfy every rule', () => {
+      expect(validatePasswordPolicy('Correct-Horse-42')).toBeUndefined();
+    });
+
+    it('enforces the minimum length', () => {
+      expect(validatePasswordPolicy('Ab1')).toBe('Password must be at least 8 characters');
+    });
+
+    it('enforces the required character classes', () => {
+      expect(validatePasswordPolicy('lowercase1')).toBe(
+        'Password must contain an uppercase letter'
+      );
+      expect(validatePasswordPolicy('UPPERCASE1')).toBe(
+        'Password must contain a lowercase letter'
+      );
+      expect(validatePasswordPolicy('NoNumbersHere')).toBe('Password must contain a number');
+    });
+
+    it('rejects passwords containing the email', () => {
+      expect(validatePasswordPolicy('Jordan2024x', { email: 'jordan@example.com' })).toBe(
+        'Password must not contain your email'
+      );
+    });
+
+    it('rejects common passwords regardless of case', () => {
+      expect(validatePasswordPolicy('Password123')).toBe(
+        'This password is too common. Please choose another one.'
+      );
+    });
+
+    it('honours a custom policy', () => {
+      const policy = { ...DEFAULT_PASSWORD_POLICY, minLength: 12, requireSymbol: true };
+      expect(validatePasswordPolicy('Correct1Horse', { policy })).toBe(
+        'Password must contain a symbol'
+      );
+      expect(checkPasswordRules('', { policy }).map((rule) => rule.id)).toContain('symbol');
+    });
+  });
+
+  describe('getPasswordStrength', () => {
+    it('scores empty, common and email-based passwords as very weak', () => {
+      expect(getPasswordStrength('').score).toBe(0);
+      expect(getPasswordStrength('qwerty123').score).toBe(0);
+      expect(getPasswordStrength('Jordan2024x', { email: 'jordan@example.com' }).score).toBe(0);
+    });
+
+    it('rewards length and character variety', () => {
+      expect(getPasswordStrength('abcdefgh').label).toBe('Weak');
+      expect(getPasswordStrength('Abcdefg1').label).toBe('Fair');
+      expect(getPasswordStrength('Correct-Horse-42').label).toBe('Strong');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * @jest-environment node
+ */
+import { AdminRequestError } from '../admin';
+import { sendPasswordResetEmail } from '../password-reset-email';
+import { getServerEnv } from '../server-env';
+
+jest.mock('../client-env', () => ({
+  getClientEnv: () => ({ firebase: { apiKey: 'api-key' } }),
+}));
+
+jest.mock('../server-env', () => ({
+  getServerEnv: jest.fn(),
+}));
+
+const options = { continueUrl: 'https://app.example.com/login', locale: 'id' as const };
+
+describe('sendPasswordResetEmail', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset().mockResolvedValue({ ok: true });
+    global.fetch = fetchMock;
+    (getServerEnv as jest.Mock).mockReturnValue({ projectId: 'my-app' });
+  });
+
+  it('has Firebase email the link in the requested language', async () => {
+    await sendPasswordResetEmail('user@example.com', options);
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://identitytoolkit.googleapis.com/v1/accounts:sendOobCode?key=api-key',
+      expect.objectContaining({ method: 'POST' })
+    );
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toHaveProperty('X-Firebase-Locale', 'id');
+    expect(JSON.parse(init.body)).toEqual({
+      requestType: 'PASSWORD_RESET',
+      email: 'user@example.com',
+      continueUrl: 'https://app.example.com/login',
+    });
+  });
+
+  it('goes through the Auth emulator when one is configured', async () => {
+    (getServerEnv as jest.Mock).mockReturnValue({
+      authEmulatorHost: '127.0.0.1:9099',
+      projectId: 'demo-project',
+    });
+
+    await sendPasswordResetEmail('user@example.com', options);
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(
+      /^http:\/\/127\.0\.0\.1:9099\/identitytoolkit\.googleapis\.com\/v1\/accounts:sendOobCode/
+    );
+  });
+
+  it('fails when Firebase does not accept the request', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false });
+    await expect(sendPasswordResetEmail('user@example.com', options)).rejects.toBeInstanceOf(
+      AdminRequestError
+    );
+
+    fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+    await expect(sendPasswordResetEmail('user@example.com', options)).rejects.toMatchObject({
+      status: 502,
+    });
+  });
+});
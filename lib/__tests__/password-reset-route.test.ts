@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+
+import { POST } from '@/app/api/admin/users/[uid]/password-reset/route';
+import { recordAdminAction } from '@/lib/audit-log';
+import { requireRole } from '@/lib/authorization';
+import { firebaseAdmin } from '@/lib/firebase-admin';
+import { sendPasswordResetEmail } from '@/lib/password-reset-email';
+import { revokeAllSessions } from '@/lib/session';
+
+jest.mock('@/lib/authorization', () => ({
+  requireRole: jest.fn(),
+}));
+
+jest.mock('@/lib/firebase-admin', () => ({
+  firebaseAdmin: {
+    getUser: jest.fn(),
+    updateUser: jest.fn(),
+    generatePasswordResetLink: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/session', () => ({
+  revokeAllSessions: jest.fn(),
+}));
+
+jest.mock('@/lib/audit-log', () => ({
+  recordAdminAction: jest.fn(),
+}));
+
+jest.mock('@/lib/password-reset-email', () => ({
+  sendPasswordResetEmail: jest.fn(),
+}));
+
+jest.mock('@/lib/request-locale', () => ({
+  getRequestLocale: jest.fn().mockResolvedValue('id'),
+}));
+
+const createRecord = (customClaims: Record<string, unknown> = {}) => ({
+  uid: 'user-1',
+  email: 'user@example.com',
+  emailVerified: true,
+  disabled: false,
+  providerData: [{ providerId: 'password' }],
+  customClaims,
+  metadata: {},
+});
+
+const forceReset = () =>
+  POST(
+    new NextRequest('http://localhost/api/admin/users/user-1/password-reset', { method: 'POST' }),
+    { params: Promise.resolve({ uid: 'user-1' }) }
+  );
+
+describe('POST /api/admin/users/[uid]/password-reset', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (requireRole as jest.Mock).mockResolvedValue({ user: { uid: 'admin-1' }, response: null });
+  });
+
+  it('clears the password without handing a reset link to the admin', async () => {
+    (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(createRecord());
+
+    const response = await forceReset();
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.user).toEqual(expect.objectContaining({ uid: 'user-1' }));
+    expect(JSON.stringify(body)).not.toMatch(/link/i);
+    expect(firebaseAdmin.generatePasswordResetLink).not.toHaveBeenCalled();
+    expect(sendPasswordResetEmail).toHaveBeenCalledWith('user@example.com', {
+      continueUrl: 'http://localhost/login',
+      locale: 'id',
+    });
+    expect(revokeAllSessions).toHaveBeenCalledWith('user-1');
+    expect(recordAdminAction).toHaveBeenCalledWith(
+      expect.objectContaining({ adminUid: 'admin-1', uid: 'user-1', action: 'force_password_reset' })
+    );
+  });
+
+  it('refuses accounts with the admin role', async () => {
+    (firebaseAdmin.getUser as jest.Mock).mockResolvedValue(createRecord({ roles: ['admin'] }));
+
+    const response = await forceReset();
+
+    expect(response.status).toBe(403);
+    expect(firebaseAdmin.updateUser).not.toHaveBeenCalled();
+    expect(revokeAllSessions).not.toHaveBeenCalled();
+    expect(recordAdminAction).not.toHaveBeenCalled();
+  });
+
+  it('rejects callers without the admin role', async () => {
+    (requireRole as jest.Mock).mockResolvedValue({
+      user: null,
+      response: Response.json({ error: 'Forbidden' }, { status: 403 }),
+    });
+
+    const response = await forceReset();
+
+    expect(response.status).toBe(403);
+    expect(firebaseAdmin.getUser).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+import { MemoryRateLimitStore, SlidingWindowRateLimiter } from '../rate-limit';
+
+describe('SlidingWindowRateLimiter', () => {
+  let store: MemoryRateLimitStore;
+  let limiter: SlidingWindowRateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T10:00:00Z') });
+    store = new MemoryRateLimitStore();
+    limiter = new SlidingWindowRateLimiter(
+      { name: 'test', limit: 3, windowMs: 60_000, lockoutMs: 300_000 },
+      () => store
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('allows hits up to the limit', async () => {
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: true, remaining: 2 });
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: true, remaining: 1 });
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: true, remaining: 0 });
+  });
+
+  it('locks the key out once the limit is exceeded', async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.hit('key');
+    }
+
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: false, retryAfterMs: 300_000 });
+
+    jest.advanceTimersByTime(120_000);
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: false, retryAfterMs: 180_000 });
+
+    jest.advanceTimersByTime(180_000);
+    await expect(limiter.hit('key')).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('lets old hits slide out of the window', async () => {
+    await limiter.hit('key');
+    jest.advanceTimersByTime(30_000);
+    await limiter.hit('key');
+    await limiter.hit('key');
+
+    jest.advanceTimersByTime(30_001);
+
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: true, remaining: 0 });
+  });
+
+  it('counts keys separately', async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.hit('first');
+    }
+
+    await expect(limiter.hit('second')).resolves.toMatchObject({ allowed: true });
+  });
+
+  it('forgets hits and lockouts on reset', async () => {
+    for (let i = 0; i < 4; i++) {
+      await limiter.hit('key');
+    }
+
+    await limiter.reset('key');
+
+    await expect(limiter.hit('key')).resolves.toEqual({ allowed: true, remaining: 2 });
+  });
+});
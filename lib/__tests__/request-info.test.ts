@@ -0,0 +1,74 @@
+import { describeUserAgent, getClientIp, getTrustedProxyCount } from '../request-info';
+
+describe('getClientIp', () => {
+  it('uses the x-forwarded-for entry added by the trusted proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7' });
+
+    expect(getClientIp(headers, 1)).toBe('203.0.113.7');
+  });
+
+  it('ignores addresses the client put in x-forwarded-for itself', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.99, 203.0.113.7' });
+
+    expect(getClientIp(headers, 1)).toBe('203.0.113.7');
+  });
+
+  it('counts back one entry per trusted proxy', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.99, 203.0.113.7, 10.0.0.1' });
+
+    expect(getClientIp(headers, 2)).toBe('203.0.113.7');
+    expect(getClientIp(new Headers({ 'x-forwarded-for': '203.0.113.7' }), 2)).toBeNull();
+  });
+
+  it('trusts no header when requests arrive directly', () => {
+    const headers = new Headers({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.7' });
+
+    expect(getClientIp(headers, 0)).toBeNull();
+  });
+
+  it('falls back to x-real-ip', () => {
+    expect(getClientIp(new Headers({ 'x-real-ip': '198.51.100.4' }))).toBe('198.51.100.4');
+  });
+
+  it('returns null when the IP is unknown', () => {
+    expect(getClientIp(new Headers())).toBeNull();
+  });
+});
+
+describe('getTrustedProxyCount', () => {
+  it('assumes one proxy unless configured', () => {
+    expect(getTrustedProxyCount(undefined)).toBe(1);
+    expect(getTrustedProxyCount('2')).toBe(2);
+    expect(getTrustedProxyCount('0')).toBe(0);
+  });
+
+  it('ignores values that are not a proxy count', () => {
+    expect(getTrustedProxyCount('-1')).toBe(1);
+    expect(getTrustedProxyCount('two')).toBe(1);
+  });
+});
+
+describe('describeUserAgent', () => {
+  it.each([
+    [
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15',
+      'Safari on macOS',
+    ],
+    [
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+      'Edge on Windows',
+    ],
+    [
+      'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+      'Chrome on Android',
+    ],
+    ['Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0', 'Firefox on Linux'],
+  ])('describes %s', (userAgent, expected) => {
+    expect(describeUserAgent(userAgent)).toBe(expected);
+  });
+
+  it('handles missing or unrecognised user agents', () => {
+    expect(describeUserAgent(null)).toBe('Unknown device');
+    expect(describeUserAgent('curl/8.4.0')).toBe('Unknown device');
+  });
+});
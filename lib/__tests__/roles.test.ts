@@ -0,0 +1,37 @@
+import { getRoles, hasRole, withRoles } from '../roles';
+
+describe('roles', () => {
+  describe('getRoles', () => {
+    it('reads known roles from the roles claim', () => {
+      expect(getRoles({ roles: ['viewer', 'owner', 'editor'] })).toEqual(['editor', 'viewer']);
+    });
+
+    it('treats the legacy admin flag as the admin role', () => {
+      expect(getRoles({ admin: true })).toEqual(['admin']);
+    });
+
+    it('returns no roles for missing or malformed claims', () => {
+      expect(getRoles(null)).toEqual([]);
+      expect(getRoles({ roles: 'admin' })).toEqual([]);
+    });
+  });
+
+  describe('hasRole', () => {
+    it('lets higher roles do what lower roles can', () => {
+      expect(hasRole({ roles: ['admin'] }, 'viewer')).toBe(true);
+      expect(hasRole({ roles: ['editor'] }, 'editor')).toBe(true);
+      expect(hasRole({ roles: ['editor'] }, 'admin')).toBe(false);
+      expect(hasRole({}, 'viewer')).toBe(false);
+    });
+  });
+
+  describe('withRoles', () => {
+    it('swaps the roles and drops the legacy admin flag', () => {
+      expect(withRoles({ admin: true, tenant: 'acme' }, ['viewer', 'editor'])).toEqual({
+        tenant: 'acme',
+        roles: ['editor', 'viewer'],
+      });
+      expect(withRoles(undefined, [])).toEqual({ roles: [] });
+    });
+  });
+});
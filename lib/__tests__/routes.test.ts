@@ -0,0 +1,51 @@
+import { getSafeReturnTo, matchesRoute } from '../routes';
+
+describe('routes', () => {
+  describe('matchesRoute', () => {
+    it('matches the route itself and nested paths', () => {
+      expect(matchesRoute('/dashboard', ['/dashboard'])).toBe(true);
+      expect(matchesRoute('/dashboard/profile', ['/dashboard'])).toBe(true);
+    });
+
+    it('does not match routes that only share a prefix', () => {
+      expect(matchesRoute('/dashboards', ['/dashboard'])).toBe(false);
+      expect(matchesRoute('/', ['/dashboard'])).toBe(false);
+    });
+  });
+
+  describe('getSafeReturnTo', () => {
+    it('keeps relative paths with their query string', () => {
+      expect(getSafeReturnTo('/dashboard/profile?tab=security')).toBe(
+        '/dashboard/profile?tab=security'
+      );
+    });
+
+    it('falls back to the dashboard for missing values', () => {
+      expect(getSafeReturnTo(null)).toBe('/dashboard');
+      expect(getSafeReturnTo('')).toBe('/dashboard');
+    });
+
+    it('rejects absolute and protocol-relative URLs', () => {
+      expect(getSafeReturnTo('https://evil.example.com')).toBe('/dashboard');
+      expect(getSafeReturnTo('//evil.example.com')).toBe('/dashboard');
+      expect(getSafeReturnTo('/\\evil.example.com')).toBe('/dashboard');
+    });
+
+    it('rejects paths with whitespace or control characters', () => {
+      expect(getSafeReturnTo('/\t/evil.example')).toBe('/dashboard');
+      expect(getSafeReturnTo('/\n/evil.example')).toBe('/dashboard');
+      expect(getSafeReturnTo('/%09/evil.example')).toBe('/dashboard');
+      expect(getSafeReturnTo('/%0A/evil.example')).toBe('/dashboard');
+      expect(getSafeReturnTo('/ /evil.example')).toBe('/dashboard');
+    });
+
+    it('rejects values read back from a query string with an encoded tab', () => {
+      const returnTo = new URLSearchParams('returnTo=/%09/evil.example').get('returnTo');
+      expect(getSafeReturnTo(returnTo)).toBe('/dashboard');
+    });
+
+    it('rejects guest-only routes to avoid redirect loops', () => {
+      expect(getSafeReturnTo('/login?returnTo=/dashboard')).toBe('/dashboard');
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import type { User } from 'firebase/auth';
+
+import { clearServerSession, createServerSession, SessionRevokedError } from '../session-client';
+
+const user = { getIdToken: jest.fn().mockResolvedValue('id-token') } as unknown as User;
+
+describe('session-client', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  it('tells a refused, revoked sign-in apart from other failures', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 403 });
+    await expect(createServerSession(user, false)).rejects.toBeInstanceOf(SessionRevokedError);
+
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 401 });
+    await expect(createServerSession(user, false)).rejects.not.toBeInstanceOf(
+      SessionRevokedError
+    );
+  });
+
+  it('fails when the session cookie could not be cleared', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 500 });
+
+    await expect(clearServerSession()).rejects.toThrow('Could not sign out. Please try again.');
+  });
+
+  it('clears the session cookie', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await expect(clearServerSession()).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledWith('/api/session', { method: 'DELETE' });
+  });
+});
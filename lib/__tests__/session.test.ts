@@ -0,0 +1,178 @@
+/**
+ * @jest-environment node
+ */
+import { firebaseAdmin } from '../firebase-admin';
+import {
+  createSessionCookie,
+  getSessionCookieOptions,
+  getSessionId,
+  revokeAllSessions,
+  revokeSession,
+  SESSION_EXPIRES_IN_MS,
+  SHORT_SESSION_EXPIRES_IN_MS,
+  SignInRevokedError,
+  verifySessionCookie,
+} from '../session';
+import { getSessionStore, MemorySessionStore, setSessionStore } from '../session-store';
+import { listUserSessions } from '../user-sessions';
+
+jest.mock('next/headers', () => ({
+  cookies: jest.fn(),
+}));
+
+jest.mock('../firebase-admin', () => ({
+  firebaseAdmin: {
+    verifyIdToken: jest.fn(),
+    createSessionCookie: jest.fn(),
+    verifySessionCookie: jest.fn(),
+    revokeRefreshTokens: jest.fn(),
+  },
+}));
+
+const context = { userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0', ip: '203.0.113.7' };
+
+describe('session', () => {
+  let cookieCount: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cookieCount = 0;
+    setSessionStore(new MemorySessionStore());
+    (firebaseAdmin.verifyIdToken as jest.Mock).mockResolvedValue({
+      uid: 'user-1',
+      auth_time: 1_700_000_000,
+    });
+    (firebaseAdmin.createSessionCookie as jest.Mock).mockImplementation(
+      async () => `session-cookie-${++cookieCount}`
+    );
+    (firebaseAdmin.verifySessionCookie as jest.Mock).mockResolvedValue({ uid: 'user-1' });
+  });
+
+  it('records who created the session and from where', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+
+    const [session] = await listUserSessions('user-1', getSessionId(cookie));
+    expect(session).toMatchObject({
+      device: 'Chrome on Windows',
+      ip: '203.0.113.7',
+      current: true,
+    });
+  });
+
+  it('never stores the cookie itself', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+
+    const record = await getSessionStore().get(getSessionId(cookie));
+    expect(JSON.stringify(record)).not.toContain(cookie);
+  });
+
+  it('keeps remembered sessions for the full lifetime', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', {
+      ...context,
+      remember: true,
+    });
+
+    expect(firebaseAdmin.createSessionCookie).toHaveBeenCalledWith('id-token', {
+      expiresIn: SESSION_EXPIRES_IN_MS,
+    });
+    const record = await getSessionStore().get(getSessionId(cookie));
+    expect(record?.expiresAt).toBe(Number(record?.createdAt) + SESSION_EXPIRES_IN_MS);
+    expect(getSessionCookieOptions(true)).toHaveProperty('maxAge', SESSION_EXPIRES_IN_MS / 1000);
+  });
+
+  it('gives sessions that are not remembered a short, browser-session cookie', async () => {
+    await createSessionCookie('id-token', { ...context, remember: false });
+
+    expect(firebaseAdmin.createSessionCookie).toHaveBeenCalledWith('id-token', {
+      expiresIn: SHORT_SESSION_EXPIRES_IN_MS,
+    });
+    expect(getSessionCookieOptions(false)).not.toHaveProperty('maxAge');
+  });
+
+  it('applies the configured default when the choice is not given', async () => {
+    const originalDefault = process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT;
+    process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT = 'true';
+
+    try {
+      await createSessionCookie('id-token', context);
+    } finally {
+      if (originalDefault === undefined) {
+        delete process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT;
+      } else {
+        process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT = originalDefault;
+      }
+    }
+
+    expect(firebaseAdmin.createSessionCookie).toHaveBeenCalledWith('id-token', {
+      expiresIn: SESSION_EXPIRES_IN_MS,
+    });
+  });
+
+  it('checks revocation when verifying the cookie', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+
+    await expect(verifySessionCookie(cookie)).resolves.toEqual({ uid: 'user-1' });
+    expect(firebaseAdmin.verifySessionCookie).toHaveBeenCalledWith(cookie, true);
+  });
+
+  it('rejects a session that was ended individually', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+    const { sessionCookie: otherCookie } = await createSessionCookie('id-token', context);
+
+    await revokeSession(getSessionId(cookie));
+
+    await expect(verifySessionCookie(cookie)).resolves.toBeNull();
+    await expect(verifySessionCookie(otherCookie)).resolves.toEqual({ uid: 'user-1' });
+  });
+
+  it('keeps a device whose session was ended from getting a new one', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+
+    await revokeSession(getSessionId(cookie), { signOutDevice: true });
+
+    await expect(createSessionCookie('id-token', context)).rejects.toThrow(SignInRevokedError);
+    expect(firebaseAdmin.createSessionCookie).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets other devices and fresh sign-ins start sessions after one was ended', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+    await revokeSession(getSessionId(cookie), { signOutDevice: true });
+
+    (firebaseAdmin.verifyIdToken as jest.Mock).mockResolvedValue({
+      uid: 'user-1',
+      auth_time: 1_700_000_500,
+    });
+
+    await expect(createSessionCookie('id-token', context)).resolves.toHaveProperty(
+      'sessionCookie'
+    );
+  });
+
+  it('lets a device replace its own cookie', async () => {
+    const { sessionCookie: cookie } = await createSessionCookie('id-token', context);
+
+    await revokeSession(getSessionId(cookie));
+
+    await expect(createSessionCookie('id-token', context)).resolves.toHaveProperty(
+      'sessionCookie'
+    );
+  });
+
+  it('revokes refresh tokens and every recorded session when signing out everywhere', async () => {
+    await createSessionCookie('id-token', context);
+    await createSessionCookie('id-token', context);
+
+    await revokeAllSessions('user-1');
+
+    expect(firebaseAdmin.revokeRefreshTokens).toHaveBeenCalledWith('user-1');
+    await expect(listUserSessions('user-1', null)).resolves.toEqual([]);
+  });
+
+  it('treats cookies Firebase rejects as signed out', async () => {
+    (firebaseAdmin.verifySessionCookie as jest.Mock).mockRejectedValueOnce(
+      Object.assign(new Error('revoked'), { code: 'auth/session-cookie-revoked' })
+    );
+
+    await expect(verifySessionCookie('session-cookie')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import type { AdminUser, AdminUserPage } from '@/lib/admin-users';
+import type { Role } from '@/lib/roles';
+
+const ADMIN_USERS_API = '/api/admin/users';
+
+interface FetchUsersOptions {
+  query?: string;
+  pageToken?: string | null;
+}
+
+// Calls an admin route handler and surfaces its error message, which is
+// already written for the admin reading it.
+async function adminRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${ADMIN_USERS_API}${path}`, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error ?? 'Something went wrong. Please try again.');
+  }
+  return body as T;
+}
+
+const userPath = (uid: string) => `/${encodeURIComponent(uid)}`;
+
+export function fetchUsers({ query, pageToken }: FetchUsersOptions = {}): Promise<AdminUserPage> {
+  const params = new URLSearchParams();
+  if (query) {
+    params.set('q', query);
+  }
+  if (pageToken) {
+    params.set('pageToken', pageToken);
+  }
+  const search = params.toString();
+  return adminRequest<AdminUserPage>(search ? `?${search}` : '');
+}
+
+export async function setUserDisabled(uid: string, disabled: boolean): Promise<AdminUser> {
+  const { user } = await adminRequest<{ user: AdminUser }>(userPath(uid), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ disabled }),
+  });
+  return user;
+}
+
+export async function setUserRoles(uid: string, roles: Role[]): Promise<AdminUser> {
+  const { user } = await adminRequest<{ user: AdminUser }>(`${userPath(uid)}/roles`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ roles }),
+  });
+  return user;
+}
+
+export async function revokeSessions(uid: string): Promise<AdminUser> {
+  const { user } = await adminRequest<{ user: AdminUser }>(`${userPath(uid)}/revoke`, {
+    method: 'POST',
+  });
+  return user;
+}
+
+export async function forcePasswordReset(uid: string): Promise<AdminUser> {
+  const { user } = await adminRequest<{ user: AdminUser }>(`${userPath(uid)}/password-reset`, {
+    method: 'POST',
+  });
+  return user;
+}
+
+export async function deleteUser(uid: string): Promise<void> {
+  await adminRequest(userPath(uid), { method: 'DELETE' });
+}
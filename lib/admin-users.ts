@@ -0,0 +1,172 @@
+import { randomBytes } from 'crypto';
+import type { UserRecord } from 'firebase-admin/auth';
+
+import { AdminRequestError } from '@/lib/admin';
+import { getAuthErrorCode } from '@/lib/auth-errors';
+import { firebaseAdmin } from '@/lib/firebase-admin';
+import { sendPasswordResetEmail } from '@/lib/password-reset-email';
+import { getRoles, hasRole, type Role, withRoles } from '@/lib/roles';
+import { revokeAllSessions } from '@/lib/session';
+
+export const DEFAULT_PAGE_SIZE = 25;
+// listUsers accepts up to 1000, but the console only needs a screenful
+export const MAX_PAGE_SIZE = 100;
+
+// The parts of a UserRecord the admin console shows, as plain JSON
+export interface AdminUser {
+  uid: string;
+  email: string | null;
+  emailVerified: boolean;
+  displayName: string | null;
+  phoneNumber: string | null;
+  photoURL: string | null;
+  disabled: boolean;
+  providerIds: string[];
+  roles: Role[];
+  customClaims: Record<string, unknown>;
+  mfaFactorCount: number;
+  createdAt: string | null;
+  lastSignInAt: string | null;
+  lastActiveAt: string | null;
+  tokensValidAfter: string | null;
+}
+
+export interface AdminUserPage {
+  users: AdminUser[];
+  nextPageToken: string | null;
+}
+
+export function toAdminUser(record: UserRecord): AdminUser {
+  return {
+    uid: record.uid,
+    email: record.email ?? null,
+    emailVerified: record.emailVerified,
+    displayName: record.displayName ?? null,
+    phoneNumber: record.phoneNumber ?? null,
+    photoURL: record.photoURL ?? null,
+    disabled: record.disabled,
+    providerIds: record.providerData.map((profile) => profile.providerId),
+    roles: getRoles(record.customClaims),
+    customClaims: record.customClaims ?? {},
+    mfaFactorCount: record.multiFactor?.enrolledFactors.length ?? 0,
+    createdAt: record.metadata.creationTime ?? null,
+    lastSignInAt: record.metadata.lastSignInTime ?? null,
+    lastActiveAt: record.metadata.lastRefreshTime ?? null,
+    tokensValidAfter: record.tokensValidAfterTime ?? null,
+  };
+}
+
+export function parsePageSize(value: string | null): number {
+  const size = Number.parseInt(value ?? '', 10);
+  if (!Number.isFinite(size) || size < 1) {
+    return DEFAULT_PAGE_SIZE;
+  }
+  return Math.min(size, MAX_PAGE_SIZE);
+}
+
+export async function listAdminUsers(
+  pageToken?: string,
+  pageSize = DEFAULT_PAGE_SIZE
+): Promise<AdminUserPage> {
+  const result = await firebaseAdmin.listUsers(pageSize, pageToken);
+  return {
+    users: result.users.map(toAdminUser),
+    nextPageToken: result.pageToken ?? null,
+  };
+}
+
+function lookUpUser(query: string): Promise<UserRecord> {
+  if (query.includes('@')) {
+    return firebaseAdmin.getUserByEmail(query);
+  }
+  if (query.startsWith('+')) {
+    return firebaseAdmin.getUserByPhoneNumber(query.replace(/[\s\-.()]/g, ''));
+  }
+  return firebaseAdmin.getUser(query);
+}
+
+// Firebase cannot filter listUsers, so searches are exact lookups by email,
+// phone number or uid.
+export async function searchAdminUsers(query: string): Promise<AdminUserPage> {
+  try {
+    const record = await lookUpUser(query.trim());
+    return { users: [toAdminUser(record)], nextPageToken: null };
+  } catch (error) {
+    if (getAuthErrorCode(error) === 'auth/user-not-found') {
+      return { users: [], nextPageToken: null };
+    }
+    throw error;
+  }
+}
+
+export async function getAdminUser(uid: string): Promise<AdminUser> {
+  return toAdminUser(await firebaseAdmin.getUser(uid));
+}
+
+export async function setUserDisabled(uid: string, disabled: boolean): Promise<AdminUser> {
+  const record = await firebaseAdmin.updateUser(uid, { disabled });
+  if (disabled) {
+    // Disabling alone leaves existing sessions usable until their tokens expire
+    await revokeAllSessions(uid);
+  }
+  return toAdminUser(record);
+}
+
+export async function revokeUserSessions(uid: string): Promise<AdminUser> {
+  await revokeAllSessions(uid);
+  return getAdminUser(uid);
+}
+
+// Emails the owner a reset link, then replaces the password with a random one
+// nobody knows and signs the user out everywhere. The email goes first: if it
+// cannot be sent the account is left as it was instead of locked. No reset
+// link is generated here, since whoever holds one can take the account over.
+// Other admins are off limits so one admin cannot lock out another.
+export async function forcePasswordReset(
+  uid: string,
+  emailOptions: Parameters<typeof sendPasswordResetEmail>[1]
+): Promise<AdminUser> {
+  const record = await firebaseAdmin.getUser(uid);
+  const hasPassword = record.providerData.some((profile) => profile.providerId === 'password');
+
+  if (!hasPassword) {
+    throw new AdminRequestError('This account does not sign in with a password');
+  }
+  if (!record.email) {
+    throw new AdminRequestError('This account has no email address to send a reset link to');
+  }
+  if (getRoles(record.customClaims).includes('admin')) {
+    throw new AdminRequestError('Admin passwords cannot be reset from the console', 403);
+  }
+
+  await sendPasswordResetEmail(record.email, emailOptions);
+  await firebaseAdmin.updateUser(uid, { password: randomBytes(32).toString('base64url') });
+  await revokeAllSessions(uid);
+  return getAdminUser(uid);
+}
+
+// The user's ID token picks up the new roles on its next refresh, within an hour
+// Session cookies carry the roles they were issued with for up to 5 days, so
+// taking a role away signs the user out everywhere. New roles can wait for
+// the next sign-in.
+export async function setUserRoles(uid: string, roles: Role[]): Promise<AdminUser> {
+  const record = await firebaseAdmin.getUser(uid);
+  const claims = withRoles(record.customClaims, roles);
+  await firebaseAdmin.setCustomUserClaims(uid, claims);
+
+  if (getRoles(record.customClaims).some((role) => !hasRole(claims, role))) {
+    await revokeAllSessions(uid);
+  }
+  return getAdminUser(uid);
+}
+
+export async function deleteUser(uid: string): Promise<void> {
+  await firebaseAdmin.deleteUser(uid);
+}
+
+// Admins must not lock themselves out of the console by accident
+export function assertNotSelf(adminUid: string, uid: string, action: string) {
+  if (adminUid === uid) {
+    throw new AdminRequestError(`You cannot ${action} your own account`);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+
+import { getAuthErrorCode } from '@/lib/auth-errors';
+
+// Raised for admin requests that are well-formed but not allowed, such as an
+// admin deleting their own account.
+export class AdminRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status = 400
+  ) {
+    super(message);
+    this.name = 'AdminRequestError';
+  }
+}
+
+const ADMIN_ERROR_RESPONSES: Record<string, { status: number; error: string }> = {
+  'auth/user-not-found': { status: 404, error: 'User not found' },
+  'auth/invalid-uid': { status: 400, error: 'Invalid user id' },
+  'auth/invalid-page-token': { status: 400, error: 'Invalid page token' },
+  'auth/invalid-email': { status: 400, error: 'Invalid email address' },
+  'auth/invalid-phone-number': { status: 400, error: 'Invalid phone number' },
+};
+
+// Turns errors from admin route handlers into JSON responses without leaking
+// SDK details for anything unexpected.
+export function adminErrorResponse(error: unknown): NextResponse {
+  if (error instanceof AdminRequestError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  const known = ADMIN_ERROR_RESPONSES[getAuthErrorCode(error) ?? ''];
+  if (known) {
+    return NextResponse.json({ error: known.error }, { status: known.status });
+  }
+
+  return NextResponse.json({ error: 'Something went wrong' }, { status: 500 });
+}
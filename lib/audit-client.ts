@@ -0,0 +1,51 @@
+import type { User } from 'firebase/auth';
+
+import type { AuditEvent, AuditEventType, AuditLogFilter } from '@/lib/audit-events';
+
+interface ClientAuditEvent {
+  type: Exclude<AuditEventType, 'admin_action'>;
+  provider?: string;
+  // Only used for events without a signed-in user, e.g. a failed sign-in
+  email?: string;
+  details?: Record<string, string>;
+}
+
+// Reports an auth event to the audit log. Signed-in events carry the user's
+// ID token so the server can tell who it was. Never throws: a missing audit
+// entry must not break signing in or out.
+export async function logAuditEvent(event: ClientAuditEvent, user?: User | null): Promise<void> {
+  try {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (user) {
+      headers.Authorization = `Bearer ${await user.getIdToken()}`;
+    }
+    await fetch('/api/audit', { method: 'POST', headers, body: JSON.stringify(event) });
+  } catch {
+    // Nothing useful to tell the user
+  }
+}
+
+function toSearch(filter: AuditLogFilter, extra: Record<string, string> = {}): string {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filter)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+export async function fetchAuditLog(filter: AuditLogFilter): Promise<AuditEvent[]> {
+  const response = await fetch(`/api/admin/audit${toSearch(filter)}`);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error ?? 'Could not load the audit log.');
+  }
+  return body.events;
+}
+
+export function getAuditCsvUrl(filter: AuditLogFilter): string {
+  return `/api/admin/audit${toSearch(filter, { format: 'csv' })}`;
+}
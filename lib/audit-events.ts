@@ -0,0 +1,57 @@
+// Shared by the audit log's server store, its route handlers and the admin
+// viewer, so it must stay free of server-only imports.
+export const AUDIT_EVENT_TYPES = [
+  'sign_up',
+  'sign_in',
+  'sign_in_failed',
+  'sign_out',
+  'password_reset_requested',
+  'password_reset_completed',
+  'admin_action',
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  sign_up: 'Sign-up',
+  sign_in: 'Sign-in',
+  sign_in_failed: 'Failed sign-in',
+  sign_out: 'Sign-out',
+  password_reset_requested: 'Password reset requested',
+  password_reset_completed: 'Password reset completed',
+  admin_action: 'Admin action',
+};
+
+export function isAuditEventType(value: unknown): value is AuditEventType {
+  return AUDIT_EVENT_TYPES.includes(value as AuditEventType);
+}
+
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  // ISO timestamp, which also sorts correctly as a string
+  createdAt: string;
+  // The account the event is about
+  uid: string | null;
+  email: string | null;
+  // Who caused it: the user themselves, or the admin for admin actions
+  actorUid: string | null;
+  // Sign-in method, e.g. 'password', 'google.com' or 'phone'
+  provider: string | null;
+  // Event-specific extras such as { action: 'disable' } or { errorCode: '...' }
+  details: Record<string, string>;
+  ip: string | null;
+  userAgent: string | null;
+  // False for events an anonymous browser reported, such as failed sign-ins:
+  // anyone can send those, so the email is only what the visitor claimed
+  verified: boolean;
+}
+
+export interface AuditLogFilter {
+  // Matches the user ID or the email address
+  user?: string;
+  type?: AuditEventType;
+  // Inclusive YYYY-MM-DD dates, in UTC
+  from?: string;
+  to?: string;
+}
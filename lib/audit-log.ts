@@ -0,0 +1,263 @@
+import { randomUUID } from 'crypto';
+import type { Firestore } from 'firebase-admin/firestore';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+
+import {
+  type AuditEvent,
+  type AuditEventType,
+  type AuditLogFilter,
+  isAuditEventType,
+} from '@/lib/audit-events';
+import { getClientIp, getUserAgent } from '@/lib/request-info';
+
+// The viewer shows the most recent events; narrow the filter to go further back
+export const MAX_AUDIT_RESULTS = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AuditLogStore {
+  append(event: AuditEvent): Promise<void>;
+  // Newest first, at most `limit` events
+  query(filter: AuditLogFilter, limit: number): Promise<AuditEvent[]>;
+}
+
+// ISO bounds for the filter's inclusive dates; `to` covers the whole day
+function getDateRange({ from, to }: AuditLogFilter) {
+  return {
+    start: from ? new Date(from).toISOString() : null,
+    end: to ? new Date(new Date(to).getTime() + DAY_MS).toISOString() : null,
+  };
+}
+
+export function matchesAuditFilter(event: AuditEvent, filter: AuditLogFilter): boolean {
+  const { start, end } = getDateRange(filter);
+  const user = filter.user?.trim().toLowerCase();
+
+  return (
+    (!filter.type || event.type === filter.type) &&
+    (!user || event.uid?.toLowerCase() === user || event.email?.toLowerCase() === user) &&
+    (!start || event.createdAt >= start) &&
+    (!end || event.createdAt < end)
+  );
+}
+
+// One JSON object per line, appended as events happen. Reading it back scans
+// the whole file, which is fine for a lab-sized log.
+export class JsonlAuditLogStore implements AuditLogStore {
+  constructor(private readonly filePath: string) {}
+
+  async append(event: AuditEvent): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(event)}\n`, 'utf8');
+  }
+
+  async query(filter: AuditLogFilter, limit: number): Promise<AuditEvent[]> {
+    let contents: string;
+    try {
+      contents = await readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const events: AuditEvent[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        // Skip a line cut short by a crash mid-write
+      }
+    }
+
+    return events
+      .filter((event) => matchesAuditFilter(event, filter))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+}
+
+// Stores events in the `auditLog` collection. Set FIRESTORE_EMULATOR_HOST to
+// use the emulator; the Admin SDK picks it up on its own.
+export class FirestoreAuditLogStore implements AuditLogStore {
+  constructor(private readonly firestore: Firestore) {}
+
+  private get collection() {
+    return this.firestore.collection('auditLog');
+  }
+
+  async append(event: AuditEvent): Promise<void> {
+    await this.collection.doc(event.id).set(event);
+  }
+
+  async query(filter: AuditLogFilter, limit: number): Promise<AuditEvent[]> {
+    const { start, end } = getDateRange(filter);
+    let query = this.collection.orderBy('createdAt', 'desc');
+
+    if (filter.type) {
+      query = query.where('type', '==', filter.type);
+    }
+    if (start) {
+      query = query.where('createdAt', '>=', start);
+    }
+    if (end) {
+      query = query.where('createdAt', '<', end);
+    }
+
+    // Firestore cannot match the user ID or the email case-insensitively, so
+    // that part of the filter runs here over a larger page
+    const snapshot = await query.limit(filter.user ? limit * 10 : limit).get();
+    return snapshot.docs
+      .map((doc) => doc.data() as AuditEvent)
+      .filter((event) => matchesAuditFilter(event, filter))
+      .slice(0, limit);
+  }
+}
+
+const globalForAudit = globalThis as typeof globalThis & {
+  auditLogStore?: Promise<AuditLogStore>;
+};
+
+// AUDIT_LOG_STORE=firestore switches to Firestore; otherwise events go to the
+// JSONL file at AUDIT_LOG_FILE (default .audit/audit-log.jsonl).
+async function createAuditLogStore(): Promise<AuditLogStore> {
+  if (process.env.AUDIT_LOG_STORE === 'firestore') {
+    // Loaded on demand so the default setup does not pull in Firestore
+    const [{ getFirestore }] = await Promise.all([
+      import('firebase-admin/firestore'),
+      import('@/lib/firebase-admin'),
+    ]);
+    return new FirestoreAuditLogStore(getFirestore());
+  }
+
+  return new JsonlAuditLogStore(
+    process.env.AUDIT_LOG_FILE ?? path.join(process.cwd(), '.audit', 'audit-log.jsonl')
+  );
+}
+
+export function getAuditLogStore(): Promise<AuditLogStore> {
+  globalForAudit.auditLogStore ??= createAuditLogStore();
+  return globalForAudit.auditLogStore;
+}
+
+export function setAuditLogStore(store: AuditLogStore): void {
+  globalForAudit.auditLogStore = Promise.resolve(store);
+}
+
+export type AuditEventInput = Partial<Omit<AuditEvent, 'id' | 'createdAt' | 'type'>> & {
+  type: AuditEventType;
+};
+
+// Never throws: a broken audit log must not undo or block the action being
+// logged.
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  const event: AuditEvent = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    type: input.type,
+    uid: input.uid ?? null,
+    email: input.email ?? null,
+    actorUid: input.actorUid ?? input.uid ?? null,
+    provider: input.provider ?? null,
+    details: input.details ?? {},
+    ip: input.ip ?? null,
+    userAgent: input.userAgent ?? null,
+    verified: input.verified ?? true,
+  };
+
+  try {
+    await (await getAuditLogStore()).append(event);
+  } catch {
+    // The action itself already happened; losing its record is the lesser harm
+  }
+}
+
+export async function queryAuditLog(filter: AuditLogFilter): Promise<AuditEvent[]> {
+  return (await getAuditLogStore()).query(filter, MAX_AUDIT_RESULTS);
+}
+
+// Reads the viewer's query string, dropping anything malformed
+export function parseAuditFilter(searchParams: URLSearchParams): AuditLogFilter {
+  const type = searchParams.get('type');
+  const from = searchParams.get('from') ?? '';
+  const to = searchParams.get('to') ?? '';
+
+  return {
+    user: searchParams.get('user')?.trim() || undefined,
+    type: isAuditEventType(type) ? type : undefined,
+    from: DATE_PATTERN.test(from) ? from : undefined,
+    to: DATE_PATTERN.test(to) ? to : undefined,
+  };
+}
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'type',
+  'uid',
+  'email',
+  'actorUid',
+  'provider',
+  'details',
+  'ip',
+  'userAgent',
+  'verified',
+] as const;
+
+function escapeCsvValue(value: string): string {
+  // A leading =, +, - or @ would run as a formula when opened in a spreadsheet,
+  // and so would one after a tab or carriage return that some of them skip
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toAuditCsv(events: AuditEvent[]): string {
+  const rows = events.map((event) =>
+    CSV_COLUMNS.map((column) => {
+      const value = event[column];
+      if (column === 'details') {
+        return escapeCsvValue(Object.keys(event.details).length ? JSON.stringify(value) : '');
+      }
+      if (column === 'verified') {
+        return String(event.verified !== false);
+      }
+      return escapeCsvValue(typeof value === 'string' ? value : '');
+    }).join(',')
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+interface AdminActionInput {
+  headers: Headers;
+  adminUid: string;
+  // The account acted on
+  uid: string;
+  email?: string | null;
+  action: string;
+  details?: Record<string, string>;
+}
+
+export async function recordAdminAction({
+  headers,
+  adminUid,
+  uid,
+  email,
+  action,
+  details,
+}: AdminActionInput): Promise<void> {
+  await recordAuditEvent({
+    type: 'admin_action',
+    uid,
+    email,
+    actorUid: adminUid,
+    details: { action, ...details },
+    ip: getClientIp(headers),
+    userAgent: getUserAgent(headers),
+  });
+}
@@ -0,0 +1,112 @@
+import { createTranslator, DEFAULT_LOCALE, type MessageKey, type Translate } from '@/lib/i18n';
+
+export type AuthErrorField = 'email' | 'password' | 'phone';
+
+export interface AuthErrorDisplay {
+  message: string;
+  // Field the message belongs under; banner errors leave it unset.
+  field?: AuthErrorField;
+}
+
+// Friendly messages for the Firebase Auth error codes users can run into.
+// Codes not listed here fall back to the caller's generic message so raw SDK
+// strings never reach the UI.
+const AUTH_ERROR_MESSAGES: Record<string, { key: MessageKey; field?: AuthErrorField }> = {
+  'auth/invalid-email': { field: 'email', key: 'authError.invalidEmail' },
+  'auth/missing-email': { field: 'email', key: 'authError.missingEmail' },
+  'auth/user-not-found': { field: 'email', key: 'authError.userNotFound' },
+  'auth/email-already-in-use': { field: 'email', key: 'authError.emailInUse' },
+  'auth/wrong-password': { field: 'password', key: 'authError.wrongPassword' },
+  'auth/missing-password': { field: 'password', key: 'authError.missingPassword' },
+  'auth/weak-password': { field: 'password', key: 'authError.weakPassword' },
+  'auth/invalid-credential': { key: 'authError.invalidCredential' },
+  'auth/invalid-login-credentials': { key: 'authError.invalidCredential' },
+  'auth/user-disabled': { key: 'authError.userDisabled' },
+  'auth/too-many-requests': { key: 'authError.tooManyRequests' },
+  'auth/popup-closed-by-user': { key: 'authError.popupClosed' },
+  'auth/cancelled-popup-request': { key: 'authError.popupClosed' },
+  'auth/popup-blocked': { key: 'authError.popupBlocked' },
+  'auth/network-request-failed': { key: 'authError.network' },
+  'auth/operation-not-allowed': { key: 'authError.operationNotAllowed' },
+  'auth/account-exists-with-different-credential': { key: 'authError.accountExists' },
+  'auth/credential-already-in-use': { key: 'authError.credentialInUse' },
+  'auth/provider-already-linked': { key: 'authError.providerLinked' },
+  'auth/no-such-provider': { key: 'authError.noSuchProvider' },
+  'auth/requires-recent-login': { key: 'authError.requiresRecentLogin' },
+  'auth/user-mismatch': { key: 'authError.userMismatch' },
+  'auth/invalid-verification-code': { key: 'authError.invalidCode' },
+  'auth/code-expired': { key: 'authError.codeExpired' },
+  'auth/invalid-phone-number': { field: 'phone', key: 'authError.invalidPhone' },
+  'auth/missing-phone-number': { field: 'phone', key: 'authError.missingPhone' },
+  'auth/quota-exceeded': { key: 'authError.quotaExceeded' },
+  'auth/captcha-check-failed': { key: 'authError.captchaFailed' },
+  'auth/missing-code': { key: 'authError.missingCode' },
+  'auth/unverified-email': { key: 'authError.unverifiedEmail' },
+  'auth/maximum-second-factor-count-exceeded': { key: 'authError.tooManyFactors' },
+  'auth/expired-action-code': { key: 'authError.expiredLink' },
+  'auth/invalid-action-code': { key: 'authError.invalidLink' },
+};
+
+// Screens that are not translated yet keep showing English
+const translateEnglish = createTranslator(DEFAULT_LOCALE);
+
+export function getAuthErrorCode(error: unknown): string | undefined {
+  if (typeof error === 'object' && error !== null && 'code' in error) {
+    const { code } = error as { code: unknown };
+    return typeof code === 'string' ? code : undefined;
+  }
+  return undefined;
+}
+
+export function getAuthErrorDisplay(
+  error: unknown,
+  fallback: string,
+  t: Translate = translateEnglish
+): AuthErrorDisplay {
+  const code = getAuthErrorCode(error);
+  const known = code ? AUTH_ERROR_MESSAGES[code] : undefined;
+
+  if (known) {
+    return known.field
+      ? { field: known.field, message: t(known.key) }
+      : { message: t(known.key) };
+  }
+  if (code) {
+    return { message: fallback };
+  }
+
+  // Errors raised by our own code (e.g. the session exchange) are already
+  // written for users.
+  if (error instanceof Error && error.message) {
+    return { message: error.message };
+  }
+
+  return { message: fallback };
+}
+
+// With email enumeration protection on, Firebase reports a wrong password as
+// invalid-credential so it cannot be told apart from an unknown account
+const WRONG_PASSWORD_CODES = new Set([
+  'auth/wrong-password',
+  'auth/invalid-credential',
+  'auth/invalid-login-credentials',
+]);
+
+export function isWrongPasswordError(error: unknown): boolean {
+  const code = getAuthErrorCode(error);
+  return code !== undefined && WRONG_PASSWORD_CODES.has(code);
+}
+
+// The popup never opened or the browser shut it, as happens with popup
+// blockers, mobile Safari and in-app browsers. A popup the user closed
+// themselves is left out: they meant to cancel.
+const POPUP_UNAVAILABLE_CODES = new Set([
+  'auth/popup-blocked',
+  'auth/cancelled-popup-request',
+  'auth/operation-not-supported-in-this-environment',
+]);
+
+export function isPopupUnavailableError(error: unknown): boolean {
+  const code = getAuthErrorCode(error);
+  return code !== undefined && POPUP_UNAVAILABLE_CODES.has(code);
+}
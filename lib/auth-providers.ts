@@ -0,0 +1,136 @@
+import type { FirebaseError } from 'firebase/app';
+import {
+  type AuthProvider,
+  GithubAuthProvider,
+  GoogleAuthProvider,
+  OAuthProvider,
+  type OAuthCredential,
+} from 'firebase/auth';
+import { Apple, Chrome, Github, KeyRound, type LucideIcon, Monitor } from 'lucide-react';
+
+export interface OAuthProviderConfig {
+  // Short id used in configuration and test ids, e.g. "google"
+  id: string;
+  // Firebase provider id, e.g. "google.com" or "oidc.acme"
+  providerId: string;
+  label: string;
+  icon: LucideIcon;
+  scopes: string[];
+  customParameters?: Record<string, string>;
+}
+
+const OIDC_PROVIDER_ID = process.env.NEXT_PUBLIC_OIDC_PROVIDER_ID;
+
+// Every provider the app knows how to sign in with. Which of them are shown
+// is controlled by NEXT_PUBLIC_AUTH_PROVIDERS; each one must also be enabled
+// in the Firebase console.
+export const OAUTH_PROVIDERS: OAuthProviderConfig[] = [
+  {
+    id: 'google',
+    providerId: 'google.com',
+    label: 'Google',
+    icon: Chrome,
+    scopes: [],
+    customParameters: { prompt: 'select_account' },
+  },
+  {
+    id: 'github',
+    providerId: 'github.com',
+    label: 'GitHub',
+    icon: Github,
+    scopes: ['read:user', 'user:email'],
+  },
+  {
+    id: 'microsoft',
+    providerId: 'microsoft.com',
+    label: 'Microsoft',
+    icon: Monitor,
+    scopes: ['openid', 'email', 'profile'],
+    customParameters: { prompt: 'select_account' },
+  },
+  {
+    id: 'apple',
+    providerId: 'apple.com',
+    label: 'Apple',
+    icon: Apple,
+    scopes: ['email', 'name'],
+  },
+  {
+    id: 'oidc',
+    providerId: `oidc.${OIDC_PROVIDER_ID ?? 'provider'}`,
+    label: process.env.NEXT_PUBLIC_OIDC_PROVIDER_LABEL ?? 'Single Sign-On',
+    icon: KeyRound,
+    scopes: ['openid', 'email', 'profile'],
+  },
+];
+
+export const DEFAULT_ENABLED_PROVIDERS = 'google';
+
+// Phone sign-in is switched on from the same list, although it is not an
+// OAuth provider and has no button of its own.
+export const PHONE_PROVIDER_ID = 'phone';
+
+function parseProviderIds(value: string | undefined): string[] {
+  const ids = (value ?? DEFAULT_ENABLED_PROVIDERS)
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(ids)];
+}
+
+// Parses a comma-separated list of provider ids, keeping the listed order and
+// skipping unknown ids. The OIDC entry needs its Firebase provider id set too.
+export function getEnabledProviders(
+  value: string | undefined = process.env.NEXT_PUBLIC_AUTH_PROVIDERS
+): OAuthProviderConfig[] {
+  return parseProviderIds(value)
+    .map((id) => OAUTH_PROVIDERS.find((provider) => provider.id === id))
+    .filter((provider): provider is OAuthProviderConfig => {
+      if (!provider) {
+        return false;
+      }
+      return provider.id !== 'oidc' || Boolean(OIDC_PROVIDER_ID);
+    });
+}
+
+export function isPhoneSignInEnabled(
+  value: string | undefined = process.env.NEXT_PUBLIC_AUTH_PROVIDERS
+): boolean {
+  return parseProviderIds(value).includes(PHONE_PROVIDER_ID);
+}
+
+export function findProviderConfig(providerId: string): OAuthProviderConfig | undefined {
+  return OAUTH_PROVIDERS.find((provider) => provider.providerId === providerId);
+}
+
+export function createAuthProvider(config: OAuthProviderConfig): AuthProvider {
+  const provider =
+    config.providerId === 'google.com'
+      ? new GoogleAuthProvider()
+      : config.providerId === 'github.com'
+        ? new GithubAuthProvider()
+        : new OAuthProvider(config.providerId);
+
+  config.scopes.forEach((scope) => provider.addScope(scope));
+  if (config.customParameters) {
+    provider.setCustomParameters(config.customParameters);
+  }
+
+  return provider;
+}
+
+// Recovers the credential of a failed sign-in, e.g. to link it once the user
+// has signed in with the method their account already uses.
+export function credentialFromError(
+  config: OAuthProviderConfig,
+  error: FirebaseError
+): OAuthCredential | null {
+  switch (config.providerId) {
+    case 'google.com':
+      return GoogleAuthProvider.credentialFromError(error);
+    case 'github.com':
+      return GithubAuthProvider.credentialFromError(error);
+    default:
+      return OAuthProvider.credentialFromError(error);
+  }
+}
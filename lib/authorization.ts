@@ -0,0 +1,30 @@
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { NextResponse } from 'next/server';
+
+import { hasRole, type Role } from '@/lib/roles';
+import { getSessionUser } from '@/lib/session';
+
+type RoleCheck =
+  | { user: DecodedIdToken; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+// Checks the session user's roles for route handlers and server components.
+// Route handlers return `response` when it is set; server components ignore
+// it and call notFound() or redirect() when there is no `user`.
+//
+//   const { user, response } = await requireRole('editor');
+//   if (response) return response;
+export async function requireRole(role: Role): Promise<RoleCheck> {
+  const user = await getSessionUser();
+
+  if (!user) {
+    return { response: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) };
+  }
+  if (!hasRole(user, role)) {
+    return {
+      response: NextResponse.json({ error: `The ${role} role is required` }, { status: 403 }),
+    };
+  }
+
+  return { user };
+}
@@ -0,0 +1,77 @@
+import type { FirebaseOptions } from 'firebase/app';
+
+import { EMULATOR_HOST_PATTERN, type EnvSchema, type EnvSource, parseEnv } from '@/lib/env';
+
+// Only NEXT_PUBLIC_ variables belong here: Next.js inlines them into the
+// browser bundle. Server secrets live in lib/server-env.ts.
+const CLIENT_ENV_SCHEMA = {
+  NEXT_PUBLIC_FIREBASE_API_KEY: { required: true },
+  NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN: {
+    required: true,
+    pattern: /^[\w.-]+$/,
+    expected: 'a bare host name such as my-app.firebaseapp.com',
+  },
+  NEXT_PUBLIC_FIREBASE_PROJECT_ID: {
+    required: true,
+    pattern: /^[a-z0-9-]+$/,
+    expected: 'a project id such as my-app-1234',
+  },
+  NEXT_PUBLIC_FIREBASE_APP_ID: { required: true },
+  NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET: { required: false },
+  NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID: {
+    required: false,
+    pattern: /^\d+$/,
+    expected: 'a number',
+  },
+  NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID: {
+    required: false,
+    pattern: /^G-\w+$/,
+    expected: 'an id starting with G-',
+  },
+  NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST: {
+    required: false,
+    pattern: EMULATOR_HOST_PATTERN,
+    expected: 'host:port',
+  },
+} satisfies EnvSchema;
+
+export type ClientEnvVar = keyof typeof CLIENT_ENV_SCHEMA;
+
+export const CLIENT_ENV_VARS = Object.keys(CLIENT_ENV_SCHEMA) as ClientEnvVar[];
+
+export interface ClientEnv {
+  firebase: FirebaseOptions;
+  authEmulatorHost?: string;
+}
+
+export function parseClientEnv(source: EnvSource): ClientEnv {
+  const env = parseEnv('client', CLIENT_ENV_SCHEMA, source);
+
+  return {
+    firebase: {
+      apiKey: env.NEXT_PUBLIC_FIREBASE_API_KEY,
+      authDomain: env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+      projectId: env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      storageBucket: env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+      messagingSenderId: env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+      appId: env.NEXT_PUBLIC_FIREBASE_APP_ID,
+      measurementId: env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID,
+    },
+    authEmulatorHost: env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST,
+  };
+}
+
+// Next.js only inlines `process.env.NEXT_PUBLIC_*` when written out in full,
+// so the variables cannot be looked up by name from the schema.
+export function getClientEnv(): ClientEnv {
+  return parseClientEnv({
+    NEXT_PUBLIC_FIREBASE_API_KEY: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
+    NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
+    NEXT_PUBLIC_FIREBASE_PROJECT_ID: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    NEXT_PUBLIC_FIREBASE_APP_ID: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
+    NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
+    NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+    NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID,
+    NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST: process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST,
+  });
+}
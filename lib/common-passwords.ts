@@ -0,0 +1,84 @@
+// Frequently leaked passwords, lowercased. New passwords matching one of these
+// are rejected regardless of the character classes they contain.
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  '000000',
+  '111111',
+  '112233',
+  '121212',
+  '123123',
+  '123321',
+  '1234',
+  '12345',
+  '123456',
+  '1234567',
+  '12345678',
+  '123456789',
+  '1234567890',
+  '123qwe',
+  '1q2w3e',
+  '1q2w3e4r',
+  '1q2w3e4r5t',
+  '1qaz2wsx',
+  '654321',
+  '666666',
+  '696969',
+  '777777',
+  '7777777',
+  '888888',
+  '987654321',
+  'aa123456',
+  'abc123',
+  'abcd1234',
+  'access',
+  'admin',
+  'admin123',
+  'administrator',
+  'asdfgh',
+  'asdfghjkl',
+  'azerty',
+  'baseball',
+  'batman',
+  'charlie',
+  'changeme',
+  'chocolate',
+  'dragon',
+  'football',
+  'freedom',
+  'hello',
+  'hello123',
+  'iloveyou',
+  'letmein',
+  'login',
+  'lovely',
+  'master',
+  'michael',
+  'monkey',
+  'mustang',
+  'ninja',
+  'p@ssw0rd',
+  'p@ssword',
+  'passw0rd',
+  'password',
+  'password!',
+  'password1',
+  'password1!',
+  'password12',
+  'password123',
+  'password123!',
+  'princess',
+  'qazwsx',
+  'qwerty',
+  'qwerty123',
+  'qwerty1234',
+  'qwertyuiop',
+  'shadow',
+  'starwars',
+  'sunshine',
+  'superman',
+  'trustno1',
+  'welcome',
+  'welcome1',
+  'welcome123',
+  'whatever',
+  'zaq12wsx',
+]);
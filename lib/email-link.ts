@@ -0,0 +1,27 @@
+import { sendSignInLinkToEmail } from 'firebase/auth';
+
+import { auth } from '@/lib/firebase';
+import { FINISH_EMAIL_LINK_ROUTE, RETURN_TO_PARAM } from '@/lib/routes';
+
+// The address is kept on this device so the finish page does not have to
+// ask for it again. Opening the link elsewhere falls back to asking.
+export const EMAIL_FOR_SIGN_IN_KEY = 'emailForSignIn';
+
+export async function sendSignInLink(email: string, returnTo: string): Promise<void> {
+  const finishUrl = new URL(FINISH_EMAIL_LINK_ROUTE, window.location.origin);
+  finishUrl.searchParams.set(RETURN_TO_PARAM, returnTo);
+
+  await sendSignInLinkToEmail(auth, email, {
+    url: finishUrl.toString(),
+    handleCodeInApp: true,
+  });
+  window.localStorage.setItem(EMAIL_FOR_SIGN_IN_KEY, email);
+}
+
+export function getStoredEmailForSignIn(): string | null {
+  return window.localStorage.getItem(EMAIL_FOR_SIGN_IN_KEY);
+}
+
+export function clearStoredEmailForSignIn(): void {
+  window.localStorage.removeItem(EMAIL_FOR_SIGN_IN_KEY);
+}
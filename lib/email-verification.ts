@@ -0,0 +1,14 @@
+// The subset of ID token claims needed to decide on email verification. Both
+// the client SDK's parsed claims and the admin SDK's decoded tokens match it.
+interface VerificationClaims {
+  email_verified?: boolean;
+  firebase?: {
+    sign_in_provider?: string;
+  };
+}
+
+// Only password accounts are gated. OAuth providers vouch for the address
+// themselves and phone or anonymous accounts may have no email at all.
+export function requiresEmailVerification(claims: VerificationClaims | null): boolean {
+  return claims?.firebase?.sign_in_provider === 'password' && claims.email_verified !== true;
+}
@@ -0,0 +1,67 @@
+// Shared by the client and server configuration. Nothing here reads
+// process.env itself, so it is safe to import from either side.
+
+export type EnvSource = Record<string, string | undefined>;
+
+export interface EnvVarRule {
+  required: boolean;
+  // Checked only when a value is present
+  pattern?: RegExp;
+  // Shown when the value does not match, e.g. "host:port"
+  expected?: string;
+}
+
+export type EnvSchema = Record<string, EnvVarRule>;
+
+// Required variables come back as plain strings once validated
+export type EnvValues<S extends EnvSchema> = {
+  [K in keyof S]: S[K]['required'] extends true ? string : string | undefined;
+};
+
+// Host and port of a local emulator, e.g. 127.0.0.1:9099
+export const EMULATOR_HOST_PATTERN = /^[\w.-]+:\d{1,5}$/;
+
+export class EnvValidationError extends Error {
+  constructor(
+    scope: string,
+    readonly problems: string[]
+  ) {
+    super(
+      [
+        `Invalid ${scope} environment configuration:`,
+        ...problems.map((problem) => `  - ${problem}`),
+        'Copy .env.example to .env.local and fill in the values.',
+      ].join('\n')
+    );
+    this.name = 'EnvValidationError';
+  }
+}
+
+// Checks every variable before failing, so one error lists everything that
+// needs fixing. Blank values count as missing.
+export function parseEnv<S extends EnvSchema>(
+  scope: string,
+  schema: S,
+  source: EnvSource
+): EnvValues<S> {
+  const problems: string[] = [];
+  const values: Record<string, string | undefined> = {};
+
+  for (const [name, rule] of Object.entries(schema)) {
+    const value = source[name]?.trim() || undefined;
+
+    if (!value) {
+      if (rule.required) {
+        problems.push(`${name} is missing`);
+      }
+    } else if (rule.pattern && !rule.pattern.test(value)) {
+      problems.push(`${name} is malformed, expected ${rule.expected ?? rule.pattern}`);
+    }
+    values[name] = value;
+  }
+
+  if (problems.length) {
+    throw new EnvValidationError(scope, problems);
+  }
+  return values as EnvValues<S>;
+}
@@ -1,12 +1,25 @@
 import admin from 'firebase-admin';
+
+// Relative, not '@/': scripts/grant-admin.ts loads this module through
+// ts-node, which does not know the path alias
+import { getServerEnv } from './server-env';
+
 if (!admin.apps.length) {
-  admin.initializeApp({
-    credential: admin.credential.cert({
-        projectId: process.env.FIREBASE_PROJECT_ID,
-        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
-        privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
-    }),
-  });
+  const env = getServerEnv();
+
+  if (env.authEmulatorHost === undefined) {
+    admin.initializeApp({
+      credential: admin.credential.cert({
+          projectId: env.projectId,
+          clientEmail: env.clientEmail,
+          privateKey: env.privateKey,
+      }),
+    });
+  } else {
+    // The Admin SDK talks to the Auth emulator whenever this variable is set
+    process.env.FIREBASE_AUTH_EMULATOR_HOST = env.authEmulatorHost;
+    admin.initializeApp({ projectId: env.projectId });
+  }
 }
 
 
@@ -1,27 +1,28 @@
 // Import the functions you need from the SDKs you need
 import { getApp, getApps, initializeApp } from "firebase/app";
 import { getAnalytics } from "firebase/analytics";
-import { getAuth } from "firebase/auth";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
 // TODO: Add SDKs for Firebase products that you want to use
 // https://firebase.google.com/docs/web/setup#available-libraries
 
-// Your web app's Firebase configuration
-// For Firebase JS SDK v7.20.0 and later, measurementId is optional
-const firebaseConfig = {
-  apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
-  authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN!,
-  projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID!,
-  storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET!,
-  messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID!,
-  appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID!,
-  measurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID!
-};
+import { getClientEnv } from "@/lib/client-env";
+
+// Your web app's Firebase configuration, validated up front so a missing
+// variable fails with a clear message instead of an SDK error
+const { firebase: firebaseConfig, authEmulatorHost } = getClientEnv();
 
 // Initialize Firebase (guard against multiple inits during HMR)
 const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
 
-// Only initialize analytics in the browser
-const analytics = typeof window !== "undefined" ? getAnalytics(app) : undefined;
+// Only initialize analytics in the browser, and only when it is configured
+const analytics =
+  typeof window !== "undefined" && firebaseConfig.measurementId ? getAnalytics(app) : undefined;
 
 export { analytics };
-export const auth = getAuth(app);
\ No newline at end of file
+export const auth = getAuth(app);
+
+// Set NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST (e.g. 127.0.0.1:9099) to sign in
+// against the local Auth emulator instead of the real project
+if (authEmulatorHost && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, `http://${authEmulatorHost}`, { disableWarnings: true });
+}
\ No newline at end of file
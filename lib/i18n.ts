@@ -0,0 +1,79 @@
+import { en, type MessageKey } from '@/lib/messages/en';
+import { id } from '@/lib/messages/id';
+import { getPasswordPolicy } from '@/lib/password-policy';
+import { DISPLAY_NAME_MAX_LENGTH, type ValidationMessages } from '@/lib/validation';
+
+export type { MessageKey };
+
+export const LOCALES = ['en', 'id'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language is named in itself, so people can find theirs in the switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  id: 'Bahasa Indonesia',
+};
+
+// Remembers the switcher's choice; it wins over Accept-Language
+export const LOCALE_COOKIE = 'locale';
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+export const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, id };
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, values?: MessageValues) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// Fills in {name} placeholders; unknown ones are left as they are
+export function createTranslator(locale: Locale): Translate {
+  const messages = MESSAGES[locale];
+  return (key, values = {}) =>
+    messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in values ? String(values[name]) : placeholder
+    );
+}
+
+// Picks the supported language the browser ranks highest. Regional variants
+// count as their base language, so "id-ID" selects Indonesian.
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranked = (acceptLanguage ?? '')
+    .split(',')
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(';');
+      const quality = params.find((param) => param.trim().startsWith('q='));
+      return {
+        language: tag.split('-')[0].toLowerCase(),
+        q: quality ? Number(quality.trim().slice(2)) : 1,
+      };
+    })
+    .filter(({ q }) => q > 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ language }) => language);
+
+  return ranked.find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+export function getValidationMessages(t: Translate): ValidationMessages {
+  return {
+    emailRequired: t('validation.emailRequired'),
+    emailInvalid: t('validation.emailInvalid'),
+    passwordRequired: t('validation.passwordRequired'),
+    passwordTooShort: t('validation.passwordTooShort'),
+    passwordRule: (rule) =>
+      t(`validation.passwordRule.${rule.id}`, { min: getPasswordPolicy().minLength }),
+    confirmPasswordRequired: t('validation.confirmPasswordRequired'),
+    passwordMismatch: t('validation.passwordMismatch'),
+    displayNameRequired: t('validation.displayNameRequired'),
+    displayNameTooLong: t('validation.displayNameTooLong', { max: DISPLAY_NAME_MAX_LENGTH }),
+    termsRequired: t('validation.termsRequired'),
+    phoneRequired: t('validation.phoneRequired'),
+    phoneInvalid: t('validation.phoneInvalid'),
+  };
+}
@@ -0,0 +1,21 @@
+// Asks the server for permission to try a password sign-in and returns how
+// many seconds the user has to wait first (0 when they may go ahead). Only a
+// lockout blocks the sign-in: if the check itself fails, Firebase's own abuse
+// protection still applies, and an outage here should not lock everyone out.
+export async function requestLoginAttempt(email: string): Promise<number> {
+  try {
+    const response = await fetch('/api/auth/login-attempts', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+
+    if (response.status !== 429) {
+      return 0;
+    }
+    const body = await response.json().catch(() => null);
+    return typeof body?.retryAfter === 'number' ? body.retryAfter : 60;
+  } catch {
+    return 0;
+  }
+}
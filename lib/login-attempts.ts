@@ -0,0 +1,68 @@
+import type { DecodedIdToken } from 'firebase-admin/auth';
+
+import { SlidingWindowRateLimiter } from '@/lib/rate-limit';
+
+const WINDOW_MS = 15 * 60 * 1000;
+const FRESH_SIGN_IN_MS = 5 * 60 * 1000;
+
+// A person mistyping their password a few times stays well under the email
+// limit. The IP limit is looser because offices and mobile carriers share
+// addresses, and anyone there signing in successfully clears it.
+//
+// The email limit is counted per client IP as well. Anyone can ask to sign in
+// as anyone, so a limit on the address alone would let a stranger lock its
+// owner out; this way they only lock out themselves, and the IP limit still
+// caps how many addresses one client can try.
+const emailLimiter = new SlidingWindowRateLimiter({
+  name: 'login:email',
+  limit: 5,
+  windowMs: WINDOW_MS,
+  lockoutMs: WINDOW_MS,
+});
+
+const ipLimiter = new SlidingWindowRateLimiter({
+  name: 'login:ip',
+  limit: 20,
+  windowMs: WINDOW_MS,
+  lockoutMs: WINDOW_MS,
+});
+
+// Unknown IPs, as in local development, share one count per address
+const getEmailKey = (email: string, ip: string | null) => {
+  const normalized = email.trim().toLowerCase();
+  return ip ? `${ip}:${normalized}` : normalized;
+};
+
+// Counts a password sign-in attempt against the address from this IP and
+// against the IP itself, and returns how long to wait before trying again (0
+// when allowed).
+export async function recordLoginAttempt(email: string, ip: string | null): Promise<number> {
+  if (ip) {
+    const ipResult = await ipLimiter.hit(ip);
+    if (!ipResult.allowed) {
+      return ipResult.retryAfterMs;
+    }
+  }
+
+  const emailResult = await emailLimiter.hit(getEmailKey(email, ip));
+  return emailResult.allowed ? 0 : emailResult.retryAfterMs;
+}
+
+// Called once the user has proven they own the account. Attempts are counted
+// when they are made, since the browser could simply not report a failure;
+// forgetting them on success leaves only the failures counted.
+export async function clearLoginAttempts(email: string, ip: string | null): Promise<void> {
+  await emailLimiter.reset(getEmailKey(email, ip));
+  if (ip) {
+    await ipLimiter.reset(ip);
+  }
+}
+
+// Session cookies are also issued on page loads and profile changes; only a
+// password sign-in made moments ago says the last attempt succeeded
+export function isFreshPasswordSignIn(user: DecodedIdToken, now = Date.now()): boolean {
+  return (
+    user.firebase.sign_in_provider === 'password' &&
+    now - user.auth_time * 1000 <= FRESH_SIGN_IN_MS
+  );
+}
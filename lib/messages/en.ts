@@ -0,0 +1,226 @@
+// English is the reference catalog: every other locale must define the same
+// keys with the same {placeholders}.
+export const en = {
+  'locale.label': 'Language',
+
+  'login.title.signIn': 'Welcome Back',
+  'login.title.signUp': 'Create Account',
+  'login.subtitle.signIn': 'Sign in to your account',
+  'login.subtitle.signUp': 'Sign up to get started',
+  'login.subtitle.emailLink': "We'll email you a link to sign in",
+  'login.subtitle.phone': "We'll text you a code to sign in",
+  'login.tab.email': 'Email',
+  'login.tab.phone': 'Phone',
+  'login.emailLabel': 'Email Address',
+  'login.passwordLabel': 'Password',
+  'login.confirmPasswordLabel': 'Confirm Password',
+  'login.displayNameLabel': 'Display Name',
+  'login.acceptTerms': 'I agree to the Terms of Service and Privacy Policy',
+  'login.rememberMe': 'Keep me signed in',
+  'login.forgotPassword': 'Forgot password?',
+  'login.sendingReset': 'Sending...',
+  'login.submit.signIn': 'Sign In',
+  'login.submit.signUp': 'Create Account',
+  'login.submit.emailLink': 'Email Me a Link',
+  'login.submit.signingIn': 'Signing in...',
+  'login.submit.creatingAccount': 'Creating account...',
+  'login.submit.sendingLink': 'Sending link...',
+  'login.submit.throttled': 'Try again in {time}',
+  'login.useEmailLink': 'Email me a sign-in link instead',
+  'login.usePassword': 'Use a password instead',
+  'login.or': 'or',
+  'login.provider.continue': 'Continue with {provider}',
+  'login.provider.signingIn': 'Signing in with {provider}...',
+  'login.footer.noAccount': "Don't have an account?",
+  'login.footer.hasAccount': 'Already have an account?',
+  'login.footer.signUp': 'Sign up',
+  'login.footer.signIn': 'Sign in',
+  'login.success.signIn': 'Login successful!',
+  'login.success.linked': 'Login successful! {provider} is now connected to your account.',
+  'login.success.signUp': 'Account created! Check your inbox to verify your email.',
+  'login.success.emailLinkSent': 'We sent a sign-in link to {email}. Check your inbox.',
+  'login.success.resetSent': 'Password reset email sent. Check your inbox.',
+  'login.error.signIn': 'Login failed. Please try again.',
+  'login.error.signUp': 'Sign up failed. Please try again.',
+  'login.error.provider': '{provider} login failed. Please try again.',
+  'login.error.linkFailed': '{provider} could not be connected.',
+  'login.error.emailLink': 'Could not send the sign-in link. Please try again.',
+  'login.error.reset': 'Could not send the reset email. Please try again.',
+  'login.signedOutIdle': 'You were signed out after a period of inactivity. Sign in again to continue.',
+  'login.sessionEnded': 'This device was signed out from another device. Sign in again to continue.',
+  'login.lockout': 'Too many sign-in attempts. For your security, try again in {time}.',
+  'login.linkPrompt':
+    'An account already exists for {email}. Sign in with the method you used before to connect {provider} to it.',
+  'login.linkPrompt.thisEmail': 'this email',
+  'login.linkPrompt.cancel': 'Cancel',
+  'login.redirect.dashboard': 'Buffering... Redirecting to dashboard',
+  'login.redirect.verifyEmail': 'Buffering... Redirecting to email verification',
+
+  'validation.emailRequired': 'Email is required',
+  'validation.emailInvalid': 'Please enter a valid email',
+  'validation.passwordRequired': 'Password is required',
+  'validation.passwordTooShort': 'Password must be at least 6 characters',
+  'validation.passwordRule.minLength': 'Password must be at least {min} characters',
+  'validation.passwordRule.lowercase': 'Password must contain a lowercase letter',
+  'validation.passwordRule.uppercase': 'Password must contain an uppercase letter',
+  'validation.passwordRule.number': 'Password must contain a number',
+  'validation.passwordRule.symbol': 'Password must contain a symbol',
+  'validation.passwordRule.noEmail': 'Password must not contain your email',
+  'validation.passwordRule.notCommon': 'This password is too common. Please choose another one.',
+  'validation.confirmPasswordRequired': 'Please confirm your password',
+  'validation.passwordMismatch': 'Passwords do not match',
+  'validation.displayNameRequired': 'Display name is required',
+  'validation.displayNameTooLong': 'Display name must be {max} characters or fewer',
+  'validation.termsRequired': 'You must accept the terms to create an account',
+  'validation.phoneRequired': 'Phone number is required',
+  'validation.phoneInvalid': 'Enter the number in international format, e.g. +1 555 123 4567',
+
+  'dashboard.profileLink': 'Edit profile and credentials',
+  'dashboard.adminLink': 'Manage users',
+  'dashboard.signOut': 'Sign Out',
+  'dashboard.signingOut': 'Signing out...',
+  'dashboard.signedOut': 'Signed out successfully!',
+  'dashboard.signedOutEverywhere': 'Signed out of every device!',
+  'dashboard.signedOutIdle': 'Signed out after a period of inactivity.',
+  'dashboard.idle.title': 'Are you still there?',
+  'dashboard.idle.message': 'You will be signed out in {time} because you have been inactive.',
+  'dashboard.idle.staySignedIn': 'Stay signed in',
+  'dashboard.idle.signOut': 'Sign out now',
+  'dashboard.signOutFailed': 'Sign out failed. Please try again.',
+  'dashboard.redirecting': 'Buffering... Redirecting to login',
+
+  'password.strength': 'Strength: {label}',
+  'password.strength.veryWeak': 'Very weak',
+  'password.strength.weak': 'Weak',
+  'password.strength.fair': 'Fair',
+  'password.strength.good': 'Good',
+  'password.strength.strong': 'Strong',
+  'password.rule.minLength': 'At least {min} characters',
+  'password.rule.lowercase': 'A lowercase letter',
+  'password.rule.uppercase': 'An uppercase letter',
+  'password.rule.number': 'A number',
+  'password.rule.symbol': 'A symbol',
+  'password.rule.noEmail': 'Does not contain your email',
+  'password.rule.notCommon': 'Not a commonly used password',
+
+  'phone.label': 'Phone Number',
+  'phone.hint': 'Include your country code. Message and data rates may apply.',
+  'phone.send': 'Send Code',
+  'phone.sending': 'Sending code...',
+  'phone.cancel': 'Cancel',
+  'phone.codeLabel': 'Verification code',
+  'phone.codeSent': 'Enter the 6-digit code we sent to {phone}.',
+  'phone.codeInvalid': 'Enter the 6-digit code from the text message',
+  'phone.verify': 'Verify Code',
+  'phone.verifying': 'Verifying...',
+  'phone.changeNumber': 'Use a different number',
+  'phone.error.send': 'Could not send the code. Please try again.',
+  'phone.error.verify': 'Verification failed. Please try again.',
+
+  'mfaChallenge.unsupported': 'This account uses a second factor that is not supported here.',
+  'mfaChallenge.back': 'Back to sign in',
+  'mfaChallenge.codeLabel': 'Authentication code',
+  'mfaChallenge.instructions': 'Open your authenticator app and enter the 6-digit code.',
+  'mfaChallenge.instructionsNamed': 'Open "{name}" and enter the 6-digit code.',
+  'mfaChallenge.codeInvalid': 'Enter the 6-digit code from your authenticator app',
+  'mfaChallenge.verify': 'Verify',
+  'mfaChallenge.verifying': 'Verifying...',
+  'mfaChallenge.cancel': 'Cancel',
+  'mfaChallenge.error': 'Verification failed. Please try again.',
+
+  'dashboard.accounts.title': 'Connected accounts',
+  'dashboard.accounts.password': 'Email and password',
+  'dashboard.accounts.phone': 'Phone number',
+  'dashboard.accounts.connect': 'Connect',
+  'dashboard.accounts.connecting': 'Connecting...',
+  'dashboard.accounts.disconnect': 'Disconnect',
+  'dashboard.accounts.disconnecting': 'Disconnecting...',
+  'dashboard.accounts.setPassword': 'Set a password',
+  'dashboard.accounts.addPhone': 'Add phone',
+  'dashboard.accounts.newPassword': 'New password',
+  'dashboard.accounts.savePassword': 'Save password',
+  'dashboard.accounts.saving': 'Saving...',
+  'dashboard.accounts.cancel': 'Cancel',
+  'dashboard.accounts.connected': '{provider} connected.',
+  'dashboard.accounts.disconnected': '{provider} disconnected.',
+  'dashboard.accounts.passwordAdded': 'Password added. You can now sign in with your email.',
+  'dashboard.accounts.phoneConnected': 'Phone number connected.',
+  'dashboard.accounts.error': 'Something went wrong. Please try again.',
+
+  'dashboard.mfa.title': 'Two-step verification',
+  'dashboard.mfa.empty':
+    'Add an authenticator app to protect your account with a one-time code at sign-in.',
+  'dashboard.mfa.defaultName': 'Authenticator app',
+  'dashboard.mfa.authenticator': 'Authenticator',
+  'dashboard.mfa.added': 'Added {date}',
+  'dashboard.mfa.remove': 'Remove',
+  'dashboard.mfa.setUp': 'Set up authenticator app',
+  'dashboard.mfa.preparing': 'Preparing...',
+  'dashboard.mfa.scan':
+    'Scan this QR code with your authenticator app, or enter the secret manually.',
+  'dashboard.mfa.nameLabel': 'Name',
+  'dashboard.mfa.codeLabel': 'Verification code',
+  'dashboard.mfa.codeInvalid': 'Enter the 6-digit code from your authenticator app',
+  'dashboard.mfa.turnOn': 'Turn on',
+  'dashboard.mfa.verifying': 'Verifying...',
+  'dashboard.mfa.cancel': 'Cancel',
+  'dashboard.mfa.enabled': 'Two-step verification is on.',
+  'dashboard.mfa.removed': '{name} removed.',
+  'dashboard.mfa.error.start': 'Could not start authenticator setup. Please try again.',
+  'dashboard.mfa.error.verify': 'Could not verify the code. Please try again.',
+  'dashboard.mfa.error.remove': 'Could not remove the authenticator. Please try again.',
+
+  'dashboard.sessions.title': "Where you're signed in",
+  'dashboard.sessions.loading': 'Loading sessions...',
+  'dashboard.sessions.thisDevice': 'This device',
+  'dashboard.sessions.signedIn': '{ip} · Signed in {time}',
+  'dashboard.sessions.unknownIp': 'Unknown IP',
+  'dashboard.sessions.lastActive': 'Last active {time}',
+  'dashboard.sessions.signOut': 'Sign out',
+  'dashboard.sessions.signingOut': 'Signing out...',
+  'dashboard.sessions.empty': 'No other sessions found.',
+  'dashboard.sessions.signOutEverywhere': 'Sign out everywhere',
+  'dashboard.sessions.confirmSignOutEverywhere': 'Click again to sign out everywhere',
+  'dashboard.sessions.signingOutEverywhere': 'Signing out everywhere...',
+  'dashboard.sessions.signedOutOf': 'Signed out of {device}.',
+  'dashboard.sessions.error.load': 'Could not load your sessions.',
+  'dashboard.sessions.error.revoke': 'Could not end that session. Please try again.',
+  'dashboard.sessions.error.signOutEverywhere': 'Could not sign out everywhere. Please try again.',
+
+  'authError.invalidEmail': 'Please enter a valid email',
+  'authError.missingEmail': 'Email is required',
+  'authError.userNotFound': 'No account found with this email',
+  'authError.emailInUse': 'An account with this email already exists',
+  'authError.wrongPassword': 'Incorrect password',
+  'authError.missingPassword': 'Password is required',
+  'authError.weakPassword': 'Password is too weak. Please choose a stronger one.',
+  'authError.invalidCredential': 'Incorrect email or password.',
+  'authError.userDisabled': 'This account has been disabled. Contact support for help.',
+  'authError.tooManyRequests': 'Too many attempts. Please wait a moment and try again.',
+  'authError.popupClosed': 'The sign-in popup was closed before finishing.',
+  'authError.popupBlocked': 'Your browser blocked the sign-in popup. Allow popups and try again.',
+  'authError.network': 'Network error. Check your connection and try again.',
+  'authError.operationNotAllowed': 'This sign-in method is not enabled.',
+  'authError.accountExists':
+    'An account already exists with this email. Sign in with your existing method.',
+  'authError.credentialInUse': 'This sign-in method is already connected to a different account.',
+  'authError.providerLinked': 'This sign-in method is already connected to your account.',
+  'authError.noSuchProvider': 'This sign-in method is not connected to your account.',
+  'authError.requiresRecentLogin': 'Please sign in again to continue.',
+  'authError.userMismatch':
+    'That sign-in belongs to a different account. Use the account you are signed in with.',
+  'authError.invalidCode': 'That code is incorrect. Please try again.',
+  'authError.codeExpired': 'That code has expired. Request a new one.',
+  'authError.invalidPhone': 'Enter the number in international format, e.g. +1 555 123 4567',
+  'authError.missingPhone': 'Phone number is required',
+  'authError.quotaExceeded': 'Too many codes were sent. Please try again later.',
+  'authError.captchaFailed': 'We could not verify this request. Please try again.',
+  'authError.missingCode': 'Enter the code from your authenticator app.',
+  'authError.unverifiedEmail': 'Verify your email address before setting up two-step verification.',
+  'authError.tooManyFactors': 'You have reached the maximum number of second factors.',
+  'authError.expiredLink': 'This link has expired. Please request a new one.',
+  'authError.invalidLink':
+    'This link is invalid or has already been used. Please request a new one.',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,228 @@
+import type { MessageKey } from '@/lib/messages/en';
+
+export const id: Record<MessageKey, string> = {
+  'locale.label': 'Bahasa',
+
+  'login.title.signIn': 'Selamat Datang Kembali',
+  'login.title.signUp': 'Buat Akun',
+  'login.subtitle.signIn': 'Masuk ke akun Anda',
+  'login.subtitle.signUp': 'Daftar untuk memulai',
+  'login.subtitle.emailLink': 'Kami akan mengirim tautan masuk ke email Anda',
+  'login.subtitle.phone': 'Kami akan mengirim kode masuk lewat SMS',
+  'login.tab.email': 'Email',
+  'login.tab.phone': 'Telepon',
+  'login.emailLabel': 'Alamat Email',
+  'login.passwordLabel': 'Kata Sandi',
+  'login.confirmPasswordLabel': 'Konfirmasi Kata Sandi',
+  'login.displayNameLabel': 'Nama Tampilan',
+  'login.acceptTerms': 'Saya menyetujui Ketentuan Layanan dan Kebijakan Privasi',
+  'login.rememberMe': 'Biarkan saya tetap masuk',
+  'login.forgotPassword': 'Lupa kata sandi?',
+  'login.sendingReset': 'Mengirim...',
+  'login.submit.signIn': 'Masuk',
+  'login.submit.signUp': 'Buat Akun',
+  'login.submit.emailLink': 'Kirimi Saya Tautan',
+  'login.submit.signingIn': 'Sedang masuk...',
+  'login.submit.creatingAccount': 'Membuat akun...',
+  'login.submit.sendingLink': 'Mengirim tautan...',
+  'login.submit.throttled': 'Coba lagi dalam {time}',
+  'login.useEmailLink': 'Kirimi saya tautan masuk lewat email',
+  'login.usePassword': 'Gunakan kata sandi',
+  'login.or': 'atau',
+  'login.provider.continue': 'Lanjutkan dengan {provider}',
+  'login.provider.signingIn': 'Masuk dengan {provider}...',
+  'login.footer.noAccount': 'Belum punya akun?',
+  'login.footer.hasAccount': 'Sudah punya akun?',
+  'login.footer.signUp': 'Daftar',
+  'login.footer.signIn': 'Masuk',
+  'login.success.signIn': 'Berhasil masuk!',
+  'login.success.linked': 'Berhasil masuk! {provider} sekarang terhubung ke akun Anda.',
+  'login.success.signUp':
+    'Akun berhasil dibuat! Periksa kotak masuk untuk memverifikasi email Anda.',
+  'login.success.emailLinkSent':
+    'Kami telah mengirim tautan masuk ke {email}. Periksa kotak masuk Anda.',
+  'login.success.resetSent':
+    'Email untuk mengatur ulang kata sandi telah dikirim. Periksa kotak masuk Anda.',
+  'login.error.signIn': 'Gagal masuk. Silakan coba lagi.',
+  'login.error.signUp': 'Pendaftaran gagal. Silakan coba lagi.',
+  'login.error.provider': 'Gagal masuk dengan {provider}. Silakan coba lagi.',
+  'login.error.linkFailed': '{provider} tidak dapat dihubungkan.',
+  'login.error.emailLink': 'Tidak dapat mengirim tautan masuk. Silakan coba lagi.',
+  'login.error.reset': 'Tidak dapat mengirim email pengaturan ulang. Silakan coba lagi.',
+  'login.signedOutIdle': 'Anda dikeluarkan karena tidak ada aktivitas. Masuk lagi untuk melanjutkan.',
+  'login.sessionEnded': 'Perangkat ini dikeluarkan dari perangkat lain. Masuk lagi untuk melanjutkan.',
+  'login.lockout': 'Terlalu banyak percobaan masuk. Demi keamanan Anda, coba lagi dalam {time}.',
+  'login.linkPrompt':
+    'Sudah ada akun untuk {email}. Masuk dengan metode yang Anda gunakan sebelumnya untuk menghubungkan {provider} ke akun tersebut.',
+  'login.linkPrompt.thisEmail': 'email ini',
+  'login.linkPrompt.cancel': 'Batal',
+  'login.redirect.dashboard': 'Memuat... Mengalihkan ke dasbor',
+  'login.redirect.verifyEmail': 'Memuat... Mengalihkan ke verifikasi email',
+
+  'validation.emailRequired': 'Email wajib diisi',
+  'validation.emailInvalid': 'Masukkan email yang valid',
+  'validation.passwordRequired': 'Kata sandi wajib diisi',
+  'validation.passwordTooShort': 'Kata sandi minimal 6 karakter',
+  'validation.passwordRule.minLength': 'Kata sandi minimal {min} karakter',
+  'validation.passwordRule.lowercase': 'Kata sandi harus mengandung huruf kecil',
+  'validation.passwordRule.uppercase': 'Kata sandi harus mengandung huruf besar',
+  'validation.passwordRule.number': 'Kata sandi harus mengandung angka',
+  'validation.passwordRule.symbol': 'Kata sandi harus mengandung simbol',
+  'validation.passwordRule.noEmail': 'Kata sandi tidak boleh mengandung email Anda',
+  'validation.passwordRule.notCommon': 'Kata sandi ini terlalu umum. Silakan pilih yang lain.',
+  'validation.confirmPasswordRequired': 'Konfirmasi kata sandi Anda',
+  'validation.passwordMismatch': 'Kata sandi tidak cocok',
+  'validation.displayNameRequired': 'Nama tampilan wajib diisi',
+  'validation.displayNameTooLong': 'Nama tampilan maksimal {max} karakter',
+  'validation.termsRequired': 'Anda harus menyetujui ketentuan untuk membuat akun',
+  'validation.phoneRequired': 'Nomor telepon wajib diisi',
+  'validation.phoneInvalid': 'Masukkan nomor dalam format internasional, mis. +62 812 3456 7890',
+
+  'dashboard.profileLink': 'Ubah profil dan kredensial',
+  'dashboard.adminLink': 'Kelola pengguna',
+  'dashboard.signOut': 'Keluar',
+  'dashboard.signingOut': 'Sedang keluar...',
+  'dashboard.signedOut': 'Berhasil keluar!',
+  'dashboard.signedOutEverywhere': 'Berhasil keluar dari semua perangkat!',
+  'dashboard.signedOutIdle': 'Keluar setelah tidak ada aktivitas.',
+  'dashboard.idle.title': 'Apakah Anda masih di sana?',
+  'dashboard.idle.message': 'Anda akan dikeluarkan dalam {time} karena tidak ada aktivitas.',
+  'dashboard.idle.staySignedIn': 'Tetap masuk',
+  'dashboard.idle.signOut': 'Keluar sekarang',
+  'dashboard.signOutFailed': 'Gagal keluar. Silakan coba lagi.',
+  'dashboard.redirecting': 'Memuat... Mengalihkan ke halaman masuk',
+
+  'password.strength': 'Kekuatan: {label}',
+  'password.strength.veryWeak': 'Sangat lemah',
+  'password.strength.weak': 'Lemah',
+  'password.strength.fair': 'Cukup',
+  'password.strength.good': 'Baik',
+  'password.strength.strong': 'Kuat',
+  'password.rule.minLength': 'Minimal {min} karakter',
+  'password.rule.lowercase': 'Huruf kecil',
+  'password.rule.uppercase': 'Huruf besar',
+  'password.rule.number': 'Angka',
+  'password.rule.symbol': 'Simbol',
+  'password.rule.noEmail': 'Tidak mengandung email Anda',
+  'password.rule.notCommon': 'Bukan kata sandi yang umum dipakai',
+
+  'phone.label': 'Nomor Telepon',
+  'phone.hint': 'Sertakan kode negara. Biaya pesan dan data mungkin berlaku.',
+  'phone.send': 'Kirim Kode',
+  'phone.sending': 'Mengirim kode...',
+  'phone.cancel': 'Batal',
+  'phone.codeLabel': 'Kode verifikasi',
+  'phone.codeSent': 'Masukkan kode 6 digit yang kami kirim ke {phone}.',
+  'phone.codeInvalid': 'Masukkan kode 6 digit dari SMS',
+  'phone.verify': 'Verifikasi Kode',
+  'phone.verifying': 'Memverifikasi...',
+  'phone.changeNumber': 'Gunakan nomor lain',
+  'phone.error.send': 'Tidak dapat mengirim kode. Silakan coba lagi.',
+  'phone.error.verify': 'Verifikasi gagal. Silakan coba lagi.',
+
+  'mfaChallenge.unsupported': 'Akun ini memakai faktor kedua yang tidak didukung di sini.',
+  'mfaChallenge.back': 'Kembali ke halaman masuk',
+  'mfaChallenge.codeLabel': 'Kode autentikasi',
+  'mfaChallenge.instructions': 'Buka aplikasi autentikator Anda lalu masukkan kode 6 digit.',
+  'mfaChallenge.instructionsNamed': 'Buka "{name}" lalu masukkan kode 6 digit.',
+  'mfaChallenge.codeInvalid': 'Masukkan kode 6 digit dari aplikasi autentikator Anda',
+  'mfaChallenge.verify': 'Verifikasi',
+  'mfaChallenge.verifying': 'Memverifikasi...',
+  'mfaChallenge.cancel': 'Batal',
+  'mfaChallenge.error': 'Verifikasi gagal. Silakan coba lagi.',
+
+  'dashboard.accounts.title': 'Akun terhubung',
+  'dashboard.accounts.password': 'Email dan kata sandi',
+  'dashboard.accounts.phone': 'Nomor telepon',
+  'dashboard.accounts.connect': 'Hubungkan',
+  'dashboard.accounts.connecting': 'Menghubungkan...',
+  'dashboard.accounts.disconnect': 'Putuskan',
+  'dashboard.accounts.disconnecting': 'Memutuskan...',
+  'dashboard.accounts.setPassword': 'Buat kata sandi',
+  'dashboard.accounts.addPhone': 'Tambah telepon',
+  'dashboard.accounts.newPassword': 'Kata sandi baru',
+  'dashboard.accounts.savePassword': 'Simpan kata sandi',
+  'dashboard.accounts.saving': 'Menyimpan...',
+  'dashboard.accounts.cancel': 'Batal',
+  'dashboard.accounts.connected': '{provider} terhubung.',
+  'dashboard.accounts.disconnected': '{provider} diputuskan.',
+  'dashboard.accounts.passwordAdded':
+    'Kata sandi ditambahkan. Sekarang Anda bisa masuk dengan email.',
+  'dashboard.accounts.phoneConnected': 'Nomor telepon terhubung.',
+  'dashboard.accounts.error': 'Terjadi kesalahan. Silakan coba lagi.',
+
+  'dashboard.mfa.title': 'Verifikasi dua langkah',
+  'dashboard.mfa.empty':
+    'Tambahkan aplikasi autentikator untuk melindungi akun Anda dengan kode sekali pakai saat masuk.',
+  'dashboard.mfa.defaultName': 'Aplikasi autentikator',
+  'dashboard.mfa.authenticator': 'Autentikator',
+  'dashboard.mfa.added': 'Ditambahkan {date}',
+  'dashboard.mfa.remove': 'Hapus',
+  'dashboard.mfa.setUp': 'Atur aplikasi autentikator',
+  'dashboard.mfa.preparing': 'Menyiapkan...',
+  'dashboard.mfa.scan':
+    'Pindai kode QR ini dengan aplikasi autentikator Anda, atau masukkan kunci rahasia secara manual.',
+  'dashboard.mfa.nameLabel': 'Nama',
+  'dashboard.mfa.codeLabel': 'Kode verifikasi',
+  'dashboard.mfa.codeInvalid': 'Masukkan kode 6 digit dari aplikasi autentikator Anda',
+  'dashboard.mfa.turnOn': 'Aktifkan',
+  'dashboard.mfa.verifying': 'Memverifikasi...',
+  'dashboard.mfa.cancel': 'Batal',
+  'dashboard.mfa.enabled': 'Verifikasi dua langkah aktif.',
+  'dashboard.mfa.removed': '{name} dihapus.',
+  'dashboard.mfa.error.start': 'Tidak dapat memulai pengaturan autentikator. Silakan coba lagi.',
+  'dashboard.mfa.error.verify': 'Tidak dapat memverifikasi kode. Silakan coba lagi.',
+  'dashboard.mfa.error.remove': 'Tidak dapat menghapus autentikator. Silakan coba lagi.',
+
+  'dashboard.sessions.title': 'Tempat Anda masuk',
+  'dashboard.sessions.loading': 'Memuat sesi...',
+  'dashboard.sessions.thisDevice': 'Perangkat ini',
+  'dashboard.sessions.signedIn': '{ip} · Masuk {time}',
+  'dashboard.sessions.unknownIp': 'IP tidak diketahui',
+  'dashboard.sessions.lastActive': 'Terakhir aktif {time}',
+  'dashboard.sessions.signOut': 'Keluar',
+  'dashboard.sessions.signingOut': 'Sedang keluar...',
+  'dashboard.sessions.empty': 'Tidak ada sesi lain.',
+  'dashboard.sessions.signOutEverywhere': 'Keluar dari semua perangkat',
+  'dashboard.sessions.confirmSignOutEverywhere': 'Klik lagi untuk keluar dari semua perangkat',
+  'dashboard.sessions.signingOutEverywhere': 'Sedang keluar dari semua perangkat...',
+  'dashboard.sessions.signedOutOf': 'Berhasil keluar dari {device}.',
+  'dashboard.sessions.error.load': 'Tidak dapat memuat sesi Anda.',
+  'dashboard.sessions.error.revoke': 'Tidak dapat mengakhiri sesi itu. Silakan coba lagi.',
+  'dashboard.sessions.error.signOutEverywhere':
+    'Tidak dapat keluar dari semua perangkat. Silakan coba lagi.',
+
+  'authError.invalidEmail': 'Masukkan email yang valid',
+  'authError.missingEmail': 'Email wajib diisi',
+  'authError.userNotFound': 'Tidak ada akun dengan email ini',
+  'authError.emailInUse': 'Akun dengan email ini sudah ada',
+  'authError.wrongPassword': 'Kata sandi salah',
+  'authError.missingPassword': 'Kata sandi wajib diisi',
+  'authError.weakPassword': 'Kata sandi terlalu lemah. Silakan pilih yang lebih kuat.',
+  'authError.invalidCredential': 'Email atau kata sandi salah.',
+  'authError.userDisabled': 'Akun ini telah dinonaktifkan. Hubungi dukungan untuk bantuan.',
+  'authError.tooManyRequests': 'Terlalu banyak percobaan. Tunggu sebentar lalu coba lagi.',
+  'authError.popupClosed': 'Jendela masuk ditutup sebelum selesai.',
+  'authError.popupBlocked': 'Browser Anda memblokir jendela masuk. Izinkan pop-up lalu coba lagi.',
+  'authError.network': 'Kesalahan jaringan. Periksa koneksi Anda lalu coba lagi.',
+  'authError.operationNotAllowed': 'Metode masuk ini tidak diaktifkan.',
+  'authError.accountExists':
+    'Sudah ada akun dengan email ini. Masuk dengan metode yang biasa Anda gunakan.',
+  'authError.credentialInUse': 'Metode masuk ini sudah terhubung ke akun lain.',
+  'authError.providerLinked': 'Metode masuk ini sudah terhubung ke akun Anda.',
+  'authError.noSuchProvider': 'Metode masuk ini tidak terhubung ke akun Anda.',
+  'authError.requiresRecentLogin': 'Silakan masuk lagi untuk melanjutkan.',
+  'authError.userMismatch': 'Data masuk itu milik akun lain. Gunakan akun yang sedang Anda pakai.',
+  'authError.invalidCode': 'Kode itu salah. Silakan coba lagi.',
+  'authError.codeExpired': 'Kode itu sudah kedaluwarsa. Minta kode baru.',
+  'authError.invalidPhone': 'Masukkan nomor dalam format internasional, mis. +62 812 3456 7890',
+  'authError.missingPhone': 'Nomor telepon wajib diisi',
+  'authError.quotaExceeded': 'Terlalu banyak kode yang dikirim. Silakan coba lagi nanti.',
+  'authError.captchaFailed': 'Kami tidak dapat memverifikasi permintaan ini. Silakan coba lagi.',
+  'authError.missingCode': 'Masukkan kode dari aplikasi autentikator Anda.',
+  'authError.unverifiedEmail':
+    'Verifikasi alamat email Anda sebelum mengatur verifikasi dua langkah.',
+  'authError.tooManyFactors': 'Anda telah mencapai jumlah maksimum faktor kedua.',
+  'authError.expiredLink': 'Tautan ini sudah kedaluwarsa. Silakan minta yang baru.',
+  'authError.invalidLink': 'Tautan ini tidak valid atau sudah dipakai. Silakan minta yang baru.',
+};
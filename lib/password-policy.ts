@@ -0,0 +1,206 @@
+import { COMMON_PASSWORDS } from '@/lib/common-passwords';
+
+// Rules for new passwords (sign-up, reset and password change). Sign-in keeps
+// the plain Firebase minimum so existing accounts are not locked out.
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  disallowEmail: boolean;
+  disallowCommon: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: false,
+  disallowEmail: true,
+  disallowCommon: true,
+};
+
+export type PasswordRuleId =
+  | 'minLength'
+  | 'lowercase'
+  | 'uppercase'
+  | 'number'
+  | 'symbol'
+  | 'noEmail'
+  | 'notCommon';
+
+// Firebase refuses anything shorter, whatever the app asks for
+const FIREBASE_MIN_PASSWORD_LENGTH = 6;
+
+// The rules NEXT_PUBLIC_PASSWORD_RULES can switch on, by the policy flag they set
+const CONFIGURABLE_RULES = {
+  lowercase: 'requireLowercase',
+  uppercase: 'requireUppercase',
+  number: 'requireNumber',
+  symbol: 'requireSymbol',
+  noEmail: 'disallowEmail',
+  notCommon: 'disallowCommon',
+} as const satisfies Partial<Record<PasswordRuleId, keyof PasswordPolicy>>;
+
+// NEXT_PUBLIC_PASSWORD_MIN_LENGTH sets the minimum length and
+// NEXT_PUBLIC_PASSWORD_RULES the comma-separated rules that apply on top of
+// it, e.g. "lowercase,number,symbol"; an unknown id such as "none" leaves
+// only the length. Missing or malformed values fall back to the default.
+export function getPasswordPolicy(
+  minLength: string | undefined = process.env.NEXT_PUBLIC_PASSWORD_MIN_LENGTH,
+  rules: string | undefined = process.env.NEXT_PUBLIC_PASSWORD_RULES
+): PasswordPolicy {
+  const policy = { ...DEFAULT_PASSWORD_POLICY };
+
+  const length = Number(minLength?.trim() || DEFAULT_PASSWORD_POLICY.minLength);
+  if (Number.isInteger(length) && length >= FIREBASE_MIN_PASSWORD_LENGTH) {
+    policy.minLength = length;
+  }
+
+  if (rules?.trim()) {
+    const enabled = rules.split(',').map((id) => id.trim());
+    for (const [id, flag] of Object.entries(CONFIGURABLE_RULES)) {
+      policy[flag] = enabled.includes(id);
+    }
+  }
+  return policy;
+}
+
+export interface PasswordRuleResult {
+  id: PasswordRuleId;
+  label: string;
+  message: string;
+  passed: boolean;
+}
+
+interface PasswordCheckOptions {
+  email?: string;
+  policy?: PasswordPolicy;
+}
+
+function containsEmail(password: string, email: string | undefined): boolean {
+  if (!email) {
+    return false;
+  }
+
+  const lowerPassword = password.toLowerCase();
+  const lowerEmail = email.toLowerCase();
+  const localPart = lowerEmail.split('@')[0];
+
+  // Very short local parts ("jo@...") would match too many passwords
+  return (
+    lowerPassword.includes(lowerEmail) ||
+    (localPart.length >= 3 && lowerPassword.includes(localPart))
+  );
+}
+
+// Evaluates every enabled rule of the policy, in display order.
+export function checkPasswordRules(
+  password: string,
+  { email, policy = getPasswordPolicy() }: PasswordCheckOptions = {}
+): PasswordRuleResult[] {
+  const rules: PasswordRuleResult[] = [
+    {
+      id: 'minLength',
+      label: `At least ${policy.minLength} characters`,
+      message: `Password must be at least ${policy.minLength} characters`,
+      passed: password.length >= policy.minLength,
+    },
+  ];
+
+  if (policy.requireLowercase) {
+    rules.push({
+      id: 'lowercase',
+      label: 'A lowercase letter',
+      message: 'Password must contain a lowercase letter',
+      passed: /[a-z]/.test(password),
+    });
+  }
+  if (policy.requireUppercase) {
+    rules.push({
+      id: 'uppercase',
+      label: 'An uppercase letter',
+      message: 'Password must contain an uppercase letter',
+      passed: /[A-Z]/.test(password),
+    });
+  }
+  if (policy.requireNumber) {
+    rules.push({
+      id: 'number',
+      label: 'A number',
+      message: 'Password must contain a number',
+      passed: /\d/.test(password),
+    });
+  }
+  if (policy.requireSymbol) {
+    rules.push({
+      id: 'symbol',
+      label: 'A symbol',
+      message: 'Password must contain a symbol',
+      passed: /[^A-Za-z0-9]/.test(password),
+    });
+  }
+  if (policy.disallowEmail) {
+    rules.push({
+      id: 'noEmail',
+      label: 'Does not contain your email',
+      message: 'Password must not contain your email',
+      passed: !containsEmail(password, email),
+    });
+  }
+  if (policy.disallowCommon) {
+    rules.push({
+      id: 'notCommon',
+      label: 'Not a commonly used password',
+      message: 'This password is too common. Please choose another one.',
+      passed: !COMMON_PASSWORDS.has(password.toLowerCase()),
+    });
+  }
+
+  return rules;
+}
+
+// Returns the message of the first failed rule, or undefined when the
+// password satisfies the policy.
+export function validatePasswordPolicy(
+  password: string,
+  options: PasswordCheckOptions = {}
+): string | undefined {
+  return checkPasswordRules(password, options).find((rule) => !rule.passed)?.message;
+}
+
+export type PasswordStrengthScore = 0 | 1 | 2 | 3 | 4;
+
+export const PASSWORD_STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'] as const;
+
+export interface PasswordStrength {
+  score: PasswordStrengthScore;
+  label: (typeof PASSWORD_STRENGTH_LABELS)[number];
+}
+
+// A rough 0-4 estimate for the meter. Passwords that break a hard rule (too
+// common, contains the email) are always "Very weak".
+export function getPasswordStrength(
+  password: string,
+  { email, policy = getPasswordPolicy() }: PasswordCheckOptions = {}
+): PasswordStrength {
+  const isCommon = COMMON_PASSWORDS.has(password.toLowerCase());
+  if (!password || isCommon || containsEmail(password, email)) {
+    return { score: 0, label: PASSWORD_STRENGTH_LABELS[0] };
+  }
+
+  const characterClasses = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((pattern) =>
+    pattern.test(password)
+  ).length;
+
+  let score = 0;
+  if (password.length >= policy.minLength) score++;
+  if (password.length >= Math.max(12, policy.minLength + 4)) score++;
+  if (characterClasses >= 3) score++;
+  if (characterClasses === 4) score++;
+
+  const clamped = Math.min(score, 4) as PasswordStrengthScore;
+  return { score: clamped, label: PASSWORD_STRENGTH_LABELS[clamped] };
+}
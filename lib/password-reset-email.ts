@@ -0,0 +1,41 @@
+import { AdminRequestError } from '@/lib/admin';
+import { getClientEnv } from '@/lib/client-env';
+import type { Locale } from '@/lib/i18n';
+import { getServerEnv } from '@/lib/server-env';
+
+interface PasswordResetEmailOptions {
+  // Where the reset page sends the user once the new password is set
+  continueUrl: string;
+  locale: Locale;
+}
+
+// Has Firebase email a password reset link to the owner. The Admin SDK can
+// only generate links, which would pass through this server; this is the
+// Identity Toolkit call behind the client SDK's sendPasswordResetEmail, so
+// the link goes straight from Firebase to the inbox.
+export async function sendPasswordResetEmail(
+  email: string,
+  { continueUrl, locale }: PasswordResetEmailOptions
+): Promise<void> {
+  const { firebase } = getClientEnv();
+  const { authEmulatorHost } = getServerEnv();
+  const baseUrl = authEmulatorHost
+    ? `http://${authEmulatorHost}/identitytoolkit.googleapis.com`
+    : 'https://identitytoolkit.googleapis.com';
+
+  const response = await fetch(
+    `${baseUrl}/v1/accounts:sendOobCode?key=${encodeURIComponent(firebase.apiKey ?? '')}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Firebase-Locale': locale },
+      body: JSON.stringify({ requestType: 'PASSWORD_RESET', email, continueUrl }),
+    }
+  ).catch(() => null);
+
+  if (!response?.ok) {
+    throw new AdminRequestError(
+      'Could not send the reset email. The password was not changed.',
+      502
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { OAUTH_PROVIDERS, type OAuthProviderConfig } from '@/lib/auth-providers';
+
+// Which provider a redirect sign-in was started with. Kept for the tab only,
+// so /login knows to look for a result and whom to credit it to.
+export const REDIRECT_PROVIDER_KEY = 'redirectSignInProvider';
+
+// NEXT_PUBLIC_AUTH_SIGN_IN_FLOW=redirect skips the popup altogether. Any other
+// value keeps the popup and only redirects when it cannot open.
+export function isRedirectSignInForced(
+  value: string | undefined = process.env.NEXT_PUBLIC_AUTH_SIGN_IN_FLOW
+): boolean {
+  return value?.trim().toLowerCase() === 'redirect';
+}
+
+export function rememberRedirectProvider(config: OAuthProviderConfig): void {
+  window.sessionStorage.setItem(REDIRECT_PROVIDER_KEY, config.id);
+}
+
+// Reads and clears the stored provider, so a reload does not finish the same
+// sign-in twice
+export function takeRedirectProvider(): OAuthProviderConfig | null {
+  const id = window.sessionStorage.getItem(REDIRECT_PROVIDER_KEY);
+  window.sessionStorage.removeItem(REDIRECT_PROVIDER_KEY);
+  return OAUTH_PROVIDERS.find((provider) => provider.id === id) ?? null;
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+
+// The handful of Redis commands the rate limiter needs, named and shaped like
+// node-redis so a Redis client can be plugged in with setRateLimitStore.
+export interface RateLimitStore {
+  zAdd(key: string, member: { score: number; value: string }): Promise<unknown>;
+  zRemRangeByScore(key: string, min: number, max: number): Promise<unknown>;
+  zCard(key: string): Promise<number>;
+  pExpire(key: string, milliseconds: number): Promise<unknown>;
+  // Remaining lifetime in ms, -1 without an expiry and -2 when the key is missing
+  pTTL(key: string): Promise<number>;
+  set(key: string, value: string, options: { PX: number }): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+interface SortedSetMember {
+  score: number;
+  value: string;
+}
+
+// Single-process stand-in for Redis. Every server instance counts separately,
+// so use a shared store when running more than one.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly sortedSets = new Map<string, SortedSetMember[]>();
+  private readonly strings = new Map<string, string>();
+  private readonly expiresAt = new Map<string, number>();
+
+  async zAdd(key: string, member: SortedSetMember): Promise<number> {
+    this.evictIfExpired(key);
+    const members = (this.sortedSets.get(key) ?? []).filter(({ value }) => value !== member.value);
+    members.push({ ...member });
+    members.sort((a, b) => a.score - b.score);
+    this.sortedSets.set(key, members);
+    return 1;
+  }
+
+  async zRemRangeByScore(key: string, min: number, max: number): Promise<number> {
+    this.evictIfExpired(key);
+    const members = this.sortedSets.get(key) ?? [];
+    const kept = members.filter(({ score }) => score < min || score > max);
+    this.sortedSets.set(key, kept);
+    return members.length - kept.length;
+  }
+
+  async zCard(key: string): Promise<number> {
+    this.evictIfExpired(key);
+    return this.sortedSets.get(key)?.length ?? 0;
+  }
+
+  async pExpire(key: string, milliseconds: number): Promise<boolean> {
+    if (!this.has(key)) {
+      return false;
+    }
+    this.expiresAt.set(key, Date.now() + milliseconds);
+    return true;
+  }
+
+  async pTTL(key: string): Promise<number> {
+    if (!this.has(key)) {
+      return -2;
+    }
+    const expiresAt = this.expiresAt.get(key);
+    return expiresAt === undefined ? -1 : expiresAt - Date.now();
+  }
+
+  async set(key: string, value: string, { PX }: { PX: number }): Promise<string> {
+    this.strings.set(key, value);
+    this.expiresAt.set(key, Date.now() + PX);
+    return 'OK';
+  }
+
+  async del(key: string): Promise<number> {
+    const existed = this.has(key);
+    this.sortedSets.delete(key);
+    this.strings.delete(key);
+    this.expiresAt.delete(key);
+    return existed ? 1 : 0;
+  }
+
+  private has(key: string): boolean {
+    this.evictIfExpired(key);
+    return this.strings.has(key) || (this.sortedSets.get(key)?.length ?? 0) > 0;
+  }
+
+  private evictIfExpired(key: string) {
+    const expiresAt = this.expiresAt.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      this.sortedSets.delete(key);
+      this.strings.delete(key);
+      this.expiresAt.delete(key);
+    }
+  }
+}
+
+const globalForRateLimit = globalThis as typeof globalThis & {
+  rateLimitStore?: RateLimitStore;
+};
+
+export function getRateLimitStore(): RateLimitStore {
+  globalForRateLimit.rateLimitStore ??= new MemoryRateLimitStore();
+  return globalForRateLimit.rateLimitStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.rateLimitStore = store;
+}
+
+export interface RateLimitOptions {
+  // Prefix for the store keys, e.g. 'login:email'
+  name: string;
+  limit: number;
+  windowMs: number;
+  // How long to refuse every request once the limit is exceeded
+  lockoutMs: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterMs: number };
+
+// Sliding-window log: each hit is a sorted-set member scored by its time, so
+// the window moves with the clock instead of resetting at fixed boundaries.
+// Going over the limit locks the key out for `lockoutMs`.
+export class SlidingWindowRateLimiter {
+  constructor(
+    private readonly options: RateLimitOptions,
+    private readonly getStore: () => RateLimitStore = getRateLimitStore
+  ) {}
+
+  async hit(id: string): Promise<RateLimitResult> {
+    const { name, limit, windowMs, lockoutMs } = this.options;
+    const store = this.getStore();
+    const key = `${name}:${id}`;
+    const lockKey = `${name}:lockout:${id}`;
+    const now = Date.now();
+
+    const lockedFor = await store.pTTL(lockKey);
+    if (lockedFor > 0) {
+      return { allowed: false, retryAfterMs: lockedFor };
+    }
+
+    await store.zRemRangeByScore(key, 0, now - windowMs);
+    const count = await store.zCard(key);
+
+    if (count >= limit) {
+      await store.set(lockKey, String(now), { PX: lockoutMs });
+      return { allowed: false, retryAfterMs: lockoutMs };
+    }
+
+    await store.zAdd(key, { score: now, value: `${now}:${randomUUID()}` });
+    await store.pExpire(key, windowMs);
+    return { allowed: true, remaining: limit - count - 1 };
+  }
+
+  // Forgets the hits and any lockout, e.g. after a successful sign-in
+  async reset(id: string): Promise<void> {
+    const store = this.getStore();
+    await store.del(`${this.options.name}:${id}`);
+    await store.del(`${this.options.name}:lockout:${id}`);
+  }
+}
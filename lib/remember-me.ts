@@ -0,0 +1,21 @@
+// Whether "Keep me signed in" starts out ticked. Off unless
+// NEXT_PUBLIC_REMEMBER_ME_DEFAULT=true, since the app runs on shared lab
+// computers. The server falls back to the same default.
+export function getDefaultRememberMe(
+  value: string | undefined = process.env.NEXT_PUBLIC_REMEMBER_ME_DEFAULT
+): boolean {
+  return value?.trim().toLowerCase() === 'true';
+}
+
+// The last choice made on this device, so the email link page and session
+// cookie refreshes keep to it
+export const REMEMBER_ME_KEY = 'rememberMe';
+
+export function getStoredRememberMe(): boolean {
+  const stored = window.localStorage.getItem(REMEMBER_ME_KEY);
+  return stored === null ? getDefaultRememberMe() : stored === 'true';
+}
+
+export function storeRememberMe(remember: boolean): void {
+  window.localStorage.setItem(REMEMBER_ME_KEY, String(remember));
+}
@@ -0,0 +1,64 @@
+// How many proxies in front of the app append to x-forwarded-for. One, the
+// hosting platform's or a single reverse proxy, unless TRUSTED_PROXY_COUNT
+// says otherwise; 0 means requests arrive directly and no header is trusted.
+export function getTrustedProxyCount(
+  value: string | undefined = process.env.TRUSTED_PROXY_COUNT
+): number {
+  const count = Number(value?.trim() || 1);
+  return Number.isInteger(count) && count >= 0 ? count : 1;
+}
+
+// Clients can send x-forwarded-for themselves, so its first entry proves
+// nothing. The entry the outermost trusted proxy appended is the address that
+// proxy saw; anything left of it is whatever the client claimed.
+export function getClientIp(
+  headers: Headers,
+  trustedProxies: number = getTrustedProxyCount()
+): string | null {
+  if (trustedProxies === 0) {
+    return null;
+  }
+
+  const forwardedFor = headers.get('x-forwarded-for');
+  if (!forwardedFor) {
+    return headers.get('x-real-ip') || null;
+  }
+  const hops = forwardedFor.split(',').map((entry) => entry.trim());
+  return hops.length >= trustedProxies ? hops[hops.length - trustedProxies] || null : null;
+}
+
+export function getUserAgent(headers: Headers): string | null {
+  return headers.get('user-agent') || null;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// Short, human label such as "Chrome on macOS" for the session list
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? 'Unknown device';
+}
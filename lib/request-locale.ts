@@ -0,0 +1,12 @@
+import { cookies, headers } from 'next/headers';
+
+import { isLocale, type Locale, LOCALE_COOKIE, matchLocale } from '@/lib/i18n';
+
+// A language picked in the switcher wins; otherwise the browser's preference
+export async function getRequestLocale(): Promise<Locale> {
+  const saved = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(saved)) {
+    return saved;
+  }
+  return matchLocale((await headers()).get('accept-language'));
+}
@@ -0,0 +1,47 @@
+// Roles live in the `roles` custom claim, e.g. { roles: ['editor'] }, set with
+// firebaseAdmin.setCustomUserClaims. Listed from most to least privileged:
+// every role also grants the ones after it, so an admin can do whatever an
+// editor or viewer can.
+export const ROLES = ['admin', 'editor', 'viewer'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const ROLES_CLAIM = 'roles';
+
+// Accounts made admin before roles existed only carry { admin: true }
+const LEGACY_ADMIN_CLAIM = 'admin';
+
+// Both the client SDK's parsed claims and the admin SDK's decoded tokens fit
+type Claims = { [key: string]: unknown } | null | undefined;
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function getRoles(claims: Claims): Role[] {
+  const value = claims?.[ROLES_CLAIM];
+  const roles = Array.isArray(value) ? value.filter(isRole) : [];
+
+  if (claims?.[LEGACY_ADMIN_CLAIM] === true) {
+    roles.push('admin');
+  }
+
+  return ROLES.filter((role) => roles.includes(role));
+}
+
+export function hasRole(claims: Claims, role: Role): boolean {
+  const required = ROLES.indexOf(role);
+  return getRoles(claims).some((granted) => ROLES.indexOf(granted) <= required);
+}
+
+// Claims set with setCustomUserClaims replace the whole object, so keep any
+// unrelated claims and only swap the roles. The legacy flag is dropped so it
+// cannot keep granting admin after the role is removed.
+export function withRoles(
+  claims: Record<string, unknown> | undefined,
+  roles: Role[]
+): Record<string, unknown> {
+  const rest = { ...claims };
+  delete rest[LEGACY_ADMIN_CLAIM];
+  return { ...rest, [ROLES_CLAIM]: ROLES.filter((role) => roles.includes(role)) };
+}
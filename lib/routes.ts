@@ -0,0 +1,58 @@
+export const LOGIN_ROUTE = '/login';
+export const FINISH_EMAIL_LINK_ROUTE = '/login/finish';
+export const DEFAULT_AUTHENTICATED_ROUTE = '/dashboard';
+export const PROFILE_ROUTE = '/dashboard/profile';
+export const VERIFY_EMAIL_ROUTE = '/verify-email';
+export const ADMIN_ROUTE = '/admin';
+export const ADMIN_AUDIT_ROUTE = '/admin/audit';
+export const RETURN_TO_PARAM = 'returnTo';
+// Tells the login page why the user was signed out, e.g. ?reason=idle
+export const SIGN_OUT_REASON_PARAM = 'reason';
+export const IDLE_SIGN_OUT_REASON = 'idle';
+
+// Routes that require a valid session. Anonymous visitors are sent to the
+// login page with the original URL preserved in `returnTo`. Password accounts
+// with an unverified email are held on the verification page. The admin area
+// additionally checks for the admin claim itself.
+export const PROTECTED_ROUTES = ['/dashboard', VERIFY_EMAIL_ROUTE, ADMIN_ROUTE];
+
+// Routes only meant for signed-out visitors. Signed-in users are sent on to
+// their `returnTo` target or the dashboard.
+export const GUEST_ONLY_ROUTES = ['/login'];
+
+export function matchesRoute(pathname: string, routes: string[]): boolean {
+  return routes.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+// Stand-in origin for resolving `returnTo`; only whether it stays put matters
+const RETURN_TO_BASE = 'http://return-to.invalid';
+
+// Browsers and the URL parser drop tabs and newlines, so "/\t/evil.example"
+// would become "//evil.example". Encoded ones count too: they are decoded
+// whenever the value is read back from a query string.
+const UNSAFE_CHARACTERS = /[\s\u0000-\u001f\u007f]|%(?:[01][0-9a-f]|7f)/i;
+
+function isSameOriginPath(value: string): boolean {
+  if (!value.startsWith('/') || UNSAFE_CHARACTERS.test(value)) {
+    return false;
+  }
+  try {
+    return new URL(value, RETURN_TO_BASE).origin === RETURN_TO_BASE;
+  } catch {
+    return false;
+  }
+}
+
+// Only same-origin relative paths are accepted so `returnTo` cannot be used
+// as an open redirect.
+export function getSafeReturnTo(value: string | null | undefined): string {
+  if (!value || !isSameOriginPath(value)) {
+    return DEFAULT_AUTHENTICATED_ROUTE;
+  }
+
+  if (matchesRoute(value.split(/[?#]/)[0], GUEST_ONLY_ROUTES)) {
+    return DEFAULT_AUTHENTICATED_ROUTE;
+  }
+
+  return value;
+}
@@ -0,0 +1,72 @@
+import type { User } from 'firebase/auth';
+
+import { getStoredRememberMe } from '@/lib/remember-me';
+import type { UserSession } from '@/lib/user-sessions';
+
+// The server refused the device's sign-in because its session was ended from
+// another device. The client must sign out before it can get a new session.
+export class SessionRevokedError extends Error {
+  constructor() {
+    super('This sign-in was ended. Please sign in again.');
+    this.name = 'SessionRevokedError';
+  }
+}
+
+// Exchanges the user's ID token for an httpOnly session cookie so server
+// components can identify the user. The cookie lives as long as the user
+// asked to stay signed in.
+export async function createServerSession(
+  user: User,
+  remember: boolean = getStoredRememberMe()
+): Promise<void> {
+  const idToken = await user.getIdToken();
+  const response = await fetch('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken, remember }),
+  });
+
+  if (response.status === 403) {
+    throw new SessionRevokedError();
+  }
+  if (!response.ok) {
+    throw new Error('Could not start a session. Please try again.');
+  }
+}
+
+// Also used by pages that find no client user: a tab can still carry the
+// browser's session cookie, e.g. a new tab when Firebase keeps the user in
+// sessionStorage, and the proxy would send it straight back from /login.
+export async function clearServerSession(): Promise<void> {
+  const response = await fetch('/api/session', { method: 'DELETE' });
+
+  if (!response.ok) {
+    throw new Error('Could not sign out. Please try again.');
+  }
+}
+
+// Calls one of the /api/sessions handlers and surfaces its error message
+async function sessionsRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api/sessions${path}`, init);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error ?? 'Something went wrong. Please try again.');
+  }
+  return body as T;
+}
+
+export async function fetchSessions(): Promise<UserSession[]> {
+  const { sessions } = await sessionsRequest<{ sessions: UserSession[] }>('');
+  return sessions;
+}
+
+export async function revokeSession(id: string): Promise<void> {
+  await sessionsRequest(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+// Revokes every refresh token of the account, so other devices are signed
+// out as soon as their ID token expires and their session cookie immediately
+export async function revokeAllSessions(): Promise<void> {
+  await sessionsRequest('', { method: 'DELETE' });
+}
@@ -0,0 +1,119 @@
+// Bookkeeping for issued session cookies, so users can see where they are
+// signed in and end one session without touching the others. Firebase itself
+// can only revoke every session of a user at once.
+export interface SessionRecord {
+  // SHA-256 of the session cookie; the cookie itself is never stored
+  id: string;
+  uid: string;
+  userAgent: string | null;
+  ip: string | null;
+  // When the user signed in on the device (the ID token's auth_time), shared
+  // by every cookie the device is issued until it signs in again
+  signInAt: number;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  revokedAt: number | null;
+}
+
+export interface SessionStore {
+  create(record: SessionRecord): Promise<void>;
+  get(id: string): Promise<SessionRecord | null>;
+  listByUser(uid: string): Promise<SessionRecord[]>;
+  touch(id: string, lastSeenAt: number): Promise<void>;
+  revoke(id: string): Promise<void>;
+  revokeAllForUser(uid: string): Promise<void>;
+  // Remembers a device's sign-in as ended until `until`, so it cannot be
+  // turned into a new session
+  revokeSignIn(uid: string, signInAt: number, until: number): Promise<void>;
+  isSignInRevoked(uid: string, signInAt: number): Promise<boolean>;
+}
+
+// Good enough for a single server process. Deployments with several instances
+// should plug in a shared store (Redis, Firestore, ...) with setSessionStore.
+export class MemorySessionStore implements SessionStore {
+  private readonly records = new Map<string, SessionRecord>();
+  // `${uid}:${signInAt}` to the time the entry can be forgotten
+  private readonly revokedSignIns = new Map<string, number>();
+
+  async create(record: SessionRecord): Promise<void> {
+    this.prune();
+    this.records.set(record.id, { ...record });
+  }
+
+  async get(id: string): Promise<SessionRecord | null> {
+    const record = this.records.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async listByUser(uid: string): Promise<SessionRecord[]> {
+    this.prune();
+    return [...this.records.values()]
+      .filter((record) => record.uid === uid)
+      .map((record) => ({ ...record }));
+  }
+
+  async touch(id: string, lastSeenAt: number): Promise<void> {
+    const record = this.records.get(id);
+    if (record) {
+      record.lastSeenAt = lastSeenAt;
+    }
+  }
+
+  async revoke(id: string): Promise<void> {
+    const record = this.records.get(id);
+    if (record && !record.revokedAt) {
+      record.revokedAt = Date.now();
+    }
+  }
+
+  async revokeAllForUser(uid: string): Promise<void> {
+    const now = Date.now();
+    for (const record of this.records.values()) {
+      if (record.uid === uid && !record.revokedAt) {
+        record.revokedAt = now;
+      }
+    }
+  }
+
+  async revokeSignIn(uid: string, signInAt: number, until: number): Promise<void> {
+    this.prune();
+    const key = `${uid}:${signInAt}`;
+    this.revokedSignIns.set(key, Math.max(until, this.revokedSignIns.get(key) ?? 0));
+  }
+
+  async isSignInRevoked(uid: string, signInAt: number): Promise<boolean> {
+    this.prune();
+    return this.revokedSignIns.has(`${uid}:${signInAt}`);
+  }
+
+  // Expired cookies fail verification anyway, so their records can go
+  private prune() {
+    const now = Date.now();
+    for (const [id, record] of this.records) {
+      if (record.expiresAt <= now) {
+        this.records.delete(id);
+      }
+    }
+    for (const [key, until] of this.revokedSignIns) {
+      if (until <= now) {
+        this.revokedSignIns.delete(key);
+      }
+    }
+  }
+}
+
+// Kept on globalThis so the proxy, route handlers and dev-server reloads all
+// share one store
+const globalForSessions = globalThis as typeof globalThis & {
+  sessionStore?: SessionStore;
+};
+
+export function getSessionStore(): SessionStore {
+  globalForSessions.sessionStore ??= new MemorySessionStore();
+  return globalForSessions.sessionStore;
+}
+
+export function setSessionStore(store: SessionStore): void {
+  globalForSessions.sessionStore = store;
+}
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import type { DecodedIdToken } from 'firebase-admin/auth';
+import { cookies } from 'next/headers';
+
+import { requiresEmailVerification } from '@/lib/email-verification';
+import { firebaseAdmin } from '@/lib/firebase-admin';
+import { getDefaultRememberMe } from '@/lib/remember-me';
+import { getSessionStore } from '@/lib/session-store';
+
+export const SESSION_COOKIE_NAME = '__session';
+
+// Firebase accepts session cookie lifetimes between 5 minutes and 2 weeks.
+export const SESSION_EXPIRES_IN_MS = 60 * 60 * 24 * 5 * 1000;
+
+// Without "Keep me signed in" the cookie goes when the browser closes. This
+// caps browsers that restore it or are never closed.
+export const SHORT_SESSION_EXPIRES_IN_MS = 60 * 60 * 12 * 1000;
+
+// How long a device whose session was ended stays unable to start a new one
+// without signing in again. Its client normally signs out well before this.
+export const REVOKED_SIGN_IN_TTL_MS = 60 * 60 * 24 * 30 * 1000;
+
+// Saves a store write on every request; "last seen" only needs to be roughly right
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Raised when a device asks for a session after that device's session was ended
+export class SignInRevokedError extends Error {
+  constructor() {
+    super('This sign-in was ended. Please sign in again.');
+    this.name = 'SignInRevokedError';
+  }
+}
+
+interface SessionContext {
+  userAgent: string | null;
+  ip: string | null;
+  // "Keep me signed in"; falls back to the configured default
+  remember?: boolean;
+}
+
+export function getSessionExpiresIn(remember: boolean): number {
+  return remember ? SESSION_EXPIRES_IN_MS : SHORT_SESSION_EXPIRES_IN_MS;
+}
+
+export function getSessionId(sessionCookie: string): string {
+  return createHash('sha256').update(sessionCookie).digest('hex');
+}
+
+// Returns the cookie together with the verified token it was made from
+export async function createSessionCookie(
+  idToken: string,
+  { userAgent, ip, remember = getDefaultRememberMe() }: SessionContext
+): Promise<{ sessionCookie: string; user: DecodedIdToken }> {
+  const user = await firebaseAdmin.verifyIdToken(idToken);
+  const store = getSessionStore();
+  const signInAt = user.auth_time * 1000;
+  // The device is still signed in to Firebase after its session was ended;
+  // only a fresh sign-in gets it a new cookie
+  if (await store.isSignInRevoked(user.uid, signInAt)) {
+    throw new SignInRevokedError();
+  }
+
+  const expiresIn = getSessionExpiresIn(remember);
+  const sessionCookie = await firebaseAdmin.createSessionCookie(idToken, { expiresIn });
+
+  const now = Date.now();
+  await store.create({
+    id: getSessionId(sessionCookie),
+    uid: user.uid,
+    userAgent,
+    ip,
+    signInAt,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: now + expiresIn,
+    revokedAt: null,
+  });
+  return { sessionCookie, user };
+}
+
+// Checking revocation costs a lookup per call, but is what makes "sign out
+// everywhere" and disabled accounts take effect immediately instead of when
+// the cookie expires.
+export async function verifySessionCookie(
+  sessionCookie: string | undefined
+): Promise<DecodedIdToken | null> {
+  if (!sessionCookie) {
+    return null;
+  }
+
+  try {
+    const decoded = await firebaseAdmin.verifySessionCookie(sessionCookie, true);
+    const store = getSessionStore();
+    const record = await store.get(getSessionId(sessionCookie));
+
+    if (record?.revokedAt) {
+      return null;
+    }
+    if (record && Date.now() - record.lastSeenAt >= LAST_SEEN_RESOLUTION_MS) {
+      await store.touch(record.id, Date.now());
+    }
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+// Ends one session. The cookie stays valid for Firebase, so this relies on
+// verifySessionCookie consulting the session store. Unless `signOutDevice` is
+// set, the same device may exchange its ID token for a new cookie, as it does
+// when the cookie is re-issued.
+export async function revokeSession(
+  sessionId: string,
+  { signOutDevice = false }: { signOutDevice?: boolean } = {}
+): Promise<void> {
+  const store = getSessionStore();
+  await store.revoke(sessionId);
+
+  const record = signOutDevice ? await store.get(sessionId) : null;
+  if (record) {
+    await store.revokeSignIn(record.uid, record.signInAt, Date.now() + REVOKED_SIGN_IN_TTL_MS);
+  }
+}
+
+export async function revokeAllSessions(uid: string): Promise<void> {
+  await firebaseAdmin.revokeRefreshTokens(uid);
+  await getSessionStore().revokeAllForUser(uid);
+}
+
+// Without maxAge the browser drops the cookie when it closes
+const browserSessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+export const sessionCookieOptions = {
+  ...browserSessionCookieOptions,
+  maxAge: SESSION_EXPIRES_IN_MS / 1000,
+};
+
+export function getSessionCookieOptions(remember: boolean) {
+  return remember ? sessionCookieOptions : browserSessionCookieOptions;
+}
+
+interface GetSessionUserOptions {
+  allowUnverifiedEmail?: boolean;
+}
+
+// Reads and verifies the session cookie of the current request. Usable from
+// server components, route handlers and server actions. Password accounts
+// that have not verified their email are treated as signed out unless
+// `allowUnverifiedEmail` is set.
+export async function getSessionUser({
+  allowUnverifiedEmail = false,
+}: GetSessionUserOptions = {}): Promise<DecodedIdToken | null> {
+  const cookieStore = await cookies();
+  const user = await verifySessionCookie(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+
+  if (user && !allowUnverifiedEmail && requiresEmailVerification(user)) {
+    return null;
+  }
+
+  return user;
+}
+
+// Identifies the current request's session in the session store
+export async function getCurrentSessionId(): Promise<string | null> {
+  const cookieStore = await cookies();
+  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  return sessionCookie ? getSessionId(sessionCookie) : null;
+}
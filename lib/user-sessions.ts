@@ -0,0 +1,46 @@
+import { describeUserAgent } from '@/lib/request-info';
+import { getSessionStore, type SessionRecord } from '@/lib/session-store';
+
+// A session as shown to its owner. Dates are ISO strings so the shape
+// survives JSON.
+export interface UserSession {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+export function toUserSession(record: SessionRecord, currentSessionId: string | null): UserSession {
+  return {
+    id: record.id,
+    device: describeUserAgent(record.userAgent),
+    userAgent: record.userAgent,
+    ip: record.ip,
+    createdAt: new Date(record.createdAt).toISOString(),
+    lastSeenAt: new Date(record.lastSeenAt).toISOString(),
+    current: record.id === currentSessionId,
+  };
+}
+
+// Active sessions, the current one first and the rest by most recent use
+export async function listUserSessions(
+  uid: string,
+  currentSessionId: string | null
+): Promise<UserSession[]> {
+  const records = await getSessionStore().listByUser(uid);
+
+  return records
+    .filter((record) => !record.revokedAt)
+    .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+    .map((record) => toUserSession(record, currentSessionId))
+    .sort((a, b) => Number(b.current) - Number(a.current));
+}
+
+// Only lets users end their own sessions; someone else's ID looks like a miss
+export async function findUserSession(uid: string, sessionId: string): Promise<SessionRecord | null> {
+  const record = await getSessionStore().get(sessionId);
+  return record && record.uid === uid && !record.revokedAt ? record : null;
+}
@@ -0,0 +1,182 @@
+import { checkPasswordRules, type PasswordRuleResult } from '@/lib/password-policy';
+
+// Field rules shared by every form that collects credentials. Each validator
+// returns the error message to show, or undefined when the value is valid.
+
+// The credential validators' messages. Translated screens pass their own;
+// see getValidationMessages in lib/i18n.ts.
+export interface ValidationMessages {
+  emailRequired: string;
+  emailInvalid: string;
+  passwordRequired: string;
+  passwordTooShort: string;
+  passwordRule: (rule: PasswordRuleResult) => string;
+  confirmPasswordRequired: string;
+  passwordMismatch: string;
+  displayNameRequired: string;
+  displayNameTooLong: string;
+  termsRequired: string;
+  phoneRequired: string;
+  phoneInvalid: string;
+}
+
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+
+export const DEFAULT_VALIDATION_MESSAGES: ValidationMessages = {
+  emailRequired: 'Email is required',
+  emailInvalid: 'Please enter a valid email',
+  passwordRequired: 'Password is required',
+  passwordTooShort: 'Password must be at least 6 characters',
+  passwordRule: (rule) => rule.message,
+  confirmPasswordRequired: 'Please confirm your password',
+  passwordMismatch: 'Passwords do not match',
+  displayNameRequired: 'Display name is required',
+  displayNameTooLong: `Display name must be ${DISPLAY_NAME_MAX_LENGTH} characters or fewer`,
+  termsRequired: 'You must accept the terms to create an account',
+  phoneRequired: 'Phone number is required',
+  phoneInvalid: 'Enter the number in international format, e.g. +1 555 123 4567',
+};
+
+// Field name -> message for every invalid field of a form
+export type FormErrors<T> = Partial<Record<keyof T, string>>;
+
+export function validateEmail(
+  email: string,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): string | undefined {
+  if (!email) {
+    return messages.emailRequired;
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return messages.emailInvalid;
+  }
+  return undefined;
+}
+
+export function validatePassword(
+  password: string,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): string | undefined {
+  if (!password) {
+    return messages.passwordRequired;
+  }
+  if (password.length < 6) {
+    return messages.passwordTooShort;
+  }
+  return undefined;
+}
+
+// New passwords (sign-up, reset, change) must also satisfy the password policy.
+export function validateNewPassword(
+  password: string,
+  email?: string,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): string | undefined {
+  if (!password) {
+    return messages.passwordRequired;
+  }
+  const failedRule = checkPasswordRules(password, { email }).find((rule) => !rule.passed);
+  return failedRule && messages.passwordRule(failedRule);
+}
+
+export function validateConfirmPassword(
+  password: string,
+  confirmPassword: string,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): string | undefined {
+  if (!confirmPassword) {
+    return messages.confirmPasswordRequired;
+  }
+  if (confirmPassword !== password) {
+    return messages.passwordMismatch;
+  }
+  return undefined;
+}
+
+// Optional on the profile page, where clearing it removes the name
+export function validateDisplayName(
+  displayName: string,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): string | undefined {
+  if (displayName.trim().length > DISPLAY_NAME_MAX_LENGTH) {
+    return messages.displayNameTooLong;
+  }
+  return undefined;
+}
+
+export interface SignInValues {
+  email: string;
+  password: string;
+}
+
+export interface SignUpValues {
+  displayName: string;
+  email: string;
+  password: string;
+  confirmPassword: string;
+  acceptTerms: boolean;
+}
+
+// Email link sign-in uses the same form without a password
+export function validateSignIn(
+  values: SignInValues,
+  { requirePassword = true, messages = DEFAULT_VALIDATION_MESSAGES } = {}
+): FormErrors<SignInValues> {
+  return {
+    email: validateEmail(values.email, messages),
+    password: requirePassword ? validatePassword(values.password, messages) : undefined,
+  };
+}
+
+export function validateSignUp(
+  values: SignUpValues,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): FormErrors<SignUpValues> {
+  return {
+    displayName: values.displayName.trim()
+      ? validateDisplayName(values.displayName, messages)
+      : messages.displayNameRequired,
+    email: validateEmail(values.email, messages),
+    password: validateNewPassword(values.password, values.email, messages),
+    confirmPassword: validateConfirmPassword(values.password, values.confirmPassword, messages),
+    acceptTerms: values.acceptTerms ? undefined : messages.termsRequired,
+  };
+}
+
+// Avatars are optional, but must be a web address the browser can load
+export function validatePhotoUrl(photoUrl: string): string | undefined {
+  if (!photoUrl) {
+    return undefined;
+  }
+  try {
+    const { protocol } = new URL(photoUrl);
+    if (protocol === 'https:' || protocol === 'http:') {
+      return undefined;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  return 'Please enter a valid image URL';
+}
+
+// Firebase only accepts phone numbers in E.164 format: a plus sign, the country
+// code and up to 15 digits in total.
+export const PHONE_NUMBER_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+// Drops the spaces, dashes, dots and brackets people type in phone numbers
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.replace(/[\s\-.()]/g, '');
+}
+
+export function validatePhoneNumber(
+  phoneNumber: string,
+  messages: ValidationMessages = DEFAULT_VALIDATION_MESSAGES
+): string | undefined {
+  if (!phoneNumber) {
+    return messages.phoneRequired;
+  }
+  if (!PHONE_NUMBER_PATTERN.test(normalizePhoneNumber(phoneNumber))) {
+    return messages.phoneInvalid;
+  }
+  return undefined;
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { requiresEmailVerification } from '@/lib/email-verification';
+import {
+  DEFAULT_AUTHENTICATED_ROUTE,
+  getSafeReturnTo,
+  GUEST_ONLY_ROUTES,
+  LOGIN_ROUTE,
+  matchesRoute,
+  PROTECTED_ROUTES,
+  RETURN_TO_PARAM,
+  VERIFY_EMAIL_ROUTE,
+} from '@/lib/routes';
+import { SESSION_COOKIE_NAME, verifySessionCookie } from '@/lib/session';
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search, searchParams } = request.nextUrl;
+  const isProtected = matchesRoute(pathname, PROTECTED_ROUTES);
+  const isGuestOnly = matchesRoute(pathname, GUEST_ONLY_ROUTES);
+
+  if (!isProtected && !isGuestOnly) {
+    return NextResponse.next();
+  }
+
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const session = await verifySessionCookie(sessionCookie);
+
+  if (isProtected && !session) {
+    const loginUrl = new URL(LOGIN_ROUTE, request.url);
+    loginUrl.searchParams.set(RETURN_TO_PARAM, `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    // Drop stale or revoked cookies so the guest-only check below does not
+    // bounce the visitor straight back.
+    if (sessionCookie) {
+      response.cookies.delete(SESSION_COOKIE_NAME);
+    }
+    return response;
+  }
+
+  const isVerifyEmailRoute = matchesRoute(pathname, [VERIFY_EMAIL_ROUTE]);
+  const needsVerification = requiresEmailVerification(session);
+
+  if (session && needsVerification && !isVerifyEmailRoute) {
+    return NextResponse.redirect(new URL(VERIFY_EMAIL_ROUTE, request.url));
+  }
+
+  if (session && !needsVerification && isVerifyEmailRoute) {
+    return NextResponse.redirect(new URL(DEFAULT_AUTHENTICATED_ROUTE, request.url));
+  }
+
+  if (isGuestOnly && session) {
+    const target = getSafeReturnTo(searchParams.get(RETURN_TO_PARAM));
+    return NextResponse.redirect(new URL(target, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)'],
+};
@@ -0,0 +1,50 @@
+/**
+ * Grants the admin role to an existing account. Roles are normally managed
+ * from the /admin console, which needs an admin to exist first.
+ *
+ *   npm run grant-admin -- user@example.com
+ *   npm run grant-admin -- <uid>
+ *
+ * Uses the same FIREBASE_* service account variables as the app, read from
+ * .env.local when it exists.
+ */
+import { existsSync } from 'fs';
+
+import { getRoles, withRoles } from '../lib/roles';
+
+async function main() {
+  const identifier = process.argv[2];
+  if (!identifier) {
+    console.error('Usage: npm run grant-admin -- <email or uid>');
+    process.exit(1);
+  }
+
+  if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local');
+  }
+
+  // Imported once the env file is loaded, since it initializes the SDK on import
+  const { firebaseAdmin } = await import('../lib/firebase-admin');
+
+  const user = identifier.includes('@')
+    ? await firebaseAdmin.getUserByEmail(identifier)
+    : await firebaseAdmin.getUser(identifier);
+  const name = user.email ?? user.uid;
+  const roles = getRoles(user.customClaims);
+
+  if (roles.includes('admin')) {
+    console.log(`${name} is already an admin.`);
+    return;
+  }
+
+  await firebaseAdmin.setCustomUserClaims(
+    user.uid,
+    withRoles(user.customClaims, [...roles, 'admin'])
+  );
+  console.log(`Granted admin to ${name}. They need to sign in again for it to take effect.`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});